@@ -4,3 +4,4 @@ config();
 
 import '@/ai/flows/analyze-food-item.ts';
 import '@/ai/flows/analyze-barcode-flow.ts';
+import '@/ai/flows/analyze-label-flow.ts';
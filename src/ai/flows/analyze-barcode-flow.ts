@@ -10,127 +10,105 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {validateGtin} from '@/lib/barcode/gtin';
+import {getProductDataProvider, PRODUCT_RECORD_VERSION, type ProductLookupResult} from '@/lib/products';
+import {getLookupCache} from '@/lib/cache';
+import {ProductAnalysisSchema} from '@/ai/schemas/product';
+import {parseIngredients} from '@/lib/ingredients';
+import {assessProductIngredients} from '@/ai/flows/assess-product-ingredients';
 
 const AnalyzeBarcodeInputSchema = z.object({
   barcodeNumber: z.string().describe('The product barcode number (e.g., UPC, EAN).'),
 });
 export type AnalyzeBarcodeInput = z.infer<typeof AnalyzeBarcodeInputSchema>;
 
-const AnalyzeBarcodeOutputSchema = z.object({
-  productName: z.string().optional().describe('The name of the product.'),
-  brand: z.string().optional().describe('The brand of the product.'),
-  ingredients: z.array(z.string()).optional().describe('List of ingredients.'),
-  allergens: z.array(z.string()).optional().describe('List of potential allergens found or declared.'),
-  potentialConcerns: z
-    .array(
-      z.object({
-        concern: z.string().describe('The specific concern identified (e.g., "High Sugar Content", "Contains Artificial Sweeteners").'),
-        details: z.string().optional().describe('More details about the concern.'),
-      })
-    )
-    .optional()
-    .describe('A list of potential concerns regarding ingredients or nutritional information.'),
-  overallAssessment: z.string().optional().describe('A brief overall assessment of the product based on its ingredients.'),
-  isFound: z.boolean().describe('Whether product information was found for the barcode.'),
-  imageUrl: z.string().optional().describe('URL of the product image, if available.'),
-  source: z.string().optional().describe('Data source (e.g., Open Food Facts).')
-});
+// Label photos are analyzed into the same shape (see analyze-label-flow).
+const AnalyzeBarcodeOutputSchema = ProductAnalysisSchema;
 export type AnalyzeBarcodeOutput = z.infer<typeof AnalyzeBarcodeOutputSchema>;
 
 
+// Lookups are cached by GTIN-14, per product record version; transient provider errors are never cached.
+const productLookupCache = () => getLookupCache<ProductLookupResult>(`products-v${PRODUCT_RECORD_VERSION}`, {
+  isNegative: result => result.status === 'not-found',
+  shouldCache: result => result.status !== 'error',
+});
+
 const fetchProductInfoByBarcodeTool = ai.defineTool(
   {
     name: 'fetchProductInfoByBarcode',
-    description: 'Fetches product information (name, brand, ingredients, allergens, image) for a given barcode number using the Open Food Facts API.',
-    inputSchema: z.object({ barcodeNumber: z.string() }),
+    description: 'Fetches product information (name, brand, ingredients, allergens, image) for a given barcode number from the configured product data providers (Open Food Facts by default).',
+    inputSchema: z.object({ barcodeNumber: z.string().regex(/^\d{8,14}$/, 'Barcode must be 8 to 14 digits.') }),
     outputSchema: AnalyzeBarcodeOutputSchema,
   },
   async (input): Promise<AnalyzeBarcodeOutput> => {
     const { barcodeNumber } = input;
-    const apiUrl = `https://world.openfoodfacts.org/api/v2/product/${barcodeNumber}.json?fields=product_name,brands,ingredients_text,allergens_tags,image_url,product_name_en,ingredients_text_en`;
-
-    try {
-      const response = await fetch(apiUrl, {
-        headers: {
-          'User-Agent': 'AAHAR-Food-Analysis-App/1.0 (Firebase Studio; contact: no-reply@example.com) - Product Data powered by Open Food Facts - https://world.openfoodfacts.org/', 
-        }
-      });
-
-      if (!response.ok) {
-        console.error(`Open Food Facts API request failed with status: ${response.status} for barcode: ${barcodeNumber}`);
-        return {
-          isFound: false,
-          productName: 'Product not found or API error',
-          brand: '',
-          ingredients: [],
-          allergens: [],
-          potentialConcerns: [],
-          overallAssessment: `Could not retrieve information from Open Food Facts. The API returned status ${response.status}. This could be due to an invalid barcode or a temporary issue with the service.`,
-          source: 'Open Food Facts API',
-        };
-      }
-
-      const data = await response.json();
-
-      if (data.status === 0 || !data.product) {
-        console.log(`Product not found in Open Food Facts for barcode: ${barcodeNumber}`);
-        return {
-          isFound: false,
-          productName: 'Product not found',
-          brand: '',
-          ingredients: [],
-          allergens: [],
-          potentialConcerns: [],
-          overallAssessment: 'Product information not found in the Open Food Facts database for this barcode. Please check if the number is correct.',
-          source: 'Open Food Facts API',
-        };
-      }
-
-      const product = data.product;
-      const productName = product.product_name_en || product.product_name || 'N/A';
-      const ingredientsString = product.ingredients_text_en || product.ingredients_text || '';
-      
-      const ingredientsArray = ingredientsString
-          .replace(/_/g, '') // remove underscores
-          .split(/[,;]\s*/) // split by comma or semicolon followed by optional space
-          .map(ing => ing.trim()) // trim whitespace
-          .filter(ing => ing); // remove any empty strings
-
-      const allergensArray = (product.allergens_tags || [])
-        .map((tag: string) => tag.replace(/^[a-z]{2}:/, '').replace(/-/g, ' ').trim())
-        .filter(allergen => allergen);
-
-      let finalIngredients: string[] = [];
-      if (ingredientsArray.length > 0) {
-        finalIngredients = ingredientsArray;
-      } else if (ingredientsString) {
-        // Fallback: If parsing fails but a string exists, use the whole string.
-        finalIngredients = [ingredientsString];
-      }
+    const validation = validateGtin(barcodeNumber);
+    if (!validation.valid) {
+      return {
+        isFound: false,
+        productName: 'Invalid barcode',
+        overallAssessment: validation.error,
+        validationError: validation.error,
+        source: 'Barcode validation',
+      };
+    }
+
+    const { gtin } = validation;
+    const result = await productLookupCache().getOrLoad(gtin.gtin14, () => getProductDataProvider().lookup(gtin));
 
+    if (result.status === 'error') {
       return {
-        isFound: true,
-        productName: productName,
-        brand: product.brands || 'N/A',
-        ingredients: finalIngredients,
-        allergens: allergensArray,
-        imageUrl: product.image_url || undefined,
-        source: 'Open Food Facts API',
+        isFound: false,
+        productName: 'Product lookup failed',
+        brand: '',
+        ingredients: [],
+        allergens: [],
+        potentialConcerns: [],
+        overallAssessment: result.message,
+        source: result.source,
       };
+    }
 
-    } catch (error) {
-      console.error('Error fetching or processing data from Open Food Facts API:', error);
+    if (result.status === 'not-found') {
+      console.log(`Product not found in ${result.source} for barcode: ${barcodeNumber}`);
       return {
         isFound: false,
-        productName: 'Error during API request',
+        productName: 'Product not found',
         brand: '',
         ingredients: [],
         allergens: [],
         potentialConcerns: [],
-        overallAssessment: 'An error occurred while trying to fetch product information from Open Food Facts. Please check your internet connection.',
-        source: 'Open Food Facts API (Error)',
+        overallAssessment: `The barcode is valid, but this product is not in the ${result.source} database yet.`,
+        source: result.source,
       };
     }
+
+    const { product } = result;
+    const ingredientsString = product.ingredientsText || '';
+    const parsed = parseIngredients(ingredientsString);
+
+    // Fallback: If parsing yields nothing but a string exists, keep the whole string as one ingredient.
+    const finalIngredients = parsed.ingredients.length > 0 || !ingredientsString.trim()
+      ? parsed.ingredients
+      : [{ name: ingredientsString.trim() }];
+    // A "Contains: ..." statement on the label adds to the provider's declared allergens.
+    const allergens = [...new Set([...product.allergens, ...parsed.contains])];
+
+    return {
+      isFound: true,
+      productName: product.productName || 'N/A',
+      brand: product.brand || 'N/A',
+      ingredients: finalIngredients,
+      ingredientsText: ingredientsString || undefined,
+      mayContain: parsed.mayContain,
+      allergens,
+      imageUrl: product.imageUrl,
+      nutriments: product.nutriments,
+      nutriScoreGrade: product.nutriScoreGrade,
+      novaGroup: product.novaGroup,
+      ecoScoreGrade: product.ecoScoreGrade,
+      source: result.source,
+    };
   }
 );
 
@@ -138,32 +116,6 @@ export async function analyzeBarcode(input: AnalyzeBarcodeInput): Promise<Analyz
   return analyzeBarcodeFlow(input);
 }
 
-const prompt = ai.definePrompt({
-  name: 'analyzeBarcodeIngredientsPrompt',
-  input: { schema: z.object({ ingredients: z.array(z.string()) }) }, 
-  output: { schema: z.object({
-    potentialConcerns: AnalyzeBarcodeOutputSchema.shape.potentialConcerns,
-    overallAssessment: AnalyzeBarcodeOutputSchema.shape.overallAssessment
-  })},
-  tools: [],
-  prompt: `You are an AI assistant specialized in analyzing packaged food items based on their ingredients list.
-
-You have been provided with a list of ingredients.
-Ingredients: 
-{{#each ingredients}}- {{{this}}}\n{{/each}}
-
-Based ONLY on this ingredients list:
-1.  Identify any potential concerns. For each concern, provide a brief 'concern' title and optional 'details'.
-    Examples of concerns: "High Sugar Content", "Contains Artificial Sweeteners", "Multiple Preservatives", "Contains Artificial Colors".
-    Be specific. For example, if 'Aspartame' is an ingredient, a concern could be "Contains Artificial Sweetener: Aspartame".
-    If sugar or corn syrup are among the first few ingredients, note "High Sugar Content" or "Sweetened with Corn Syrup".
-2.  Provide a brief 'overallAssessment' of the product from a health-conscious perspective, focusing on the ingredients.
-
-IMPORTANT: Your response MUST only contain the 'potentialConcerns' and 'overallAssessment' fields.
-Do not invent information not present in the provided ingredients list. Focus on objective analysis.
-`,
-});
-
 const analyzeBarcodeFlow = ai.defineFlow(
   {
     name: 'analyzeBarcodeFlow',
@@ -171,10 +123,32 @@ const analyzeBarcodeFlow = ai.defineFlow(
     outputSchema: AnalyzeBarcodeOutputSchema,
   },
   async (flowInput): Promise<AnalyzeBarcodeOutput> => {
-    // Step 1: Fetch product info from the Open Food Facts API tool.
-    const productInfo = await fetchProductInfoByBarcodeTool(flowInput);
+    // Step 1: Validate the check digit and normalize the code before it goes anywhere near a URL.
+    const validation = validateGtin(flowInput.barcodeNumber);
+    if (!validation.valid) {
+      console.log(`Rejected barcode input "${flowInput.barcodeNumber}": ${validation.error}`);
+      return {
+        isFound: false,
+        productName: 'Invalid barcode',
+        brand: '',
+        ingredients: [],
+        allergens: [],
+        potentialConcerns: [],
+        overallAssessment: validation.error,
+        validationError: validation.error,
+        source: 'Barcode validation',
+      };
+    }
+    const { gtin } = validation;
+
+    // Step 2: Fetch product info from the configured product data providers.
+    const productInfo = {
+      ...(await fetchProductInfoByBarcodeTool({ barcodeNumber: gtin.lookupCode })),
+      gtin: gtin.gtin14,
+      barcodeFormat: gtin.format,
+    };
 
-    // Step 2: If the product wasn't found or has no ingredients, return the tool's result directly.
+    // Step 3: If the product wasn't found or has no ingredients, return the tool's result directly.
     if (!productInfo.isFound || !productInfo.ingredients || productInfo.ingredients.length === 0) {
       console.log("Product not found or no ingredients. Skipping AI analysis.");
       return {
@@ -185,25 +159,8 @@ const analyzeBarcodeFlow = ai.defineFlow(
       };
     }
 
-    try {
-      // Step 3: Call the AI for analysis with only the ingredients.
-      const {output: aiAnalysisResult} = await prompt({ ingredients: productInfo.ingredients });
-
-      // Step 4: Reliably merge the AI's analysis with the factual data from the tool.
-      return {
-          ...productInfo, // The source of truth for product data
-          potentialConcerns: aiAnalysisResult?.potentialConcerns || [], // Add AI analysis
-          overallAssessment: aiAnalysisResult?.overallAssessment || "AI analysis of ingredients could not be completed.", // Add AI analysis
-      };
-
-    } catch (e) {
-        console.error("Error during AI prompt call for barcode analysis:", e);
-        // Fallback in case of a catastrophic error during the AI call.
-        return {
-          ...productInfo,
-          overallAssessment: "An error occurred during AI analysis of ingredients. Product details shown, but please review ingredients manually.",
-        };
-    }
+    // Step 4: Match additives against the database and ask the AI for commentary on the rest.
+    return assessProductIngredients({...productInfo, ingredients: productInfo.ingredients});
   }
 );
 
@@ -1,17 +1,51 @@
-
-'use server';
-
 /**
- * @fileOverview An AI agent for analyzing food items, including identification,
- * component breakdown, potential chemical residues, organic status, and color analysis.
+ * @fileOverview An AI agent for analyzing the food items in a photo, including
+ * where each item is, identification, component breakdown, potential chemical
+ * residues, organic status, and color analysis.
  *
  * - analyzeFoodItem - A function that handles the food item analysis process.
+ * - analyzeFoodItemFlow - The flow itself, served at /api/analyze-food-item so the scan page can stream it.
  * - AnalyzeFoodItemInput - The input type for the analyzeFoodItem function.
  * - AnalyzeFoodItemOutput - The return type for the analyzeFoodItem function.
+ * - AnalyzeFoodItemChunk - The analysis so far, streamed while the photo is being read.
+ * - AnalysisStage - How far a streamed analysis has got.
+ * - DetectedFoodItem - One item found in the photo, with its bounding box.
+ * - FoodItemAnalysis - The analysis of a single item.
+ * - BoundingBox - An item's position as fractions of the image size.
+ * - PortionEstimate - How many pieces of an item are in the photo and roughly what they weigh.
+ * - FreshnessAssessment - Ripeness, visible defects with their regions, and remaining shelf life.
+ * - FreshnessDefect - One visible sign of spoilage or damage.
+ *
+ * Every item records where each of its values came from (see
+ * `@/ai/schemas/provenance`).
+ *
+ * Identification confidence is not the model's own number: the photo is read
+ * several times and the confidence policy (`@/lib/confidence`) derives it from
+ * how well the readings agree. When no item clears the threshold, the result
+ * asks for a better photo instead of guessing.
+ *
+ * Chemical residues are never generated by the model: it only names the crop,
+ * and the residues are looked up in the bundled residue database. Likewise,
+ * when an item's name matches the bundled food composition table, its
+ * components come from the table instead of the model's estimate.
+ *
+ * While the main reading is generated, the flow streams draft items as their
+ * fields complete: identification first, then components, then residues.
+ * Drafts have not been checked against the confidence policy yet; only the
+ * final output has. This file is not a server action module because the
+ * route handler needs the flow object itself, so client code may only import
+ * its types.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {FoodItemProvenanceSchema, type FoodItemProvenance, type Provenance} from '@/ai/schemas/provenance';
+import {FieldConfidenceSchema, NeedsBetterPhotoSchema, PhotoIssueSchema} from '@/ai/schemas/confidence';
+import {ChemicalResidueSchema} from '@/ai/schemas/residues';
+import {FoodCompositionSchema} from '@/ai/schemas/composition';
+import {COMPOSITION_TABLE_VERSION, componentsFromComposition, findFoodComposition} from '@/lib/composition';
+import {RESIDUE_CROPS, RESIDUE_DATABASE_VERSION, findCrop, residuesForCrop} from '@/lib/residues';
+import {measureAgreement, resolveConfidencePolicy, retakeGuidance, type Agreement, type ConfidencePolicy} from '@/lib/confidence';
 
 const AnalyzeFoodItemInputSchema = z.object({
   photoDataUri: z
@@ -19,22 +53,80 @@ const AnalyzeFoodItemInputSchema = z.object({
     .describe(
       "A photo of a food item, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
+  confidencePolicy: z
+    .object({
+      samples: z.number().optional().describe('How many times to read the photo, including the main analysis.'),
+      thresholds: z.object({
+        identification: z.number().optional(),
+        edibility: z.number().optional(),
+      }).optional().describe('The share of readings (0-1) that must agree before a value is shown.'),
+    })
+    .optional()
+    .describe('Overrides for the default confidence policy.'),
 });
 export type AnalyzeFoodItemInput = z.infer<typeof AnalyzeFoodItemInputSchema>;
 
-const ChemicalResidueSchema = z.object({
-  name: z.string().describe('The specific name of the identified chemical residue. Be as detailed as possible, including common chemical formulas if appropriate (e.g., "Calcium Carbonate (CaCO3)", "Chlorpyrifos (Organophosphate Pesticide)").'),
-  estimatedPercentage: z.number().optional().describe('An estimated percentage (numeric value, e.g., 0.05 for 0.05%) of this residue on the item. If present but in trace amounts, estimate a small non-zero value (e.g., 0.01). Only use 0 if you believe it is absolutely not present or below any detectable limit for visual/contextual estimation.'),
-  hazardousEffects: z.string().optional().describe('Potential hazardous effects if this residue is consumed in significant quantities or by sensitive individuals. If known, also include context for its presence (e.g., "Used as a pesticide on non-organic apples", "Preservative to extend shelf life").'),
+// Gemini locates objects most reliably in its native [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+const ModelBoundingBoxSchema = z.object({
+  yMin: z.number().describe('Top edge of the item, 0-1000 from the top of the image.'),
+  xMin: z.number().describe('Left edge of the item, 0-1000 from the left of the image.'),
+  yMax: z.number().describe('Bottom edge of the item, 0-1000 from the top of the image.'),
+  xMax: z.number().describe('Right edge of the item, 0-1000 from the left of the image.'),
 });
 
-const AnalyzeFoodItemOutputSchema = z.object({
+const BoundingBoxSchema = z.object({
+  x: z.number().describe('Left edge as a fraction (0-1) of the image width.'),
+  y: z.number().describe('Top edge as a fraction (0-1) of the image height.'),
+  width: z.number().describe('Width as a fraction (0-1) of the image width.'),
+  height: z.number().describe('Height as a fraction (0-1) of the image height.'),
+});
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+
+const FreshnessDefectSchema = z.object({
+  kind: z.enum(['mold', 'bruising', 'discoloration', 'soft-spot', 'wilting', 'sliminess', 'insect-damage', 'other']),
+  severity: z.enum(['minor', 'moderate', 'severe']).describe("'minor' can be cut away or ignored, 'moderate' affects a noticeable part, 'severe' makes the item unfit to eat."),
+  description: z.string().describe('What the defect looks like and where it is, e.g. "Fuzzy white mold on the stem end".'),
+});
+
+const ShelfLifeSchema = z.object({
+  roomTemperatureDays: z.number().optional().describe('Estimated days the item stays good to eat at room temperature from now. 0 if it should be eaten today.'),
+  refrigeratedDays: z.number().optional().describe('Estimated days the item stays good to eat in a fridge from now. Leave empty if it should not be refrigerated.'),
+  storageTip: z.string().optional().describe('One short tip on how to store it, e.g. "Keep bananas out of the fridge until ripe".'),
+});
+
+// The model places defects on the same 0-1000 grid as items; the flow converts them like item boxes.
+const ModelFreshnessSchema = z.object({
+  ripeness: z.enum(['unripe', 'ripe', 'overripe', 'not-applicable']).optional().describe("Ripeness stage of fresh produce; 'not-applicable' for cooked or packaged food."),
+  condition: z.enum(['fresh', 'aging', 'spoiled']).optional().describe("Overall state: 'fresh', 'aging' (still fine but past its best), or 'spoiled'."),
+  defects: z.array(FreshnessDefectSchema.extend({
+    region: ModelBoundingBoxSchema.optional().describe('Where the defect is in the photo.'),
+  })).optional().describe('Every visible sign of spoilage or damage. Empty if there is none.'),
+  shelfLife: ShelfLifeSchema.optional(),
+});
+
+const FreshnessAssessmentSchema = ModelFreshnessSchema.extend({
+  defects: z.array(FreshnessDefectSchema.extend({
+    region: BoundingBoxSchema.optional().describe('Where the defect is in the photo.'),
+  })).optional(),
+});
+export type FreshnessAssessment = z.infer<typeof FreshnessAssessmentSchema>;
+export type FreshnessDefect = NonNullable<FreshnessAssessment['defects']>[number];
+
+const PortionEstimateSchema = z.object({
+  count: z.number().optional().describe('How many pieces of the item are visible, e.g. 3 for three bananas. 1 for a single serving of something uncountable like rice.'),
+  unit: z.string().optional().describe('What one piece is, e.g. "banana", "slice", "bowl".'),
+  estimatedWeightGrams: z.number().optional().describe('Approximate total edible weight of all visible pieces together, in grams.'),
+  referenceObject: z.string().optional().describe('The object of known size used to judge scale, e.g. "credit card" or "₹10 coin". Leave empty when there was none in frame.'),
+  reasoning: z.string().optional().describe('One sentence on how the weight was judged.'),
+});
+export type PortionEstimate = z.infer<typeof PortionEstimateSchema>;
+
+const FoodItemAnalysisSchema = z.object({
   identification: z.object({
-    isFoodItem: z.boolean().describe('Whether the AI identifies the subject of the image as a food item.'),
-    itemType: z.string().optional().describe('The type of food item (fruit, vegetable, processed food, etc.). Only if isFoodItem is true.'),
-    name: z.string().optional().describe('If isFoodItem is true, the name of the identified food item. If false, a message like "Non-food item detected".'),
-    confidence: z.number().optional().describe('The confidence level of the food identification (0-1). Only if isFoodItem is true.'),
-    dominantColors: z.array(z.string()).optional().describe('An array of dominant colors observed in the item. Only if isFoodItem is true and colors are identifiable.'),
+    itemType: z.string().optional().describe('The type of food item (fruit, vegetable, processed food, etc.).'),
+    name: z.string().optional().describe('The name of the identified food item.'),
+    confidence: z.number().optional().describe('The confidence level of the food identification (0-1). The flow replaces it with the share of readings that agree.'),
+    dominantColors: z.array(z.string()).optional().describe('An array of dominant colors observed in the item, if identifiable.'),
     isOrganic: z.boolean().optional().describe(
       "An estimation of whether the food item is organic. Set to `true` ONLY if clear, unambiguous organic labeling (e.g., a 'USDA Organic' seal) is visible in the image. Otherwise, this MUST be `false`."
     ),
@@ -51,79 +143,99 @@ const AnalyzeFoodItemOutputSchema = z.object({
   chemicalResidues: z
     .array(ChemicalResidueSchema)
     .optional()
-    .describe('A list of potential chemical residues. If the item is determined to be non-organic or its organic status is unclear, provide a more detailed list of chemicals commonly associated with conventional farming/processing for this item. For each, include specific name (with formula if common), estimated percentage, and detailed hazardous effects/context. Only if isFoodItem is true and residues are identified.'),
+    .describe('Pesticide residues commonly found on this crop, from the residue reference database.'),
   edibility: z
     .enum(['Safe to Eat', 'Wash & Eat', 'Unsafe'])
     .optional()
-    .describe('The edibility status of the food item. Only if isFoodItem is true.'),
+    .describe('The edibility status of the food item.'),
+  edibilityReasoning: z.array(z.string()).optional().describe('Short reasons for the edibility status, most important first.'),
+  freshness: FreshnessAssessmentSchema.optional().describe('Ripeness, visible spoilage and how long the item will keep.'),
+  portion: PortionEstimateSchema.optional().describe('How much of the item is in the photo.'),
+  provenance: FoodItemProvenanceSchema.partial().optional().describe('Where each part of this analysis came from.'),
+});
+export type FoodItemAnalysis = z.infer<typeof FoodItemAnalysisSchema>;
+
+// What the model provides for an item; residues and freshness regions are converted separately.
+const FoodItemEstimateSchema = FoodItemAnalysisSchema.omit({chemicalResidues: true, freshness: true});
+type FoodItemEstimate = z.infer<typeof FoodItemEstimateSchema>;
+
+const ModelOutputSchema = z.object({
+  isFoodItem: z.boolean().describe('Whether the photo shows at least one food item.'),
+  photoIssues: z.array(PhotoIssueSchema).optional().describe('Everything about the photo that makes the food hard to see. Empty if the photo is clear.'),
+  nonFoodDescription: z.string().optional().describe('If isFoodItem is false, a short description of what the photo shows instead, e.g. "Electronic component detected".'),
+  items: z
+    .array(FoodItemEstimateSchema.extend({
+      boundingBox: ModelBoundingBoxSchema.optional().describe('Where this item is in the photo.'),
+      crop: z.string().optional().describe("The id of the matching crop from the crop list, or 'none'."),
+      freshness: ModelFreshnessSchema.optional().describe('Ripeness, visible spoilage and how long the item will keep.'),
+    }))
+    .describe('Every distinct food item in the photo, most prominent first. Empty if isFoodItem is false.'),
+});
+
+// A quick, independent reading of the photo used only to check agreement with the main analysis.
+const ReadingSchema = z.object({
+  isFoodItem: z.boolean(),
+  photoIssues: z.array(PhotoIssueSchema).optional(),
+  items: z.array(z.object({
+    name: z.string().describe('The common name of the food.'),
+    edibility: FoodItemAnalysisSchema.shape.edibility,
+    boundingBox: ModelBoundingBoxSchema.optional(),
+  })),
+});
+
+const DetectedFoodItemSchema = FoodItemAnalysisSchema.extend({
+  boundingBox: BoundingBoxSchema.optional().describe('Where this item is in the photo. Missing when the model could not place it.'),
+  // Optional only because scans saved before provenance was recorded lack it.
+  provenance: FoodItemProvenanceSchema.optional(),
+  residueCrop: z.string().optional().describe('The residue database crop the residues were looked up for.'),
+  composition: FoodCompositionSchema.optional().describe('The food composition table entry the item matched, with its nutrients per 100 g.'),
+  confidenceDetails: FieldConfidenceSchema.optional().describe('The sample agreement behind the identification and edibility.'),
+});
+export type DetectedFoodItem = z.infer<typeof DetectedFoodItemSchema>;
+
+const AnalyzeFoodItemOutputSchema = z.object({
+  isFoodItem: z.boolean().describe('Whether the photo shows at least one food item.'),
+  nonFoodDescription: z.string().optional().describe('What the photo shows instead, when it is not food or could not be analyzed.'),
+  items: z.array(DetectedFoodItemSchema).describe('Every food item detected in the photo, most prominent first.'),
+  // Only on scans saved before the confidence policy replaced the simulateResults tool.
+  simulationUsed: z.boolean().optional().describe('Whether the simulateResults tool was called while analyzing the photo.'),
+  residueDatabaseVersion: z.string().optional().describe('Version of the residue database the residues were taken from.'),
+  compositionTableVersion: z.string().optional().describe('Version of the food composition table the components were taken from.'),
+  needsBetterPhoto: NeedsBetterPhotoSchema.optional().describe('Set instead of items when food was seen but no item could be identified confidently.'),
+  omittedItemCount: z.number().optional().describe('Items left out because they could not be identified confidently.'),
 });
 export type AnalyzeFoodItemOutput = z.infer<typeof AnalyzeFoodItemOutputSchema>;
 
-const simulateResultsTool = ai.defineTool({
-  name: 'simulateResults',
-  description: 'Simulates the analysis of a FOOD ITEM when the AI is uncertain or analysis fails to provide a confident, specific, and visually-grounded direct assessment for that food item. This tool should only be used if the item is confirmed to be food.',
-  inputSchema: z.object({
-    itemType: z.string().describe('The type of food item (fruit, vegetable, etc.) to simulate.'),
-    assumedOrganic: z.boolean().optional().describe('Set to true if simulating an organic item based on seeing an organic label but failing to analyze further. Otherwise, set to false.')
-  }),
-  outputSchema: AnalyzeFoodItemOutputSchema,
-},
-async (input) => {
-  const isSimulatedOrganic = input.assumedOrganic === true;
-  let simulatedResidues: z.infer<typeof ChemicalResidueSchema>[] = [];
-
-  if (isSimulatedOrganic) {
-    simulatedResidues = [
-      { name: 'Natural Waxes (e.g., Carnauba from organic sources, C24H48O2)', hazardousEffects: 'Generally recognized as safe (GRAS) for consumption, common on organic produce for protection. This is a simulated residue for an assumed organic item.', estimatedPercentage: 0.001 },
-      { name: 'Kaolin Clay (trace mineral, Al2Si2O5(OH)4)', estimatedPercentage: 0.005, hazardousEffects: 'Natural mineral, sometimes used in organic farming for pest control. Harmless in trace amounts. Simulated context.'}
-    ];
-  } else { // Simulate non-organic
-    simulatedResidues = [
-      { name: 'Simulated Pesticide Alpha (e.g., Organophosphate type, C10H19O6PS2)', estimatedPercentage: 0.03, hazardousEffects: 'Synthetic pesticide. May cause mild irritation if not washed properly. Potential neurotoxic effects with prolonged high exposure. Commonly used on non-organic fruits to control insects. Wash item thoroughly. (Simulated data)' },
-      { name: 'Simulated Fungicide Beta (e.g., Triazole type, C15H17Cl2N3)', estimatedPercentage: 0.015, hazardousEffects: 'Synthetic fungicide to prevent spoilage. Potential for endocrine disruption with chronic exposure. Used on various crops. Wash item thoroughly. (Simulated data)' },
-      { name: 'Simulated Wax Coating (Petroleum-based derivative)', estimatedPercentage: 0.08, hazardousEffects: 'Commonly used on conventional produce to extend shelf life and improve appearance. Generally considered safe in small amounts but some prefer to avoid. Can be removed by scrubbing. (Simulated data)' }
-    ];
-  }
+const AnalysisStageSchema = z.enum(['identification', 'components', 'residues']);
+export type AnalysisStage = z.infer<typeof AnalysisStageSchema>;
 
-  return {
-    identification: {
-      isFoodItem: true, 
-      itemType: input.itemType,
-      name: `Simulated ${isSimulatedOrganic ? 'Organic' : 'Conventional'} ${input.itemType}`,
-      confidence: 0.55, // Slightly higher simulated confidence if tool is used.
-      dominantColors: ['simulated color 1', 'simulated color 2'],
-      isOrganic: isSimulatedOrganic, 
-      organicReasoning: isSimulatedOrganic ? "Simulated as organic because a label was likely detected but further analysis was inconclusive." : "Simulated as conventionally grown because no organic label was detected. This is a simulated assessment.",
-    },
-    components: {
-      waterPercentage: 80,
-      sugarPercentage: isSimulatedOrganic ? 7 : 5, 
-      fiberPercentage: 3,
-      vitaminsAndMinerals: `Vitamin C, Potassium (Simulated values based on ${input.itemType})`,
-    },
-    chemicalResidues: simulatedResidues,
-    edibility: 'Wash & Eat', 
-  };
+const AnalyzeFoodItemChunkSchema = z.object({
+  stage: AnalysisStageSchema.describe('The furthest part of the analysis any item has reached.'),
+  result: AnalyzeFoodItemOutputSchema.describe('The analysis so far. Its items have not been checked against the confidence policy yet.'),
 });
+export type AnalyzeFoodItemChunk = z.infer<typeof AnalyzeFoodItemChunkSchema>;
 
 export async function analyzeFoodItem(input: AnalyzeFoodItemInput): Promise<AnalyzeFoodItemOutput> {
   return analyzeFoodItemFlow(input);
 }
 
+const RESIDUE_CROP_LIST = RESIDUE_CROPS.map(crop => `'${crop.id}' (${crop.name})`).join(', ');
+
 const prompt = ai.definePrompt({
   name: 'analyzeFoodItemPrompt',
   input: {schema: AnalyzeFoodItemInputSchema},
-  output: {schema: AnalyzeFoodItemOutputSchema},
-  tools: [simulateResultsTool],
-  prompt: `You are an AI expert in food analysis. Your primary task is to determine if the item in the provided photo is a food item.
+  output: {schema: ModelOutputSchema},
+  prompt: `You are an AI expert in food analysis. Your primary task is to find every food item in the provided photo and analyze each one separately.
 
-1.  **Is it Food?**: First, analyze the image and determine if the subject is a food item.
-    *   If it is NOT a food item, set 'isFoodItem' to false. Set the 'name' field in 'identification' to "Non-food item detected" or a more specific description (e.g., "Electronic component detected", "Object identified as a tool"). You MUST leave other food-specific fields empty or undefined.
-    *   If it IS a food item, set 'isFoodItem' to true and proceed with the detailed analysis below. Ensure that the 'name' field contains the identified food name.
+1.  **Is it Food?**: First, analyze the image and determine if it shows any food.
+    *   If it does NOT, set 'isFoodItem' to false, leave 'items' empty, and set 'nonFoodDescription' to "Non-food item detected" or a more specific description (e.g., "Electronic component detected", "Object identified as a tool").
+    *   If it does, set 'isFoodItem' to true and add one entry to 'items' for every distinct food item you can see (e.g., each fruit in a fruit bowl, each dish on a thali), most prominent first. Several pieces of the same food lying together (a bunch of bananas, a pile of rice) are one item.
 
-2.  **Detailed Food Analysis (Only if isFoodItem is true)**:
+2.  **Location**: For each item, set 'boundingBox' to the smallest box enclosing it, with each edge between 0 and 1000 ('yMin' and 'yMax' from the top of the image, 'xMin' and 'xMax' from the left).
+
+3.  **Detailed Food Analysis (for each item)**:
     Strive for the most accurate and detailed analysis possible, grounding your observations in visual evidence from the image whenever feasible.
-    *   **Identification**: Determine the type of food (fruit, vegetable, grain, processed item, etc.) and its common name for the 'name' field. Assess your confidence level (0-1).
+    *   **Identification**: Determine the type of food (fruit, vegetable, grain, processed item, etc.) and its common name for the 'name' field. Assess your confidence level (0-1). If you cannot tell what an item is, give your best guess with a low confidence rather than a vague name; the app will ask the user for a better photo.
     *   **Organic Status Assessment (CRITICAL RULE)**:
         *   Your #1 priority for organic status is to **NEVER guess**. "Organic" is a certification, not just a visual quality.
         *   **Rule A**: Look for clear, legible, official organic labeling on packaging in the image (e.g., "USDA Organic", "Canada Organic", "EU Organic" logos).
@@ -131,63 +243,316 @@ const prompt = ai.definePrompt({
         *   **Rule B**: If there is NO visible, legible, official organic label, you MUST set \`isOrganic\` to \`false\`. Your \`organicReasoning\` MUST then be: "Organic status is undetermined from visual inspection alone as no official organic certification label was visible."
         *   **DO NOT** use visual cues like blemishes, color, or uniformity to guess the organic status. This is unreliable and you are instructed to avoid it.
     *   **Color Analysis**: List the dominant colors you observe in the 'dominantColors' array.
-    *   **Component Breakdown**: Estimate percentages for water, sugar, and fiber. List notable vitamins and minerals typically found in such an item.
-    *   **Chemical Residues**:
-        *   If \`isOrganic\` is \`false\` (because no label was seen), provide a list of potential chemical residues commonly associated with **conventionally-grown** versions of this specific food item.
-        *   For each residue, provide 'name', 'estimatedPercentage', and 'hazardousEffects'. Be specific.
-        *   If \`isOrganic\` is \`true\` (because a label was seen), the list of chemical residues should be much shorter, focusing only on naturally occurring compounds or GRAS (Generally Recognized As Safe) processing aids allowed in organic production.
-    *   **Edibility**: Recommend an edibility status: 'Safe to Eat', 'Wash & Eat', or 'Unsafe'.
+    *   **Component Breakdown**: Estimate percentages for water, sugar, and fiber. List notable vitamins and minerals typically found in such an item. (For common whole foods these are replaced by values from a food composition table, so give the item its plain common name, e.g. "Banana" rather than "Fruit".)
+    *   **Crop**: Do NOT list chemical residues yourself; they are looked up in a reference database. Instead set 'crop' to the id of the crop this item is (or is made directly from, e.g. 'wheat' for a wheat grain), chosen from this list: ${RESIDUE_CROP_LIST}. If the item is a cooked dish, a processed food, or none of these crops, set 'crop' to 'none'.
+    *   **Portion**: Count the pieces of the item in 'portion.count' and say what one piece is in 'portion.unit'. Estimate the total edible weight of all of them in grams in 'portion.estimatedWeightGrams'. If an object of known size is in frame, use it to judge scale and name it in 'portion.referenceObject': a bank or ID card is 85.6 x 54 mm, a US quarter 24.3 mm across, a 1 euro coin 23.3 mm, an Indian 10 rupee coin 27 mm, a 5 rupee coin 23 mm, an A4 sheet 210 x 297 mm. Otherwise judge from the typical size of the food and leave 'referenceObject' empty. Explain the estimate in one sentence in 'portion.reasoning'.
+    *   **Freshness**: In 'freshness', give the ripeness stage of fresh produce ('not-applicable' for cooked or packaged food) and the overall condition. List every visible sign of spoilage or damage (mold, bruising, discoloration, soft spots, wilting, sliminess, insect damage) in 'defects', each with its severity, a short description and a 'region' box on the same 0-1000 grid as 'boundingBox'. Leave 'defects' empty if you see none; never invent defects you cannot see. Estimate how many more days the item stays good to eat at room temperature and in a fridge, with one storage tip.
+    *   **Edibility**: Recommend an edibility status: 'Safe to Eat', 'Wash & Eat', or 'Unsafe', and list the reasons for it in 'edibilityReasoning', most important first (e.g. "No mold or bruising visible", "Raw produce should be washed to remove surface residues"). Any severe defect or a spoiled condition means 'Unsafe'.
+    *   **Provenance**: For each part of the analysis, record in 'provenance' where it came from: 'observed-in-image' only for what you can actually see in the photo (the item itself, its colours, a printed label), 'model-inferred' for estimates from general knowledge (component percentages, portion weight, shelf life, edibility). Never present an estimate as observed.
+
+4.  **Photo Quality**: List in 'photoIssues' everything about the photo that makes the food hard to see (too dark, too bright, blurry, item cropped, too far away, obstructed, cluttered). Leave it empty if the photo is clear.
 
-**Tool Usage**: If the item IS food, but you have low confidence in the identification itself (e.g., < 0.7) or cannot provide a specific analysis for components/residues, you may use the 'simulateResults' tool. When calling the tool, set 'assumedOrganic' based on whether you saw a label or not.
+Analyze the following photo:
+Photo: {{media url=photoDataUri}}
+  `,
+});
+
+const readingPrompt = ai.definePrompt({
+  name: 'readFoodItemsPrompt',
+  input: {schema: AnalyzeFoodItemInputSchema},
+  output: {schema: ReadingSchema},
+  // Independent readings only tell us something if they are allowed to differ.
+  config: {temperature: 1},
+  prompt: `You are an AI expert in food analysis. List every distinct food item in the photo, most prominent first. For each, give its common name, an edibility verdict ('Safe to Eat', 'Wash & Eat' or 'Unsafe'), and a 'boundingBox' with each edge between 0 and 1000 ('yMin' and 'yMax' from the top of the image, 'xMin' and 'xMax' from the left). If there is no food, set 'isFoodItem' to false and leave 'items' empty. List in 'photoIssues' anything that makes the food hard to see.
 
-Analyze the following item:
 Photo: {{media url=photoDataUri}}
   `,
 });
 
-const analyzeFoodItemFlow = ai.defineFlow(
+/** Converts the model's 0-1000 box to fractions of the image, or drops it if it does not describe an area. */
+function toBoundingBox(box: z.infer<typeof ModelBoundingBoxSchema> | undefined): BoundingBox | undefined {
+  if (!box) return undefined;
+  const clamp = (value: number) => Math.min(1, Math.max(0, value / 1000));
+  const [x1, x2] = [clamp(box.xMin), clamp(box.xMax)].sort((a, b) => a - b);
+  const [y1, y2] = [clamp(box.yMin), clamp(box.yMax)].sort((a, b) => a - b);
+  if (x2 - x1 <= 0 || y2 - y1 <= 0) return undefined;
+  return {x: x1, y: y1, width: x2 - x1, height: y2 - y1};
+}
+
+type ModelFoodItem = z.infer<typeof ModelOutputSchema>['items'][number];
+
+/**
+ * Fills in provenance the model left out. Only the flow looks values up in
+ * reference data, and nothing is simulated any more, so the model cannot
+ * claim either.
+ */
+function resolveProvenance(item: Pick<ModelFoodItem, 'provenance' | 'portion' | 'freshness'>): FoodItemProvenance {
+  const resolve = (field: keyof FoodItemProvenance): Provenance => {
+    const claimed = item.provenance?.[field];
+    return !claimed || claimed === 'simulated' || claimed === 'reference-database' ? 'model-inferred' : claimed;
+  };
+  return {
+    identification: resolve('identification'),
+    dominantColors: resolve('dominantColors'),
+    organicStatus: resolve('organicStatus'),
+    components: resolve('components'),
+    edibility: resolve('edibility'),
+    portion: item.portion ? resolve('portion') : undefined,
+    freshness: item.freshness ? resolve('freshness') : undefined,
+  };
+}
+
+/** Converts the model's defect regions like item boxes and drops negative shelf lives. */
+function toFreshness(freshness: z.infer<typeof ModelFreshnessSchema> | undefined): FreshnessAssessment | undefined {
+  if (!freshness) return undefined;
+  const days = (value: number | undefined) => (value !== undefined && value >= 0 ? Math.round(value) : undefined);
+  return {
+    ...freshness,
+    defects: freshness.defects?.map(({region, ...defect}) => ({...defect, region: toBoundingBox(region)})),
+    shelfLife: freshness.shelfLife && {
+      ...freshness.shelfLife,
+      roomTemperatureDays: days(freshness.shelfLife.roomTemperatureDays),
+      refrigeratedDays: days(freshness.shelfLife.refrigeratedDays),
+    },
+  };
+}
+
+/**
+ * Makes the verdict agree with the freshness findings: a spoiled item or a
+ * severe defect is always 'Unsafe', whatever verdict the model gave.
+ */
+function reconcileEdibility(item: DetectedFoodItem): DetectedFoodItem {
+  const severe = item.freshness?.defects?.filter(defect => defect.severity === 'severe') ?? [];
+  const spoiled = item.freshness?.condition === 'spoiled';
+  if (item.edibility === 'Unsafe' || (!spoiled && severe.length === 0)) return item;
+  const reason = severe.length > 0
+    ? `Marked Unsafe because of a severe defect: ${severe[0].description}`
+    : 'Marked Unsafe because the item looks spoiled';
+  return {
+    ...item,
+    edibility: 'Unsafe',
+    edibilityReasoning: [reason, ...(item.edibilityReasoning ?? [])],
+    provenance: item.provenance && {...item.provenance, edibility: 'observed-in-image'},
+  };
+}
+
+/** Drops counts and weights that cannot be right, so the UI never scales by zero or a negative weight. */
+function toPortion(portion: PortionEstimate | undefined): PortionEstimate | undefined {
+  if (!portion) return undefined;
+  const count = portion.count !== undefined && portion.count >= 1 ? Math.round(portion.count) : undefined;
+  const estimatedWeightGrams = portion.estimatedWeightGrams !== undefined && portion.estimatedWeightGrams > 0 ? Math.round(portion.estimatedWeightGrams) : undefined;
+  if (count === undefined && estimatedWeightGrams === undefined) return undefined;
+  return {...portion, count, estimatedWeightGrams, referenceObject: portion.referenceObject?.trim() || undefined};
+}
+
+/**
+ * Residues from the reference database for the crop the model chose. Organic
+ * items get none: the database describes conventionally grown produce.
+ */
+function lookUpResidues(cropId: string | undefined, isOrganic: boolean | undefined): Pick<DetectedFoodItem, 'chemicalResidues' | 'residueCrop'> {
+  const crop = findCrop(cropId);
+  if (!crop || isOrganic) return {chemicalResidues: [], residueCrop: crop?.name};
+  return {chemicalResidues: residuesForCrop(crop.id), residueCrop: crop.name};
+}
+
+/** Prefers the food composition table over the model's component estimates. */
+function applyComposition(item: DetectedFoodItem): DetectedFoodItem {
+  const composition = findFoodComposition(item.identification.name);
+  if (!composition) return item;
+  return {
+    ...item,
+    components: componentsFromComposition(composition.per100g),
+    composition,
+    provenance: item.provenance && {...item.provenance, components: 'reference-database'},
+  };
+}
+
+/**
+ * Replaces the model's confidence with the readings' agreement and withholds
+ * an edibility verdict the readings did not agree on. Without extra readings
+ * the model's own confidence stands.
+ */
+function applyConfidence(item: DetectedFoodItem, agreement: Agreement | undefined, policy: ConfidencePolicy): DetectedFoodItem {
+  if (!agreement) return item;
+  const verdictAgreed = agreement.edibility >= policy.thresholds.edibility;
+  return {
+    ...item,
+    identification: {...item.identification, confidence: agreement.identification},
+    confidenceDetails: {
+      samples: agreement.samples,
+      identification: agreement.identification,
+      edibility: agreement.edibility,
+      modelConfidence: item.identification.confidence,
+    },
+    ...(verdictAgreed ? {} : {
+      edibility: undefined,
+      edibilityReasoning: [
+        'Readings of the photo disagreed on whether this is safe to eat, so no verdict is given. Check it yourself before eating.',
+        ...(item.edibilityReasoning ?? []),
+      ],
+    }),
+  };
+}
+
+/**
+ * Drops the last value of a partially generated response, the only one that
+ * may still be cut off ("Ban" on the way to "Banana", 0.9 on the way to 0.95).
+ */
+function withoutUnfinishedValue(value: unknown): unknown {
+  const isContainer = (entry: unknown) => typeof entry === 'object' && entry !== null;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return value;
+    const last = value[value.length - 1];
+    return isContainer(last) ? [...value.slice(0, -1), withoutUnfinishedValue(last)] : value.slice(0, -1);
+  }
+  if (isContainer(value)) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return value;
+    const [key, last] = entries[entries.length - 1];
+    return isContainer(last) ? {...value as object, [key]: withoutUnfinishedValue(last)} : Object.fromEntries(entries.slice(0, -1));
+  }
+  return value;
+}
+
+const ModelFoodItemSchema = ModelOutputSchema.shape.items.element;
+
+/** The fields of a partially generated item that are complete and valid so far. */
+function completedFields(item: unknown): Partial<ModelFoodItem> {
+  const fields: Record<string, unknown> = {};
+  if (typeof item !== 'object' || item === null) return fields;
+  for (const [key, schema] of Object.entries(ModelFoodItemSchema.shape)) {
+    const parsed = (schema as z.ZodTypeAny).safeParse((item as Record<string, unknown>)[key]);
+    if (parsed.success && parsed.data !== undefined) fields[key] = parsed.data;
+  }
+  return fields as Partial<ModelFoodItem>;
+}
+
+/**
+ * Turns a partial response into draft items, with reference data applied as
+ * soon as the fields it depends on are known. Items without a name yet are
+ * left out.
+ */
+function toDraftItems(partial: unknown): DetectedFoodItem[] {
+  const items = (withoutUnfinishedValue(partial) as {items?: unknown[]} | null)?.items ?? [];
+  return items.map(completedFields).flatMap(({identification, boundingBox, crop, ...item}) => {
+    if (!identification?.name) return [];
+    return [reconcileEdibility(applyComposition({
+      ...item,
+      ...(crop !== undefined ? lookUpResidues(crop, identification.isOrganic) : {}),
+      provenance: resolveProvenance(item),
+      identification,
+      boundingBox: toBoundingBox(boundingBox),
+      portion: toPortion(item.portion),
+      freshness: toFreshness(item.freshness),
+    }))];
+  });
+}
+
+function stageOf(items: DetectedFoodItem[]): AnalysisStage {
+  if (items.some(item => item.chemicalResidues !== undefined)) return 'residues';
+  if (items.some(item => item.components !== undefined)) return 'components';
+  return 'identification';
+}
+
+export const analyzeFoodItemFlow = ai.defineFlow(
   {
     name: 'analyzeFoodItemFlow',
     inputSchema: AnalyzeFoodItemInputSchema,
     outputSchema: AnalyzeFoodItemOutputSchema,
+    streamSchema: AnalyzeFoodItemChunkSchema,
   },
-  async (flowInput) => {
+  async (flowInput, {sendChunk}) => {
     try {
-      const {output} = await prompt(flowInput);
+      const policy = resolveConfidencePolicy(flowInput.confidencePolicy);
+      const photo = {photoDataUri: flowInput.photoDataUri};
+      const main = prompt.stream(photo);
+      // Only send a chunk when a field has completed, not for every token.
+      const streamDrafts = async () => {
+        let lastSent = '';
+        for await (const chunk of main.stream) {
+          const items = toDraftItems(chunk.output);
+          const serialized = JSON.stringify(items);
+          if (items.length === 0 || serialized === lastSent) continue;
+          lastSent = serialized;
+          sendChunk({
+            stage: stageOf(items),
+            result: {isFoodItem: true, items, residueDatabaseVersion: RESIDUE_DATABASE_VERSION, compositionTableVersion: COMPOSITION_TABLE_VERSION},
+          });
+        }
+      };
+      // A failed extra reading only lowers the sample count; it must not fail the scan.
+      const [response, , ...samples] = await Promise.all([
+        main.response,
+        streamDrafts(),
+        ...Array.from({length: policy.samples - 1}, () => readingPrompt(photo).then(reading => reading.output, () => null)),
+      ]);
+      const {output} = response;
       if (!output) {
         console.warn('AI prompt returned no output. This is unexpected.');
         // Fallback to a default non-food response if AI returns nothing.
         return {
-          identification: {
-            isFoodItem: false,
-            name: 'Analysis incomplete. The AI could not process the image.',
-          }
+          isFoodItem: false,
+          nonFoodDescription: 'Analysis incomplete. The AI could not process the image.',
+          items: [],
         };
       }
 
-      // If the AI determines it's not a food item, return that assessment.
-      if (output.identification.isFoodItem === false) {
-        console.log('AI determined item is not food, or analysis returned non-food structure.');
+      // If the AI determines the photo shows no food, return that assessment.
+      if (output.isFoodItem === false || output.items.length === 0) {
+        console.log('AI determined the photo shows no food, or analysis returned no items.');
         return {
-          identification: {
-            isFoodItem: false,
-            name: output.identification.name || "Non-food item detected or analysis error",
-          },
+          isFoodItem: false,
+          nonFoodDescription: output.nonFoodDescription || "Non-food item detected or analysis error",
+          items: [],
+        };
+      }
+
+      const readings = samples.filter(reading => reading !== null);
+      const readingItems = readings.map(reading =>
+        reading.items.map(item => ({name: item.name, edibility: item.edibility, boundingBox: toBoundingBox(item.boundingBox)}))
+      );
+      const scored = output.items.map(item => ({
+        item,
+        agreement: measureAgreement(
+          {name: item.identification.name, edibility: item.edibility, boundingBox: toBoundingBox(item.boundingBox)},
+          readingItems
+        ),
+      }));
+      const confident = scored.filter(({item, agreement}) =>
+        (agreement?.identification ?? item.identification.confidence ?? 0) >= policy.thresholds.identification
+      );
+
+      if (confident.length === 0) {
+        const issues = [...new Set([...(output.photoIssues ?? []), ...readings.flatMap(reading => reading.photoIssues ?? [])])];
+        const candidates = scored.flatMap(({item, agreement}) => agreement?.candidates ?? [item.identification.name ?? '']);
+        console.log('No item cleared the identification threshold; asking for a better photo.');
+        return {
+          isFoodItem: true,
+          items: [],
+          needsBetterPhoto: {issues, guidance: retakeGuidance(issues), candidates: [...new Set(candidates.filter(Boolean))]},
         };
       }
 
-      // At this point, output.identification.isFoodItem should be true.
-      // This output could be a direct analysis or from the simulateResultsTool.
       // Ensure critical fields are present and correctly typed.
       return {
-        ...output,
-        identification: {
-          ...output.identification,
-          isFoodItem: true, // Ensure this is true
-          name: output.identification.name || "Unnamed Food Item", // Ensure name is present
-          isOrganic: output.identification.isOrganic ?? false, // Default to false if undefined
-          organicReasoning: output.identification.organicReasoning || "Organic status could not be determined from visual inspection.",
-        },
+        isFoodItem: true,
+        residueDatabaseVersion: RESIDUE_DATABASE_VERSION,
+        compositionTableVersion: COMPOSITION_TABLE_VERSION,
+        omittedItemCount: scored.length - confident.length || undefined,
+        items: confident.map(({item: {boundingBox, crop, ...item}, agreement}) => reconcileEdibility(applyComposition(applyConfidence({
+          ...item,
+          ...lookUpResidues(crop, item.identification.isOrganic),
+          provenance: resolveProvenance(item),
+          identification: {
+            ...item.identification,
+            name: item.identification.name || "Unnamed Food Item", // Ensure name is present
+            isOrganic: item.identification.isOrganic ?? false, // Default to false if undefined
+            organicReasoning: item.identification.organicReasoning || "Organic status could not be determined from visual inspection.",
+          },
+          boundingBox: toBoundingBox(boundingBox),
+          portion: toPortion(item.portion),
+          freshness: toFreshness(item.freshness),
+        }, agreement, policy)))),
       };
 
     } catch (error) {
@@ -196,12 +561,10 @@ const analyzeFoodItemFlow = ai.defineFlow(
       console.warn(`Falling back to a default non-food response due to an error: ${errorMessage}`);
       // In case of a catastrophic error in the prompt call, return a clear non-food error state.
       return {
-        identification: {
-          isFoodItem: false,
-          name: 'Analysis failed due to a system error.',
-        }
+        isFoodItem: false,
+        nonFoodDescription: 'Analysis failed due to a system error.',
+        items: [],
       };
     }
   }
 );
-
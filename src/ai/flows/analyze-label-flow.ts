@@ -0,0 +1,151 @@
+'use server';
+/**
+ * @fileOverview An AI agent for reading a photographed ingredients panel and
+ * nutrition table, for loose and local products that have no barcode or are
+ * missing from the product databases.
+ *
+ * - analyzeLabel - Reads the label and analyzes it like a barcode product.
+ * - AnalyzeLabelInput - The input type for the analyzeLabel function.
+ *
+ * The model only transcribes: the ingredients text goes through the same
+ * parser, additive database and concern analysis as a barcode lookup, and the
+ * result has the same shape (AnalyzeBarcodeOutput).
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {NutrimentsSchema, type NutrientValues, type Nutriments} from '@/ai/schemas/nutrition';
+import {ProductAnalysisSchema, type ProductAnalysis} from '@/ai/schemas/product';
+import {emphasizedAllergens, parseIngredients} from '@/lib/ingredients';
+import {assessProductIngredients} from '@/ai/flows/assess-product-ingredients';
+import type {AnalyzeBarcodeOutput} from '@/ai/flows/analyze-barcode-flow';
+
+const AnalyzeLabelInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "A photo of a product label, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+});
+export type AnalyzeLabelInput = z.infer<typeof AnalyzeLabelInputSchema>;
+
+const LabelReadingSchema = z.object({
+  isLabel: z.boolean().describe('Whether the photo shows a food label with an ingredients list or a nutrition table.'),
+  productName: z.string().optional().describe('The product name, if printed on the visible part of the label.'),
+  brand: z.string().optional().describe('The brand or manufacturer, if printed on the visible part of the label.'),
+  ingredientsText: z.string().optional().describe('The ingredients declaration transcribed exactly as printed.'),
+  nutriments: NutrimentsSchema.optional().describe('The nutrition table, in grams and kilocalories or kilojoules as printed.'),
+  unreadableParts: ProductAnalysisSchema.shape.unreadableParts,
+});
+
+const LABEL_SOURCE = 'Label photo';
+const KJ_PER_KCAL = 4.184;
+
+export async function analyzeLabel(input: AnalyzeLabelInput): Promise<AnalyzeBarcodeOutput> {
+  return analyzeLabelFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'readProductLabelPrompt',
+  input: {schema: AnalyzeLabelInputSchema},
+  output: {schema: LabelReadingSchema},
+  // A transcription should be as literal as possible.
+  config: {temperature: 0},
+  prompt: `You are transcribing the label of a packaged or loose food product from a photo. Do not analyze or judge the product; only copy what is printed.
+
+1.  If the photo shows no ingredients list and no nutrition table, set 'isLabel' to false and leave everything else empty.
+2.  Copy the product name and brand if they are printed on the visible part of the label. Never guess them.
+3.  In 'ingredientsText', transcribe the ingredients declaration exactly as printed, in its original order, keeping brackets, percentages and additive codes (E-numbers or INS numbers). Include any "Contains:" and "May contain" allergen statements that follow it. Wrap every word the label prints in bold or capitals to mark an allergen in underscores, like _milk_. If the label is in several languages, use the English text when there is one. Leave out words you cannot read rather than guessing them.
+4.  In 'nutriments', copy the nutrition table: 'per100g' for the per 100 g (or 100 ml) column and 'perServing' for the per serving column, with the serving size in 'servingSize'. Give masses in grams, converting milligrams (sodium is often printed in mg: 400 mg is 0.4). Copy energy in kcal and kJ as printed; leave out a unit the label does not give.
+5.  In 'unreadableParts', list each part of the label you could not read fully and why, e.g. "Nutrition table (glare)" or "End of ingredients list (cut off)".
+
+Photo: {{media url=photoDataUri}}
+  `,
+});
+
+/** Drops impossible values and fills in what follows from the rest, like the Open Food Facts provider does. */
+function completeNutrientValues(values: NutrientValues | undefined): NutrientValues | undefined {
+  if (!values) return undefined;
+  const complete = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => typeof value === 'number' && Number.isFinite(value) && value >= 0)
+  ) as NutrientValues;
+  if (complete.energyKcal === undefined && complete.energyKj !== undefined) complete.energyKcal = Math.round(complete.energyKj / KJ_PER_KCAL);
+  if (complete.energyKj === undefined && complete.energyKcal !== undefined) complete.energyKj = Math.round(complete.energyKcal * KJ_PER_KCAL);
+  if (complete.salt === undefined && complete.sodium !== undefined) complete.salt = complete.sodium * 2.5;
+  return Object.keys(complete).length > 0 ? complete : undefined;
+}
+
+function toNutriments(nutriments: Nutriments | undefined): Nutriments | undefined {
+  if (!nutriments) return undefined;
+  const complete = {
+    per100g: completeNutrientValues(nutriments.per100g),
+    perServing: completeNutrientValues(nutriments.perServing),
+    servingSize: nutriments.servingSize?.trim() || undefined,
+  };
+  return complete.per100g || complete.perServing ? complete : undefined;
+}
+
+const analyzeLabelFlow = ai.defineFlow(
+  {
+    name: 'analyzeLabelFlow',
+    inputSchema: AnalyzeLabelInputSchema,
+    outputSchema: ProductAnalysisSchema,
+  },
+  async (flowInput): Promise<ProductAnalysis> => {
+    // Step 1: Transcribe the label.
+    let reading: z.infer<typeof LabelReadingSchema> | null;
+    try {
+      reading = (await prompt(flowInput)).output;
+    } catch (e) {
+      console.error('Error during AI prompt call for label reading:', e);
+      return {
+        isFound: false,
+        productName: 'Label could not be read',
+        overallAssessment: 'An error occurred while reading the label. Please try again.',
+        source: LABEL_SOURCE,
+      };
+    }
+
+    if (!reading || !reading.isLabel) {
+      return {
+        isFound: false,
+        productName: 'No label found',
+        overallAssessment: 'No ingredients list or nutrition table could be found in this photo. Photograph the label straight on so it fills the frame.',
+        source: LABEL_SOURCE,
+        unreadableParts: reading?.unreadableParts,
+      };
+    }
+
+    // Step 2: Parse the transcription exactly like a barcode product's ingredients text.
+    const ingredientsString = reading.ingredientsText?.trim() || '';
+    const parsed = parseIngredients(ingredientsString);
+    // Fallback: If parsing yields nothing but a string exists, keep the whole string as one ingredient.
+    const ingredients = parsed.ingredients.length > 0 || !ingredientsString
+      ? parsed.ingredients
+      : [{ name: ingredientsString }];
+    // A label has no separate allergen list, so the allergens are those it emphasizes and its "Contains: ..." statement.
+    const productInfo: ProductAnalysis = {
+      isFound: true,
+      productName: reading.productName?.trim() || 'Unnamed product',
+      brand: reading.brand?.trim() || undefined,
+      ingredients,
+      ingredientsText: ingredientsString || undefined,
+      mayContain: parsed.mayContain,
+      allergens: [...new Set([...emphasizedAllergens(parsed.ingredients), ...parsed.contains])],
+      nutriments: toNutriments(reading.nutriments),
+      source: LABEL_SOURCE,
+      unreadableParts: reading.unreadableParts?.length ? reading.unreadableParts : undefined,
+    };
+
+    // Step 3: Without ingredients there is nothing to analyze; the nutrition table is still worth showing.
+    if (ingredients.length === 0) {
+      return {
+        ...productInfo,
+        overallAssessment: 'The ingredients list could not be read from this photo, so ingredient analysis cannot be performed. Photograph the ingredients panel on its own for a full analysis.',
+      };
+    }
+
+    // Step 4: Match additives against the database and ask the AI for commentary on the rest.
+    return assessProductIngredients({...productInfo, ingredients});
+  }
+);
@@ -0,0 +1,116 @@
+/**
+ * @fileOverview The ingredient analysis shared by every packaged-product
+ * flow: additive findings from the additive database, then supplementary AI
+ * commentary on the rest of the ingredients.
+ *
+ * - assessProductIngredients - Adds additives, concerns and an overall assessment to a product.
+ *
+ * Not a server action module: it is only called by the barcode and label flows.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {getLookupCache, ingredientListCacheKey} from '@/lib/cache';
+import {ProductAnalysisSchema, type ProductAnalysis} from '@/ai/schemas/product';
+import {ProductConcernSchema, type AdditiveFinding, type ProductConcern} from '@/ai/schemas/additives';
+import {ADDITIVE_DATABASE_VERSION, concernsFromAdditives, findAdditives} from '@/lib/additives';
+import {flattenIngredients, formatIngredient} from '@/lib/ingredients';
+
+const prompt = ai.definePrompt({
+  name: 'analyzeBarcodeIngredientsPrompt',
+  input: { schema: z.object({
+    ingredients: z.array(z.string()),
+    knownAdditives: z.array(z.string()).describe('Additives already assessed by the additive database, as "Name (E-number)".'),
+  }) },
+  output: { schema: z.object({
+    potentialConcerns: z.array(z.object({
+      concern: ProductConcernSchema.shape.concern,
+      details: ProductConcernSchema.shape.details,
+    })).optional(),
+    overallAssessment: ProductAnalysisSchema.shape.overallAssessment
+  })},
+  tools: [],
+  prompt: `You are an AI assistant specialized in analyzing packaged food items based on their ingredients list.
+
+You have been provided with a list of ingredients in label order. Compound ingredients list their sub-ingredients in parentheses, and declared percentages are included where the label gives them.
+Ingredients: 
+{{#each ingredients}}- {{{this}}}\n{{/each}}
+
+The following additives have already been assessed by a curated additive database. Do NOT list them as concerns again:
+{{#each knownAdditives}}- {{{this}}}\n{{/each}}
+
+Based ONLY on this ingredients list:
+1.  Identify any other potential concerns, such as ingredient order suggesting high sugar, salt or refined oil content, or unlisted additive types. For each concern, provide a brief 'concern' title and optional 'details'.
+    Examples of concerns: "High Sugar Content", "Sweetened with Corn Syrup", "Contains Palm Oil", "Highly Refined Flour Base".
+    If sugar or corn syrup are among the first few ingredients, note "High Sugar Content" or "Sweetened with Corn Syrup".
+2.  Provide a brief 'overallAssessment' of the product from a health-conscious perspective, focusing on the ingredients.
+
+IMPORTANT: Your response MUST only contain the 'potentialConcerns' and 'overallAssessment' fields.
+Do not invent information not present in the provided ingredients list. Focus on objective analysis.
+`,
+});
+
+/**
+ * Labels the model's concerns as supplementary commentary and drops any that
+ * restate an additive the database already covered.
+ */
+function mergeConcerns(additiveConcerns: ProductConcern[], aiConcerns: ProductConcern[] | undefined, additives: AdditiveFinding[]): ProductConcern[] {
+  const coveredTerms = additives.flatMap(additive => [additive.code.toLowerCase(), additive.name.toLowerCase()]);
+  const commentary = (aiConcerns || [])
+    .filter(item => {
+      const text = `${item.concern} ${item.details || ''}`.toLowerCase();
+      return !coveredTerms.some(term => text.includes(term));
+    })
+    .map(item => ({ ...item, origin: 'ai-commentary' as const }));
+  return [...additiveConcerns, ...commentary];
+}
+
+type IngredientAnalysis = Awaited<ReturnType<typeof prompt>>['output'];
+
+const ingredientAnalysisCache = () => getLookupCache<IngredientAnalysis>('ingredient-analysis', {
+  shouldCache: analysis => analysis != null,
+});
+
+/**
+ * Matches the product's ingredients against the additive database and asks
+ * the model for commentary on the rest. The product must have ingredients.
+ */
+export async function assessProductIngredients(productInfo: ProductAnalysis & {ingredients: NonNullable<ProductAnalysis['ingredients']>}): Promise<ProductAnalysis> {
+  // Match additives against the knowledge base. This is deterministic and needs no model call.
+  // Sub-ingredients are matched too, so "emulsifier (soy lecithin (E322))" finds E322.
+  const additives = findAdditives(flattenIngredients(productInfo.ingredients));
+  // Compound ingredients are described to the model on one line each, with their percentages and sub-ingredients.
+  const ingredients = productInfo.ingredients.map(formatIngredient);
+  const additiveConcerns = concernsFromAdditives(additives);
+
+  try {
+    // Ask the AI for supplementary commentary on the ingredients.
+    // Identical ingredient lists (the same product scanned again, or a multipack) reuse one analysis.
+    const aiAnalysisResult = await ingredientAnalysisCache().getOrLoad(
+      // The prompt depends on the additive database, so a new database version starts a fresh cache.
+      `${ADDITIVE_DATABASE_VERSION}:${ingredientListCacheKey(ingredients)}`,
+      async () => (await prompt({
+        ingredients,
+        knownAdditives: additives.map(additive => `${additive.name} (${additive.code})`),
+      })).output,
+    );
+
+    // Reliably merge the database findings and AI commentary with the factual product data.
+    return {
+        ...productInfo, // The source of truth for product data
+        additives,
+        potentialConcerns: mergeConcerns(additiveConcerns, aiAnalysisResult?.potentialConcerns, additives),
+        overallAssessment: aiAnalysisResult?.overallAssessment || "AI analysis of ingredients could not be completed.", // Add AI analysis
+    };
+
+  } catch (e) {
+      console.error("Error during AI prompt call for ingredient analysis:", e);
+      // Fallback in case of a catastrophic error during the AI call. Database findings are still valid.
+      return {
+        ...productInfo,
+        additives,
+        potentialConcerns: additiveConcerns,
+        overallAssessment: "An error occurred during AI analysis of ingredients. Product details shown, but please review ingredients manually.",
+      };
+  }
+}
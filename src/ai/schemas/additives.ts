@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Zod schemas for rule-based additive findings and product concerns,
+ * shared by the barcode flow and the additive knowledge base.
+ *
+ * - AdditiveFindingSchema - One additive recognized in an ingredients list.
+ * - ProductConcernSchema - A concern shown to the user, labeled with where it came from.
+ */
+
+import {z} from 'genkit';
+
+export const RegulatoryStatusSchema = z.enum(['permitted', 'restricted', 'not-permitted']);
+export type RegulatoryStatus = z.infer<typeof RegulatoryStatusSchema>;
+
+export const RiskTierSchema = z.enum(['low', 'moderate', 'high']);
+export type RiskTier = z.infer<typeof RiskTierSchema>;
+
+export const CitationSchema = z.object({
+  title: z.string(),
+  url: z.string().optional(),
+});
+export type Citation = z.infer<typeof CitationSchema>;
+
+export const AdditiveFindingSchema = z.object({
+  code: z.string().describe('The E-number (INS number) of the additive, e.g. "E211".'),
+  name: z.string().describe('The common name of the additive.'),
+  functionalClass: z.string().describe('What the additive does, e.g. "preservative".'),
+  riskTier: RiskTierSchema.describe('Risk tier assigned by the additive knowledge base.'),
+  regulatoryStatus: z.object({
+    eu: RegulatoryStatusSchema,
+    us: RegulatoryStatusSchema,
+    india: RegulatoryStatusSchema,
+  }),
+  note: z.string().optional().describe('Why the additive is in its risk tier.'),
+  matchedText: z.string().describe('The ingredient text that matched this additive.'),
+  citations: z.array(CitationSchema).describe('Sources for the regulatory status and risk notes.'),
+});
+export type AdditiveFinding = z.infer<typeof AdditiveFindingSchema>;
+
+export const ProductConcernSchema = z.object({
+  concern: z.string().describe('The specific concern identified (e.g., "High Sugar Content", "Contains Artificial Sweeteners").'),
+  details: z.string().optional().describe('More details about the concern.'),
+  origin: z
+    .enum(['additive-database', 'ai-commentary'])
+    .optional()
+    .describe('Whether the concern comes from the deterministic additive database or is supplementary AI commentary.'),
+  additiveCode: z.string().optional().describe('The E-number this concern is about, for additive-database concerns.'),
+  citations: z.array(CitationSchema).optional(),
+});
+export type ProductConcern = z.infer<typeof ProductConcernSchema>;
@@ -0,0 +1,47 @@
+/**
+ * @fileOverview Zod schemas for food composition data, shared by the food item
+ * flow and the bundled food composition table.
+ *
+ * - CompositionProfileSchema - Macro and micronutrients per 100 g of edible portion.
+ * - CompositionMatchSchema - Which table entry a food item was matched to.
+ * - FoodCompositionSchema - A matched entry together with its nutrient profile.
+ */
+
+import {z} from 'genkit';
+
+export const CompositionProfileSchema = z.object({
+  water: z.number().describe('Water, g.'),
+  energyKcal: z.number().describe('Energy, kcal.'),
+  protein: z.number().describe('Protein, g.'),
+  fat: z.number().describe('Total fat, g.'),
+  carbohydrates: z.number().describe('Carbohydrate by difference, g.'),
+  sugars: z.number().describe('Total sugars, g.'),
+  fiber: z.number().describe('Dietary fiber, g.'),
+  calcium: z.number().describe('Calcium, mg.'),
+  iron: z.number().describe('Iron, mg.'),
+  magnesium: z.number().describe('Magnesium, mg.'),
+  potassium: z.number().describe('Potassium, mg.'),
+  sodium: z.number().describe('Sodium, mg.'),
+  zinc: z.number().describe('Zinc, mg.'),
+  vitaminC: z.number().describe('Vitamin C, mg.'),
+  vitaminB6: z.number().describe('Vitamin B6, mg.'),
+  folate: z.number().describe('Folate (DFE), µg.'),
+  vitaminA: z.number().describe('Vitamin A (RAE), µg.'),
+});
+export type CompositionProfile = z.infer<typeof CompositionProfileSchema>;
+
+export const CompositionMatchSchema = z.object({
+  id: z.string().describe('The table entry id, e.g. "banana".'),
+  name: z.string().describe('The table entry display name.'),
+  sourceDescription: z.string().describe('The food description in the source dataset, e.g. "Bananas, raw".'),
+  source: z.string().describe('The dataset the values were transcribed from.'),
+  sourceUrl: z.string().optional(),
+  matchedOn: z.string().describe('The name or synonym in the table that matched the identified item.'),
+});
+export type CompositionMatch = z.infer<typeof CompositionMatchSchema>;
+
+export const FoodCompositionSchema = z.object({
+  match: CompositionMatchSchema,
+  per100g: CompositionProfileSchema,
+});
+export type FoodComposition = z.infer<typeof FoodCompositionSchema>;
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Zod schemas for how sure an analysis is, shared by the food
+ * item flow, the confidence policy and the results UI.
+ *
+ * - PhotoIssueSchema - A problem with the photo that makes it hard to analyze.
+ * - FieldConfidenceSchema - Sample agreement behind one item's values.
+ * - NeedsBetterPhotoSchema - The outcome when no item could be identified confidently.
+ */
+
+import {z} from 'genkit';
+
+export const PhotoIssueSchema = z
+  .enum(['too-dark', 'too-bright', 'blurry', 'item-cropped', 'too-far', 'obstructed', 'cluttered'])
+  .describe(
+    "A problem with the photo: 'too-dark', 'too-bright' (glare or overexposure), 'blurry', 'item-cropped' (part of the food is outside the frame), 'too-far' (the food is small in the frame), 'obstructed' (hands, packaging or other objects cover it), 'cluttered' (items overlap so they cannot be told apart)."
+  );
+export type PhotoIssue = z.infer<typeof PhotoIssueSchema>;
+
+export const FieldConfidenceSchema = z.object({
+  samples: z.number().describe('How many independent readings of the photo the confidence is based on, including the main analysis.'),
+  identification: z.number().describe('Share of the readings that named the same food, 0-1.'),
+  edibility: z.number().optional().describe('Share of the readings that gave the same edibility verdict, 0-1.'),
+  modelConfidence: z.number().optional().describe("The model's own confidence in the identification, 0-1, kept for reference."),
+});
+export type FieldConfidence = z.infer<typeof FieldConfidenceSchema>;
+
+export const NeedsBetterPhotoSchema = z.object({
+  issues: z.array(PhotoIssueSchema).describe('What is wrong with the photo, when that could be told.'),
+  guidance: z.array(z.string()).describe('Concrete steps for taking a better photo.'),
+  candidates: z.array(z.string()).describe('The different foods the readings took the item for.'),
+});
+export type NeedsBetterPhoto = z.infer<typeof NeedsBetterPhotoSchema>;
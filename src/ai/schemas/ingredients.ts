@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Zod schema for a parsed ingredients declaration, shared by the
+ * barcode flow and the ingredient-list parser.
+ *
+ * - IngredientNodeSchema - One ingredient, possibly with its own sub-ingredients.
+ * - IngredientNode - The TypeScript type of an ingredient node.
+ */
+
+import {z} from 'genkit';
+
+export interface IngredientNode {
+  name: string;
+  percent?: number;
+  percentQualifier?: 'min' | 'max' | 'approx' | 'less-than';
+  code?: string;
+  allergens?: string[];
+  ingredients?: IngredientNode[];
+}
+
+export const IngredientNodeSchema: z.ZodType<IngredientNode> = z.lazy(() =>
+  z.object({
+    name: z.string().describe('The ingredient name without percentages, codes or emphasis markers.'),
+    percent: z.number().optional().describe('The declared percentage of this ingredient, if any.'),
+    percentQualifier: z
+      .enum(['min', 'max', 'approx', 'less-than'])
+      .optional()
+      .describe('How the declared percentage is qualified, e.g. "min. 30%".'),
+    code: z.string().optional().describe('The E-number/INS code declared for this ingredient, e.g. "E330".'),
+    allergens: z.array(z.string()).optional().describe('Allergen terms the label emphasizes within this ingredient.'),
+    ingredients: z.array(IngredientNodeSchema).optional().describe('Sub-ingredients of a compound ingredient.'),
+  })
+);
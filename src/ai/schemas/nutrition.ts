@@ -0,0 +1,40 @@
+/**
+ * @fileOverview Zod schemas for packaged-food nutrition data, shared by the
+ * barcode flow and the product-data providers.
+ *
+ * - NutrimentsSchema - Nutrient values per 100 g and per serving.
+ * - Nutriments - The TypeScript type of a nutriments block.
+ */
+
+import {z} from 'genkit';
+
+export const NutrientValuesSchema = z.object({
+  energyKcal: z.number().optional().describe('Energy in kilocalories.'),
+  energyKj: z.number().optional().describe('Energy in kilojoules.'),
+  fat: z.number().optional().describe('Total fat in grams.'),
+  saturatedFat: z.number().optional().describe('Saturated fat in grams.'),
+  carbohydrates: z.number().optional().describe('Carbohydrates in grams.'),
+  sugars: z.number().optional().describe('Sugars in grams.'),
+  fiber: z.number().optional().describe('Dietary fibre in grams.'),
+  protein: z.number().optional().describe('Protein in grams.'),
+  salt: z.number().optional().describe('Salt in grams.'),
+  sodium: z.number().optional().describe('Sodium in grams.'),
+});
+export type NutrientValues = z.infer<typeof NutrientValuesSchema>;
+
+export const NutrimentsSchema = z.object({
+  per100g: NutrientValuesSchema.optional().describe('Nutrient values per 100 g (or 100 ml for drinks).'),
+  perServing: NutrientValuesSchema.optional().describe('Nutrient values per serving, if the label declares them.'),
+  servingSize: z.string().optional().describe('The declared serving size, e.g. "30 g".'),
+});
+export type Nutriments = z.infer<typeof NutrimentsSchema>;
+
+export const NutritionGradeSchema = z.enum(['a', 'b', 'c', 'd', 'e']);
+export type NutritionGrade = z.infer<typeof NutritionGradeSchema>;
+
+export const NutritionScoresSchema = z.object({
+  nutriScoreGrade: NutritionGradeSchema.optional().describe('Nutri-Score grade, from a (best) to e.'),
+  novaGroup: z.number().int().min(1).max(4).optional().describe('NOVA food processing group, from 1 (unprocessed) to 4 (ultra-processed).'),
+  ecoScoreGrade: NutritionGradeSchema.optional().describe('Eco-Score environmental grade, from a (lowest impact) to e.'),
+});
+export type NutritionScores = z.infer<typeof NutritionScoresSchema>;
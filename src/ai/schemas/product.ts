@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Zod schema for the analysis of a packaged product, shared by
+ * the barcode flow and the label photo flow, which both return this shape.
+ *
+ * - ProductAnalysisSchema - Product details, ingredients, nutrition and concerns.
+ * - ProductAnalysis - The TypeScript type of a product analysis.
+ */
+
+import {z} from 'genkit';
+import {NutrimentsSchema, NutritionScoresSchema} from '@/ai/schemas/nutrition';
+import {AdditiveFindingSchema, ProductConcernSchema} from '@/ai/schemas/additives';
+import {IngredientNodeSchema} from '@/ai/schemas/ingredients';
+
+export const ProductAnalysisSchema = z.object({
+  productName: z.string().optional().describe('The name of the product.'),
+  brand: z.string().optional().describe('The brand of the product.'),
+  ingredients: z.array(IngredientNodeSchema).optional().describe('Parsed ingredients, in label order, with percentages, codes and sub-ingredients.'),
+  ingredientsText: z.string().optional().describe('The ingredients declaration exactly as printed.'),
+  mayContain: z.array(z.string()).optional().describe('Allergens from precautionary "may contain" statements.'),
+  allergens: z.array(z.string()).optional().describe('List of potential allergens found or declared.'),
+  additives: z.array(AdditiveFindingSchema).optional().describe('Additives recognized by the deterministic additive knowledge base.'),
+  potentialConcerns: z
+    .array(ProductConcernSchema)
+    .optional()
+    .describe('Potential concerns regarding ingredients or nutritional information. Additive-database concerns come first; AI commentary is supplementary.'),
+  overallAssessment: z.string().optional().describe('A brief overall assessment of the product based on its ingredients.'),
+  isFound: z.boolean().describe('Whether product information was found for the barcode, or read from the label.'),
+  imageUrl: z.string().optional().describe('URL of the product image, if available.'),
+  source: z.string().optional().describe('Data source (e.g., Open Food Facts, or a label photo).'),
+  nutriments: NutrimentsSchema.optional().describe('Declared nutrition facts per 100 g and per serving.'),
+  ...NutritionScoresSchema.shape,
+  gtin: z.string().optional().describe('The barcode normalized to a 14-digit GTIN.'),
+  barcodeFormat: z.string().optional().describe('The detected barcode format (EAN-8, UPC-E, UPC-A, EAN-13 or GTIN-14).'),
+  validationError: z.string().optional().describe('Why the barcode was rejected before lookup, if it failed validation.'),
+  unreadableParts: z.array(z.string()).optional().describe('Parts of a photographed label that could not be read, e.g. "Nutrition table (glare)".'),
+});
+export type ProductAnalysis = z.infer<typeof ProductAnalysisSchema>;
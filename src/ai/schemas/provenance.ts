@@ -0,0 +1,29 @@
+/**
+ * @fileOverview Zod schemas describing where a value in an analysis came from,
+ * shared by the food item flow and the results UI.
+ *
+ * - ProvenanceSchema - The source of a single value.
+ * - FoodItemProvenanceSchema - The source of each part of a food item analysis.
+ */
+
+import {z} from 'genkit';
+
+export const ProvenanceSchema = z
+  .enum(['observed-in-image', 'model-inferred', 'reference-database', 'simulated'])
+  .describe(
+    "Where the value came from: 'observed-in-image' if it is directly visible in the photo (a label, a colour, a bruise), 'model-inferred' if it is your own estimate from general knowledge, 'reference-database' if it was looked up in a reference table, or 'simulated' if it came from the simulateResults tool (only on older scans)."
+  );
+export type Provenance = z.infer<typeof ProvenanceSchema>;
+
+export const FoodItemProvenanceSchema = z.object({
+  identification: ProvenanceSchema.describe('Source of the name, type and confidence.'),
+  dominantColors: ProvenanceSchema.describe('Source of the dominant colors.'),
+  organicStatus: ProvenanceSchema.describe('Source of the organic assessment.'),
+  components: ProvenanceSchema.describe('Source of the water, sugar, fiber and vitamin figures.'),
+  edibility: ProvenanceSchema.describe('Source of the edibility status.'),
+  // Optional because older scans lack them.
+  portion: ProvenanceSchema.optional().describe('Source of the piece count and weight.'),
+  freshness: ProvenanceSchema.optional().describe('Source of the ripeness, defects and shelf life.'),
+});
+export type FoodItemProvenance = z.infer<typeof FoodItemProvenanceSchema>;
+export type FoodItemField = keyof FoodItemProvenance;
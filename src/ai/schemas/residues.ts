@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Zod schemas for pesticide residue information, shared by the
+ * food item flow and the residue reference database.
+ *
+ * - ChemicalResidueSchema - One residue listed for a food item.
+ * - MaximumResidueLimitsSchema - Legal limits for a residue on a crop, per region.
+ */
+
+import {z} from 'genkit';
+import {CitationSchema} from '@/ai/schemas/additives';
+import {ProvenanceSchema} from '@/ai/schemas/provenance';
+
+export const DetectionFrequencySchema = z
+  .enum(['frequent', 'common', 'occasional'])
+  .describe('How often monitoring programmes find the residue on the crop: frequent (over a quarter of samples), common (5-25%), occasional (under 5%).');
+export type DetectionFrequency = z.infer<typeof DetectionFrequencySchema>;
+
+export const WashingEffectivenessSchema = z.enum(['high', 'moderate', 'low']);
+export type WashingEffectiveness = z.infer<typeof WashingEffectivenessSchema>;
+
+export const MaximumResidueLimitsSchema = z.object({
+  eu: z.number().optional().describe('EU maximum residue level, mg/kg.'),
+  us: z.number().optional().describe('US EPA tolerance, mg/kg.'),
+  fssai: z.number().optional().describe('FSSAI tolerance limit, mg/kg.'),
+});
+export type MaximumResidueLimits = z.infer<typeof MaximumResidueLimitsSchema>;
+
+export const ChemicalResidueSchema = z.object({
+  name: z.string().describe('The active ingredient, e.g. "Chlorpyrifos".'),
+  pesticideClass: z.string().optional().describe('What kind of pesticide it is, e.g. "organophosphate insecticide".'),
+  detectionFrequency: DetectionFrequencySchema.optional(),
+  maximumResidueLimits: MaximumResidueLimitsSchema.optional(),
+  hazardousEffects: z.string().optional().describe('Health notes for the residue.'),
+  washingEffectiveness: WashingEffectivenessSchema.optional().describe('How much of the residue washing at home removes.'),
+  washingAdvice: z.string().optional(),
+  citations: z.array(CitationSchema).optional().describe('Sources for the detection frequency, limits and health notes.'),
+  // Only on scans saved before residues came from the reference database, when the model estimated them.
+  estimatedPercentage: z.number().optional(),
+  provenance: ProvenanceSchema.optional(),
+});
+export type ChemicalResidue = z.infer<typeof ChemicalResidueSchema>;
@@ -0,0 +1,5 @@
+import {appRoute} from '@genkit-ai/next';
+import {analyzeFoodItemFlow} from '@/ai/flows/analyze-food-item';
+
+// Served as a route rather than a server action so the scan page can stream results as they are generated.
+export const POST = appRoute(analyzeFoodItemFlow);
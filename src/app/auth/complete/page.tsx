@@ -0,0 +1,13 @@
+import CompleteSignIn from "@/components/auth/CompleteSignIn";
+
+export const metadata = {
+  title: "Signing In | AAHAR",
+};
+
+export default function CompleteSignInPage() {
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <CompleteSignIn />
+    </div>
+  );
+}
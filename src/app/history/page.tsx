@@ -0,0 +1,22 @@
+import ScanHistoryClient from "@/components/history/ScanHistoryClient";
+import { History } from "lucide-react";
+
+export const metadata = {
+  title: "Scan History | AAHAR",
+  description: "Look back at the food items and products you have scanned with AAHAR.",
+};
+
+export default function HistoryPage() {
+  return (
+    <div className="w-full max-w-3xl mx-auto">
+      <div className="text-center mb-8">
+        <History className="mx-auto text-primary h-12 w-12 mb-4" />
+        <h1 className="text-3xl md:text-4xl font-headline font-bold text-foreground">Scan History</h1>
+        <p className="text-muted-foreground mt-2">
+          Every item and product you have checked, with the full analysis.
+        </p>
+      </div>
+      <ScanHistoryClient />
+    </div>
+  );
+}
@@ -118,7 +118,7 @@ export default function HomePage() {
                     <CardTitle className="font-headline text-2xl">2. Enter Barcode</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-muted-foreground">For packaged items, enter the barcode number manually.</p>
+                    <p className="text-muted-foreground">For packaged items, point your camera at the barcode or type its number.</p>
                      <div className="overflow-hidden rounded-md mt-4 shadow-lg">
                       <Image
                         src="https://i.postimg.cc/0j4c1Gmg/download.jpg"
@@ -144,9 +144,9 @@ export default function HomePage() {
                 </DialogDescription>
                 <ol className="list-decimal list-inside space-y-2 pl-4 text-sm text-muted-foreground">
                   <li>Navigate to the 'Scan' page and select the 'Barcode Scan' tab.</li>
-                  <li>Locate the barcode number (typically UPC or EAN) on the product packaging.</li>
-                  <li>Type this number accurately into the provided input field.</li>
-                  <li>Click the 'Analyze Barcode' button.</li>
+                  <li>Allow camera access and hold the barcode (typically UPC or EAN) inside the frame. AAHAR reads it automatically once it is steady.</li>
+                  <li>If the camera cannot read it, type the number into the provided input field instead.</li>
+                  <li>Click the 'Analyze Barcode' button if you entered the number manually.</li>
                   <li>AAHAR will retrieve product information (if available in its database) and analyze its ingredients for potential concerns.</li>
                 </ol>
               </div>
@@ -0,0 +1,26 @@
+import DietaryProfileForm from "@/components/profile/DietaryProfileForm";
+import VoiceSettingsForm from "@/components/profile/VoiceSettingsForm";
+import { UserRound } from "lucide-react";
+
+export const metadata = {
+  title: "Dietary Profile | AAHAR",
+  description: "Tell AAHAR about your allergies, intolerances and diet so every scan is checked against them, and choose how results are read aloud.",
+};
+
+export default function ProfilePage() {
+  return (
+    <div className="w-full max-w-3xl mx-auto">
+      <div className="text-center mb-8">
+        <UserRound className="mx-auto text-primary h-12 w-12 mb-4" />
+        <h1 className="text-3xl md:text-4xl font-headline font-bold text-foreground">Your Dietary Profile</h1>
+        <p className="text-muted-foreground mt-2">
+          Allergies, intolerances, diets and health goals you want every scan checked against, and how results are read aloud.
+        </p>
+      </div>
+      <div className="space-y-8">
+        <DietaryProfileForm />
+        <VoiceSettingsForm />
+      </div>
+    </div>
+  );
+}
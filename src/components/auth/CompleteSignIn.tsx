@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { completeEmailSignIn, getPendingSignInEmail, isEmailSignInLink } from "@/lib/firebase/auth";
+import { Loader2, XCircle } from "lucide-react";
+
+type Status = "checking" | "needs-email" | "signing-in" | "invalid" | "failed";
+
+export default function CompleteSignIn() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<Status>("checking");
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  // A link signs in only once, so the check must not run again when React re-runs the effect.
+  const checkedRef = useRef(false);
+
+  const finish = useCallback(async (address: string) => {
+    setStatus("signing-in");
+    try {
+      const user = await completeEmailSignIn(address, window.location.href);
+      toast({ title: "Signed in", description: `Welcome, ${user.email}. Your profile and history now sync to your account.` });
+      router.replace("/scan");
+    } catch (err) {
+      console.error("Email link sign-in error:", err);
+      setError(err instanceof Error ? err.message : "The sign-in link could not be used.");
+      setStatus("failed");
+    }
+  }, [router, toast]);
+
+  useEffect(() => {
+    if (checkedRef.current) return;
+    checkedRef.current = true;
+    if (!isEmailSignInLink(window.location.href)) {
+      setStatus("invalid");
+      return;
+    }
+    // The address is only remembered by the browser that asked for the link; anywhere else it has to be confirmed.
+    const pending = getPendingSignInEmail();
+    if (pending) {
+      finish(pending);
+    } else {
+      setStatus("needs-email");
+    }
+  }, [finish]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    finish(email.trim());
+  };
+
+  return (
+    <Card className="shadow-xl bg-card/80 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl text-primary">Finishing sign-in</CardTitle>
+        <CardDescription>Your sign-in link is being checked.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {(status === "checking" || status === "signing-in") && (
+          <div className="flex items-center gap-3 text-muted-foreground"><Loader2 className="h-5 w-5 animate-spin" />Signing you in...</div>
+        )}
+        {status === "needs-email" && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <Label htmlFor="confirm-email">Confirm the email address the link was sent to</Label>
+            <Input id="confirm-email" type="email" required autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} />
+            <Button type="submit" disabled={!email.trim()} className="cursor-target">Sign in</Button>
+          </form>
+        )}
+        {(status === "invalid" || status === "failed") && (
+          <Alert variant="destructive">
+            <XCircle className="h-5 w-5" />
+            <AlertTitle>Sign-in link not valid</AlertTitle>
+            <AlertDescription>{error || "This link has expired or was already used. Request a new one from the Sign in menu."}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { useDietaryProfile } from "@/hooks/use-dietary-profile";
+import { usePreferences } from "@/hooks/use-preferences";
+import type { DetectedFoodItem } from "@/ai/flows/analyze-food-item";
+import type { ScanHistoryEntry, ScanKind } from "@/lib/history";
+import EdibilityBadge from "@/components/scan/EdibilityBadge";
+import ScanHistoryDetail from "./ScanHistoryDetail";
+import { Barcode as BarcodeIcon, Camera, FileText, History, Image as ImageIcon, Loader2, Search, Trash2, XCircle } from "lucide-react";
+
+type Edibility = NonNullable<DetectedFoodItem["edibility"]>;
+
+const EDIBILITY_OPTIONS: Edibility[] = ["Safe to Eat", "Wash & Eat", "Unsafe"];
+
+function matchesSearch(entry: ScanHistoryEntry, search: string): boolean {
+  if (!search) return true;
+  const haystack = entry.kind === "image"
+    ? [entry.title, ...entry.result.items.flatMap(item => [item.identification.name, item.identification.itemType])]
+    : [entry.title, entry.kind === "barcode" ? entry.barcode : undefined, entry.result.brand, entry.result.source];
+  return haystack.some(text => text?.toLowerCase().includes(search));
+}
+
+function describeSource(entry: ScanHistoryEntry): string {
+  if (entry.kind === "barcode") return `Barcode ${entry.barcode}`;
+  return entry.kind === "label" ? "Label photo" : "Photo scan";
+}
+
+function formatTimestamp(createdAt: number): string {
+  return new Date(createdAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function ScanHistoryClient() {
+  const { entries, isLoading, error, remove } = useScanHistory();
+  const { profile } = useDietaryProfile();
+  const { preferences, savePreferences } = usePreferences();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [kindFilter, setKindFilter] = useState<ScanKind | "all">("all");
+  const [edibilityFilter, setEdibilityFilter] = useState<Edibility | "all">("all");
+  const [selected, setSelected] = useState<ScanHistoryEntry | null>(null);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(entry =>
+      (kindFilter === "all" || entry.kind === kindFilter) &&
+      // Edibility is only assessed for photographed items.
+      (edibilityFilter === "all" || (entry.kind === "image" && entry.result.items.some(item => item.edibility === edibilityFilter))) &&
+      matchesSearch(entry, query)
+    );
+  }, [entries, search, kindFilter, edibilityFilter]);
+
+  const handleDelete = async (entry: ScanHistoryEntry) => {
+    try {
+      await remove(entry.id);
+      if (selected?.id === entry.id) setSelected(null);
+      toast({ title: "Scan deleted", description: `"${entry.title}" was removed from your history.` });
+    } catch (e) {
+      console.error("Could not delete scan:", e);
+      toast({ variant: "destructive", title: "Delete Failed", description: "The scan could not be removed. Please try again." });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search by name, brand or barcode" className="pl-9" aria-label="Search scan history" />
+        </div>
+        <Select value={kindFilter} onValueChange={value => setKindFilter(value as ScanKind | "all")}>
+          <SelectTrigger className="sm:w-40 cursor-target" aria-label="Filter by source"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sources</SelectItem>
+            <SelectItem value="image">Photo scans</SelectItem>
+            <SelectItem value="barcode">Barcode scans</SelectItem>
+            <SelectItem value="label">Label scans</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={edibilityFilter} onValueChange={value => setEdibilityFilter(value as Edibility | "all")}>
+          <SelectTrigger className="sm:w-44 cursor-target" aria-label="Filter by edibility"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any edibility</SelectItem>
+            {EDIBILITY_OPTIONS.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <XCircle className="h-5 w-5" />
+          <AlertTitle>Could not load history</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12 text-muted-foreground"><Loader2 className="h-8 w-8 animate-spin" /></div>
+      ) : filtered.length === 0 ? (
+        <Card className="bg-card/70 backdrop-blur-sm">
+          <CardContent className="p-8 text-center text-muted-foreground space-y-3">
+            <History className="mx-auto h-10 w-10" />
+            <p>{entries.length === 0 ? "You haven't scanned anything yet." : "No scans match your search and filters."}</p>
+            {entries.length === 0 && (
+              <Button asChild className="cursor-target"><Link href="/scan"><Camera className="mr-2 h-4 w-4" />Scan something</Link></Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {filtered.map(entry => (
+            <li key={entry.id}>
+              <Card className="bg-card/70 backdrop-blur-sm hover:border-primary/50 transition-colors">
+                <CardContent className="p-3 flex items-center gap-4">
+                  <button type="button" onClick={() => setSelected(entry)} className="cursor-target flex flex-1 items-center gap-4 text-left min-w-0">
+                    {entry.thumbnail ? (
+                      <Image src={entry.thumbnail} alt={entry.title} width={64} height={64} unoptimized className="h-16 w-16 rounded-md object-cover border border-border bg-white shrink-0" />
+                    ) : (
+                      <div className="h-16 w-16 rounded-md border border-border bg-muted/70 flex items-center justify-center shrink-0"><ImageIcon className="h-7 w-7 text-muted-foreground" /></div>
+                    )}
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-semibold text-foreground truncate">{entry.title}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                        {entry.kind === "barcode" ? <BarcodeIcon size={14} /> : entry.kind === "label" ? <FileText size={14} /> : <Camera size={14} />}
+                        {describeSource(entry)} · {formatTimestamp(entry.createdAt)}
+                      </p>
+                      {entry.kind === "image" && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {/* One badge per distinct status, so a plate of several items still reads at a glance. */}
+                          {[...new Set(entry.result.items.map(item => item.edibility))].map(status => <EdibilityBadge key={status ?? "unknown"} status={status} />)}
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="cursor-target text-muted-foreground hover:text-destructive" title="Delete scan">
+                        <Trash2 className="h-5 w-5" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this scan?</AlertDialogTitle>
+                        <AlertDialogDescription>&quot;{entry.title}&quot; will be removed from your history on all your devices.</AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(entry)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </CardContent>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={selected !== null} onOpenChange={open => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-headline text-2xl text-primary">{selected.title}</DialogTitle>
+                <DialogDescription>{selected.kind === "barcode" ? "Barcode scan" : selected.kind === "label" ? "Label scan" : "Photo scan"} · {formatTimestamp(selected.createdAt)}</DialogDescription>
+              </DialogHeader>
+              <ScanHistoryDetail
+                entry={selected}
+                profile={profile}
+                hideSimulated={preferences.hideSimulatedValues}
+                onHideSimulatedChange={hideSimulatedValues => savePreferences({ ...preferences, hideSimulatedValues })}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
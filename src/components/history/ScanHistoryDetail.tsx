@@ -0,0 +1,132 @@
+import type { DetectedFoodItem } from "@/ai/flows/analyze-food-item";
+import type { ScanHistoryEntry } from "@/lib/history";
+import type { DietaryProfile } from "@/lib/profile";
+import { checkBarcodeResult, checkFoodItemResult } from "@/lib/profile";
+import EdibilityBadge from "@/components/scan/EdibilityBadge";
+import FreshnessDetails from "@/components/scan/FreshnessDetails";
+import FoodCompositionCard from "@/components/scan/FoodCompositionCard";
+import PortionCard from "@/components/scan/PortionCard";
+import IngredientTree from "@/components/scan/IngredientTree";
+import NutritionLabelCard from "@/components/scan/NutritionLabelCard";
+import AdditiveFindings from "@/components/scan/AdditiveFindings";
+import ProfileVerdictBanner from "@/components/scan/ProfileVerdictBanner";
+import ProvenanceTag from "@/components/scan/ProvenanceTag";
+import ResidueFindings from "@/components/scan/ResidueFindings";
+import SimulatedValuesNotice from "@/components/scan/SimulatedValuesNotice";
+import { hasSimulatedValues, provenanceOf, withoutSimulatedValues } from "@/lib/provenance";
+import { AlertCircle, AlertTriangle, Leaf, Microscope, Sparkles, Zap } from "lucide-react";
+
+function FoodItemDetail({ item, databaseVersion, compositionTableVersion }: { item: DetectedFoodItem; databaseVersion?: string; compositionTableVersion?: string }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <EdibilityBadge status={item.edibility} />
+        {item.edibility && <ProvenanceTag provenance={provenanceOf(item, "edibility")} />}
+      </div>
+      <FreshnessDetails item={item} />
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Microscope size={20} className="text-accent" />Identification<ProvenanceTag provenance={provenanceOf(item, "identification")} /></h3>
+        <p className="text-sm text-muted-foreground">Type: <span className="text-foreground/80">{item.identification.itemType || "N/A"}</span></p>
+        {item.identification.confidence !== undefined && (
+          <p className="text-sm text-muted-foreground">Confidence: <span className="text-foreground/80">{(item.identification.confidence * 100).toFixed(0)}%</span></p>
+        )}
+        {item.identification.organicReasoning && (
+          <p className="text-sm text-muted-foreground flex items-start gap-1.5 mt-1"><Leaf size={16} className="mt-0.5 shrink-0 text-primary" /><span>{item.identification.organicReasoning} <ProvenanceTag provenance={provenanceOf(item, "organicStatus")} /></span></p>
+        )}
+      </div>
+      {item.components && (
+        <div className="border-t border-border/50 pt-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Zap size={20} className="text-accent" />Components<ProvenanceTag provenance={provenanceOf(item, "components")} /></h3>
+          <ul className="text-sm text-muted-foreground space-y-0.5">
+            {item.components.waterPercentage !== undefined && <li>Water: {item.components.waterPercentage}%</li>}
+            {item.components.sugarPercentage !== undefined && <li>Sugar: {item.components.sugarPercentage}%</li>}
+            {item.components.fiberPercentage !== undefined && <li>Fiber: {item.components.fiberPercentage}%</li>}
+            {item.components.vitaminsAndMinerals && <li>Vitamins &amp; minerals: {item.components.vitaminsAndMinerals}</li>}
+          </ul>
+        </div>
+      )}
+      <PortionCard item={item} />
+      <FoodCompositionCard composition={item.composition} tableVersion={compositionTableVersion} />
+      <ResidueFindings residues={item.chemicalResidues} crop={item.residueCrop} databaseVersion={databaseVersion} />
+    </div>
+  );
+}
+
+interface ImageScanDetailProps {
+  entry: Extract<ScanHistoryEntry, { kind: "image" }>;
+  profile: DietaryProfile;
+  hideSimulated: boolean;
+  onHideSimulatedChange: (hidden: boolean) => void;
+}
+
+function ImageScanDetail({ entry, profile, hideSimulated, onHideSimulatedChange }: ImageScanDetailProps) {
+  const { result } = entry;
+  if (!result.isFoodItem) {
+    return <p className="text-sm text-muted-foreground">{result.nonFoodDescription || "The scanned item does not appear to be a food product."}</p>;
+  }
+  return (
+    <div className="space-y-4">
+      <ProfileVerdictBanner verdict={checkFoodItemResult(result, profile)} />
+      {(result.simulationUsed || result.items.some(hasSimulatedValues)) && <SimulatedValuesNotice hidden={hideSimulated} onHiddenChange={onHideSimulatedChange} />}
+      {(hideSimulated ? result.items.map(withoutSimulatedValues) : result.items).map((item, index) => (
+        <section key={index} className={index > 0 ? "border-t-2 border-border/70 pt-4" : undefined}>
+          {result.items.length > 1 && <h3 className="font-headline text-xl text-primary mb-2">{index + 1}. {item.identification.name || "Food item"}</h3>}
+          <FoodItemDetail item={item} databaseVersion={result.residueDatabaseVersion} compositionTableVersion={result.compositionTableVersion} />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/** Barcode and label scans share the product result shape. */
+function ProductScanDetail({ entry, profile }: { entry: Extract<ScanHistoryEntry, { kind: "barcode" | "label" }>; profile: DietaryProfile }) {
+  const { result } = entry;
+  return (
+    <div className="space-y-4">
+      <ProfileVerdictBanner verdict={checkBarcodeResult(result, profile)} />
+      <p className="text-sm text-muted-foreground">
+        {entry.kind === "barcode" ? `Barcode ${entry.barcode}` : "Read from a label photo"}{result.brand && result.brand !== "N/A" ? ` · ${result.brand}` : ""}{entry.kind === "barcode" && result.source ? ` · Data from ${result.source}` : ""}
+      </p>
+      {result.unreadableParts && result.unreadableParts.length > 0 && (
+        <p className="text-sm text-yellow-300/90 flex items-start gap-1.5"><AlertTriangle size={16} className="mt-0.5 shrink-0" />Could not be read: {result.unreadableParts.join("; ")}</p>
+      )}
+      {result.overallAssessment && (
+        <p className="text-sm text-foreground/85 flex items-start gap-1.5"><Sparkles size={16} className="mt-0.5 shrink-0 text-accent" />{result.overallAssessment}</p>
+      )}
+      <IngredientTree ingredients={result.ingredients} mayContain={result.mayContain} />
+      {result.allergens && result.allergens.length > 0 && (
+        <div className="border-t border-border/50 pt-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-yellow-400"><AlertCircle size={20} />Declared Allergens</h3>
+          <p className="text-sm text-yellow-300/90">{result.allergens.join(", ")}</p>
+        </div>
+      )}
+      <NutritionLabelCard
+        nutriments={result.nutriments}
+        nutriScoreGrade={result.nutriScoreGrade}
+        novaGroup={result.novaGroup}
+        ecoScoreGrade={result.ecoScoreGrade}
+      />
+      <AdditiveFindings additives={result.additives} />
+      {result.potentialConcerns && result.potentialConcerns.length > 0 && (
+        <div className="border-t border-border/50 pt-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-red-400"><AlertTriangle size={20} />Potential Concerns</h3>
+          <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+            {result.potentialConcerns.map((item, index) => (
+              <li key={index}>
+                <span className="font-medium text-foreground/85">{item.concern}</span>
+                {item.origin === "ai-commentary" && <span className="text-xs text-muted-foreground/70"> (AI commentary)</span>}
+                {item.details && <>: {item.details}</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ScanHistoryDetail({ entry, profile, hideSimulated, onHideSimulatedChange }: Omit<ImageScanDetailProps, "entry"> & { entry: ScanHistoryEntry }) {
+  return entry.kind === "image"
+    ? <ImageScanDetail entry={entry} profile={profile} hideSimulated={hideSimulated} onHideSimulatedChange={onHideSimulatedChange} />
+    : <ProductScanDetail entry={entry} profile={profile} />;
+}
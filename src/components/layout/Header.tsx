@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { Leaf, Info, Home, ScanLine } from 'lucide-react';
+import UserMenu from '@/components/layout/UserMenu';
+import { Leaf, Info, Home, ScanLine, UserRound, History } from 'lucide-react';
 
 export default function Header() {
   return (
@@ -23,12 +24,25 @@ export default function Header() {
                <span className="hidden sm:inline text-sm font-medium">Scan</span>
             </Link>
           </Button>
+          <Button variant="ghost" asChild className="cursor-target text-foreground/80 hover:text-primary hover:bg-primary/10 rounded-md">
+            <Link href="/history" className="flex items-center gap-1.5 px-3 py-2">
+              <History size={20} />
+              <span className="hidden sm:inline text-sm font-medium">History</span>
+            </Link>
+          </Button>
           <Button variant="ghost" asChild className="cursor-target text-foreground/80 hover:text-primary hover:bg-primary/10 rounded-md">
             <Link href="/tips" className="flex items-center gap-1.5 px-3 py-2">
               <Info size={20} />
               <span className="hidden sm:inline text-sm font-medium">Tips</span>
             </Link>
           </Button>
+          <Button variant="ghost" asChild className="cursor-target text-foreground/80 hover:text-primary hover:bg-primary/10 rounded-md">
+            <Link href="/profile" className="flex items-center gap-1.5 px-3 py-2">
+              <UserRound size={20} />
+              <span className="hidden sm:inline text-sm font-medium">Profile</span>
+            </Link>
+          </Button>
+          <UserMenu />
         </nav>
       </div>
     </header>
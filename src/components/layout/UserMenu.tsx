@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { sendEmailSignInLink, signInWithGoogle, signOutUser } from "@/lib/firebase/auth";
+import { History, LogIn, LogOut, Mail, UserRound } from "lucide-react";
+
+function SignInDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleEmailSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    try {
+      await sendEmailSignInLink(email.trim());
+      setLinkSentTo(email.trim());
+    } catch (err) {
+      console.error("Email sign-in link error:", err);
+      toast({ variant: "destructive", title: "Could Not Send Link", description: err instanceof Error ? err.message : "Please check the address and try again." });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleGoogle = async () => {
+    setIsBusy(true);
+    try {
+      const user = await signInWithGoogle();
+      onOpenChange(false);
+      toast({ title: "Signed in", description: `Welcome, ${user.displayName || user.email}. Your profile and history now sync to your account.` });
+    } catch (err) {
+      console.error("Google sign-in error:", err);
+      toast({ variant: "destructive", title: "Sign-in Failed", description: err instanceof Error ? err.message : "Google sign-in did not complete." });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={next => { onOpenChange(next); if (!next) setLinkSentTo(null); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl text-primary">Sign in to AAHAR</DialogTitle>
+          <DialogDescription>Keep your dietary profile, preferences and scan history in sync on every phone in your household.</DialogDescription>
+        </DialogHeader>
+        {linkSentTo ? (
+          <p className="text-sm text-muted-foreground">
+            We sent a sign-in link to <span className="font-medium text-foreground">{linkSentTo}</span>. Open it on this device to finish signing in.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <Button onClick={handleGoogle} disabled={isBusy} variant="outline" className="cursor-target w-full">
+              <LogIn className="mr-2 h-4 w-4" /> Continue with Google
+            </Button>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="h-px flex-1 bg-border" />or<span className="h-px flex-1 bg-border" />
+            </div>
+            <form onSubmit={handleEmailSubmit} className="space-y-2">
+              <Label htmlFor="sign-in-email">Email</Label>
+              <Input id="sign-in-email" type="email" required autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="you@example.com" />
+              <Button type="submit" disabled={isBusy || !email.trim()} className="cursor-target w-full">
+                <Mail className="mr-2 h-4 w-4" /> Email me a sign-in link
+              </Button>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function UserMenu() {
+  const { user, isLoading, isConfigured } = useAuth();
+  const { toast } = useToast();
+  const [isSignInOpen, setIsSignInOpen] = useState(false);
+
+  if (!isConfigured || isLoading) return null;
+
+  if (!user) {
+    return (
+      <>
+        <Button variant="ghost" onClick={() => setIsSignInOpen(true)} className="cursor-target text-foreground/80 hover:text-primary hover:bg-primary/10 rounded-md flex items-center gap-1.5 px-3 py-2">
+          <LogIn size={20} />
+          <span className="hidden sm:inline text-sm font-medium">Sign in</span>
+        </Button>
+        <SignInDialog open={isSignInOpen} onOpenChange={setIsSignInOpen} />
+      </>
+    );
+  }
+
+  const name = user.displayName || user.email || "Signed in";
+  const initials = name.split(/[\s@.]+/).filter(Boolean).slice(0, 2).map(part => part[0]?.toUpperCase()).join("");
+
+  const handleSignOut = async () => {
+    try {
+      await signOutUser();
+      toast({ title: "Signed out", description: "Scans you make now are kept on this device only." });
+    } catch (err) {
+      console.error("Sign-out error:", err);
+      toast({ variant: "destructive", title: "Sign-out Failed", description: err instanceof Error ? err.message : "Please try again." });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="cursor-target rounded-full" title={name}>
+          <Avatar className="h-8 w-8">
+            {user.photoURL && <AvatarImage src={user.photoURL} alt={name} />}
+            <AvatarFallback className="bg-primary/20 text-primary text-xs font-semibold">{initials}</AvatarFallback>
+          </Avatar>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium truncate">{user.displayName || "Your account"}</p>
+          {user.email && <p className="text-xs text-muted-foreground truncate">{user.email}</p>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild><Link href="/profile"><UserRound className="mr-2 h-4 w-4" />Dietary profile</Link></DropdownMenuItem>
+        <DropdownMenuItem asChild><Link href="/history"><History className="mr-2 h-4 w-4" />Scan history</Link></DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleSignOut}><LogOut className="mr-2 h-4 w-4" />Sign out</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
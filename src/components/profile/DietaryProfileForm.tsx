@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useDietaryProfile } from "@/hooks/use-dietary-profile";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  ALLERGEN_LABELS,
+  DIET_LABELS,
+  INTOLERANCE_LABELS,
+  type AllergenId,
+  type DietId,
+  type DietaryProfile,
+  type IntoleranceId,
+} from "@/lib/profile";
+import { AlertCircle, HeartPulse, Salad, Save } from "lucide-react";
+
+type Draft = Omit<DietaryProfile, "updatedAt">;
+
+function CheckboxGroup<T extends string>({ name, labels, selected, onChange }: {
+  name: string;
+  labels: Record<T, string>;
+  selected: T[];
+  onChange: (next: T[]) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+      {(Object.keys(labels) as T[]).map(id => (
+        <div key={id} className="flex items-center gap-2">
+          <Checkbox
+            id={`${name}-${id}`}
+            checked={selected.includes(id)}
+            onCheckedChange={checked => onChange(checked ? [...selected, id] : selected.filter(item => item !== id))}
+            className="cursor-target"
+          />
+          <Label htmlFor={`${name}-${id}`} className="capitalize cursor-pointer">{labels[id]}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function DietaryProfileForm() {
+  const { profile, isLoaded, saveProfile } = useDietaryProfile();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft>(profile);
+
+  useEffect(() => {
+    setDraft(profile);
+  }, [profile]);
+
+  const handleSave = () => {
+    saveProfile(draft);
+    toast({
+      title: "Profile saved",
+      description: user ? "Your profile is saved on this device and synced to your account." : "Your profile is saved on this device. Sign in to use it on your other devices.",
+    });
+  };
+
+  return (
+    <Card className="shadow-xl bg-card/80 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl text-primary">Your Dietary Profile</CardTitle>
+        <CardDescription>Every scan is checked against these settings, and conflicts are shown and read out first.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <section>
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-3 text-foreground/90"><AlertCircle size={20} className="text-accent" />Allergies</h3>
+          <CheckboxGroup<AllergenId> name="allergen" labels={ALLERGEN_LABELS} selected={draft.allergens} onChange={allergens => setDraft({ ...draft, allergens })} />
+        </section>
+        <section className="border-t border-border/50 pt-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-3 text-foreground/90"><AlertCircle size={20} className="text-accent" />Intolerances</h3>
+          <CheckboxGroup<IntoleranceId> name="intolerance" labels={INTOLERANCE_LABELS} selected={draft.intolerances} onChange={intolerances => setDraft({ ...draft, intolerances })} />
+        </section>
+        <section className="border-t border-border/50 pt-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-3 text-foreground/90"><Salad size={20} className="text-accent" />Diet</h3>
+          <CheckboxGroup<DietId> name="diet" labels={DIET_LABELS} selected={draft.diets} onChange={diets => setDraft({ ...draft, diets })} />
+        </section>
+        <section className="border-t border-border/50 pt-4 space-y-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2 text-foreground/90"><HeartPulse size={20} className="text-accent" />Health</h3>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="low-sodium" className="cursor-pointer">Low-sodium diet</Label>
+            <Switch id="low-sodium" checked={draft.lowSodium} onCheckedChange={lowSodium => setDraft({ ...draft, lowSodium })} className="cursor-target" />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="diabetic" className="cursor-pointer">Diabetic (limit sugar)</Label>
+            <Switch id="diabetic" checked={draft.diabetic} onCheckedChange={diabetic => setDraft({ ...draft, diabetic })} className="cursor-target" />
+          </div>
+        </section>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={!isLoaded} className="cursor-target w-full sm:w-auto">
+          <Save className="mr-2 h-4 w-4" /> Save Profile
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useSpeech } from "@/hooks/use-speech";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  SPEECH_LANGUAGES,
+  SPEECH_MESSAGES,
+  speak,
+  voicesForLanguage,
+  type SpeechLanguage,
+  type SpeechSettings,
+  type SpeechVerbosity,
+} from "@/lib/speech";
+import { AlertTriangle, AudioLines, Languages, Play, Save } from "lucide-react";
+
+type Draft = Omit<SpeechSettings, "updatedAt">;
+
+// Radix Select items cannot have an empty value.
+const AUTOMATIC_VOICE = "automatic";
+
+export default function VoiceSettingsForm() {
+  const { settings, isLoaded, saveSettings, voices, isSupported } = useSpeech();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft>(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const languageVoices = voicesForLanguage(voices, draft.language);
+  const selectedVoice = languageVoices.some(voice => voice.voiceURI === draft.voiceURI) ? draft.voiceURI! : AUTOMATIC_VOICE;
+
+  const handleLanguageChange = (language: string) => {
+    // Voices are per language, so a voice chosen for the old one would only fall back anyway.
+    setDraft({ ...draft, language: language as SpeechLanguage, voiceURI: null });
+  };
+
+  const handlePlaySample = () => {
+    speak(SPEECH_MESSAGES[draft.language].sample, { ...draft, updatedAt: 0 }, voices);
+  };
+
+  const handleSave = () => {
+    saveSettings(draft);
+    toast({
+      title: "Voice settings saved",
+      description: user ? "Your voice settings are saved on this device and synced to your account." : "Your voice settings are saved on this device. Sign in to use them on your other devices.",
+    });
+  };
+
+  return (
+    <Card className="shadow-xl bg-card/80 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl text-primary">Voice Feedback</CardTitle>
+        <CardDescription>How scan results are read aloud: language, voice, speed and how much is read.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!isSupported && (
+          <p className="text-sm text-yellow-300/90 flex items-start gap-1.5"><AlertTriangle size={16} className="mt-0.5 shrink-0" />This browser cannot read text aloud. Your settings are still saved for your other devices.</p>
+        )}
+        <section className="space-y-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2 text-foreground/90"><Languages size={20} className="text-accent" />Language and Voice</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="speech-language">Language</Label>
+              <Select value={draft.language} onValueChange={handleLanguageChange}>
+                <SelectTrigger id="speech-language" className="cursor-target"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPEECH_LANGUAGES) as SpeechLanguage[]).map(language => (
+                    <SelectItem key={language} value={language}>
+                      {SPEECH_LANGUAGES[language].nativeLabel}{language !== "en" && ` (${SPEECH_LANGUAGES[language].label})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="speech-voice">Voice</Label>
+              <Select value={selectedVoice} onValueChange={voiceURI => setDraft({ ...draft, voiceURI: voiceURI === AUTOMATIC_VOICE ? null : voiceURI })}>
+                <SelectTrigger id="speech-voice" className="cursor-target"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTOMATIC_VOICE}>Automatic</SelectItem>
+                  {languageVoices.map(voice => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>{voice.name}{!voice.localService && " (online)"}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {isSupported && voices.length > 0 && languageVoices.length === 0 && (
+            <p className="text-sm text-yellow-300/90 flex items-start gap-1.5">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              No {SPEECH_LANGUAGES[draft.language].label} voice is installed on this device. Results may be read with another language&apos;s voice; add one in your system&apos;s text-to-speech settings.
+            </p>
+          )}
+        </section>
+        <section className="border-t border-border/50 pt-4 space-y-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2 text-foreground/90"><AudioLines size={20} className="text-accent" />Speech</h3>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm"><Label htmlFor="speech-rate">Speed</Label><span className="text-muted-foreground">{draft.rate.toFixed(1)}×</span></div>
+            <Slider id="speech-rate" min={0.5} max={2} step={0.1} value={[draft.rate]} onValueChange={([rate]) => setDraft({ ...draft, rate })} className="cursor-target" />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm"><Label htmlFor="speech-pitch">Pitch</Label><span className="text-muted-foreground">{draft.pitch.toFixed(1)}</span></div>
+            <Slider id="speech-pitch" min={0} max={2} step={0.1} value={[draft.pitch]} onValueChange={([pitch]) => setDraft({ ...draft, pitch })} className="cursor-target" />
+          </div>
+          <div className="space-y-2">
+            <Label>Detail</Label>
+            <RadioGroup value={draft.verbosity} onValueChange={verbosity => setDraft({ ...draft, verbosity: verbosity as SpeechVerbosity })} className="gap-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem id="verbosity-summary" value="summary" className="mt-0.5 cursor-target" />
+                <Label htmlFor="verbosity-summary" className="cursor-pointer font-normal">Summary <span className="text-muted-foreground">— the verdict, edibility and the most important reason</span></Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem id="verbosity-full" value="full" className="mt-0.5 cursor-target" />
+                <Label htmlFor="verbosity-full" className="cursor-pointer font-normal">Full detail <span className="text-muted-foreground">— everything shown in the results</span></Label>
+              </div>
+            </RadioGroup>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="auto-read" className="cursor-pointer">Read results aloud automatically</Label>
+            <Switch id="auto-read" checked={draft.autoRead} onCheckedChange={autoRead => setDraft({ ...draft, autoRead })} className="cursor-target" />
+          </div>
+        </section>
+      </CardContent>
+      <CardFooter className="flex flex-col sm:flex-row gap-2">
+        <Button variant="outline" onClick={handlePlaySample} disabled={!isSupported} className="cursor-target w-full sm:w-auto">
+          <Play className="mr-2 h-4 w-4" /> Play Sample
+        </Button>
+        <Button onClick={handleSave} disabled={!isLoaded} className="cursor-target w-full sm:w-auto">
+          <Save className="mr-2 h-4 w-4" /> Save Voice Settings
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { FlaskConical } from "lucide-react";
+import type { AdditiveFinding, RiskTier } from "@/ai/schemas/additives";
+
+const TIER_CLASSES: Record<RiskTier, string> = {
+  low: "bg-green-500/15 text-green-300 border-green-500/40",
+  moderate: "bg-yellow-500/15 text-yellow-300 border-yellow-500/40",
+  high: "bg-red-500/15 text-red-300 border-red-500/40",
+};
+
+const STATUS_LABELS = { permitted: "Permitted", restricted: "Restricted", "not-permitted": "Not permitted" } as const;
+
+export default function AdditiveFindings({ additives }: { additives?: AdditiveFinding[] }) {
+  if (!additives || additives.length === 0) return null;
+
+  return (
+    <div className="border-t border-border/50 pt-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><FlaskConical size={20} className="text-accent" />Additives Detected</h3>
+      <p className="text-xs text-muted-foreground mb-2">Matched against AAHAR&apos;s curated additive database. The same ingredients always give the same result.</p>
+      <ul className="space-y-1.5">
+        {additives.map(additive => (
+          <li key={additive.code} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm bg-background/40 p-2.5 rounded-md border border-border/40">
+            <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold capitalize ${TIER_CLASSES[additive.riskTier]}`}>{additive.riskTier} risk</span>
+            <span className="font-medium text-foreground/90">{additive.name} ({additive.code})</span>
+            <span className="text-muted-foreground capitalize">{additive.functionalClass}</span>
+            <span className="text-xs text-muted-foreground/80 w-full sm:w-auto sm:ml-auto">
+              EU: {STATUS_LABELS[additive.regulatoryStatus.eu]} · US: {STATUS_LABELS[additive.regulatoryStatus.us]} · India: {STATUS_LABELS[additive.regulatoryStatus.india]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ScanLine } from "lucide-react";
+import { createBarcodeFrameReader, createStableReadFilter, type DecodedBarcode } from "@/lib/barcode/frame-reader";
+
+// Decoding every animation frame is wasteful on low-end phones; ~8 reads per second is plenty.
+const READ_INTERVAL_MS = 120;
+const REQUIRED_STABLE_READS = 3;
+// After a read that scanning continues from, a pause so the same code is not reported again while it is still in view.
+const CONTINUOUS_PAUSE_MS = 1500;
+
+interface BarcodeCameraScannerProps {
+  /** Whether the camera should be running. Turning this off releases the stream. */
+  active: boolean;
+  /** Return false to reject the read (e.g. it failed validation) and keep scanning. */
+  onDetected: (barcode: DecodedBarcode) => boolean | void;
+  /** Keep scanning after a read instead of waiting for the parent to resume, for scanning many products in a row. */
+  continuous?: boolean;
+}
+
+type ScannerStatus = "starting" | "scanning" | "unavailable";
+
+export default function BarcodeCameraScanner({ active, onDetected, continuous = false }: BarcodeCameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [status, setStatus] = useState<ScannerStatus>("starting");
+  const [readerKind, setReaderKind] = useState<"native" | "fallback" | null>(null);
+  const [candidate, setCandidate] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let isMounted = true;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stableFilter = createStableReadFilter(REQUIRED_STABLE_READS);
+
+    const start = async () => {
+      setStatus("starting");
+      setCandidate(null);
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode: "environment",
+            width: { ideal: 1280 },
+            height: { ideal: 720 },
+          },
+        });
+        if (!isMounted || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        videoRef.current.muted = true;
+        videoRef.current.playsInline = true;
+        await videoRef.current.play();
+
+        const reader = await createBarcodeFrameReader();
+        if (!isMounted) return;
+        setReaderKind(reader.kind);
+        setStatus("scanning");
+
+        const tick = async () => {
+          if (!isMounted || !videoRef.current) return;
+          try {
+            const read = await reader.read(videoRef.current);
+            if (read) setCandidate(read.rawValue);
+            const stable = stableFilter.push(read);
+            if (stable && isMounted) {
+              const accepted = onDetectedRef.current(stable) !== false;
+              if (continuous || !accepted) {
+                stableFilter = createStableReadFilter(REQUIRED_STABLE_READS);
+                setCandidate(null);
+                timer = setTimeout(tick, CONTINUOUS_PAUSE_MS);
+                return;
+              }
+              // Stop scanning after a successful read; the parent decides whether to resume.
+              return;
+            }
+          } catch (error) {
+            console.warn("Barcode frame read failed:", error);
+          }
+          timer = setTimeout(tick, READ_INTERVAL_MS);
+        };
+        tick();
+      } catch (err) {
+        console.error("Barcode camera error:", err);
+        if (isMounted) setStatus("unavailable");
+      }
+    };
+
+    start();
+
+    return () => {
+      isMounted = false;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      if (videoRef.current) videoRef.current.srcObject = null;
+    };
+  }, [active, continuous]);
+
+  return (
+    <div className="w-full max-w-md mx-auto aspect-video bg-muted/70 rounded-md overflow-hidden relative shadow-inner">
+      <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+      {status === "scanning" && (
+        <>
+          <div className="absolute inset-x-[12%] top-1/2 -translate-y-1/2 h-1/3 border-2 border-primary/80 rounded-md pointer-events-none">
+            <div className="absolute inset-x-0 top-1/2 h-0.5 bg-red-500/80 animate-pulse" />
+          </div>
+          <p className="absolute bottom-2 inset-x-0 text-center text-xs text-foreground/90 bg-background/60 py-1">
+            {candidate ? `Reading ${candidate}… hold steady` : continuous ? "Point the camera at the next barcode" : "Point the camera at the barcode"}
+            {readerKind === "fallback" && <span className="text-muted-foreground"> (compatibility mode)</span>}
+          </p>
+        </>
+      )}
+      {status === "starting" && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <p className="text-muted-foreground p-4 text-center flex items-center gap-2">
+            <ScanLine className="h-5 w-5 animate-pulse" /> Starting barcode camera... Please allow camera access if prompted.
+          </p>
+        </div>
+      )}
+      {status === "unavailable" && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <p className="text-muted-foreground p-4 text-center">Camera not available or permission denied. Enter the barcode number below instead.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, Barcode as BarcodeIcon, Camera, Download, FileJson, ImageIcon, ImagePlus, ListChecks, ListOrdered, Loader2, Plus, RotateCcw, ScanLine, Trash2, X } from "lucide-react";
+import BarcodeCameraScanner from "./BarcodeCameraScanner";
+import EdibilityBadge from "./EdibilityBadge";
+import { useToast } from "@/hooks/use-toast";
+import { useDietaryProfile } from "@/hooks/use-dietary-profile";
+import type { BatchSession } from "@/hooks/use-batch-session";
+import type { DecodedBarcode } from "@/lib/barcode/frame-reader";
+import { validateGtin } from "@/lib/barcode/gtin";
+import { prepareImageForAnalysis } from "@/lib/image-quality";
+import { createThumbnail } from "@/lib/history";
+import { batchToCsv, batchToJson, downloadFile, summarizeBatch, type AttentionLevel, type BatchItem } from "@/lib/batch";
+
+const ATTENTION_STYLES: Record<AttentionLevel, { label: string; className: string }> = {
+  avoid: { label: "Avoid", className: "bg-red-500/20 text-red-300 border-red-500/50" },
+  caution: { label: "Check", className: "bg-yellow-500/20 text-yellow-300 border-yellow-500/50" },
+  unknown: { label: "Unknown", className: "bg-muted/70 text-muted-foreground border-border" },
+  ok: { label: "OK", className: "bg-green-500/20 text-green-300 border-green-500/50" },
+};
+
+const STATUS_LABELS: Record<BatchItem["status"], string> = {
+  queued: "Waiting",
+  analyzing: "Analyzing",
+  done: "Analyzed",
+  failed: "Failed",
+};
+
+interface BatchScanPanelProps {
+  session: BatchSession;
+  /** Whether the batch tab is showing; the barcode camera only runs while it is. */
+  active: boolean;
+}
+
+function Thumbnail({ item }: { item: BatchItem }) {
+  if (item.thumbnail) {
+    return <Image src={item.thumbnail} alt={item.title} width={40} height={40} unoptimized className="h-10 w-10 rounded-md object-cover border border-border bg-white shrink-0" />;
+  }
+  const Icon = item.kind === "barcode" ? BarcodeIcon : ImageIcon;
+  return <div className="h-10 w-10 rounded-md border border-border bg-muted/70 flex items-center justify-center shrink-0"><Icon className="h-5 w-5 text-muted-foreground" /></div>;
+}
+
+/**
+ * Scans a whole grocery haul: barcodes and photos are queued one after another
+ * and analyzed in the background, and the finished items are ranked so the ones
+ * to look at first are on top.
+ */
+export default function BatchScanPanel({ session, active }: BatchScanPanelProps) {
+  const { items, pendingCount, addPhoto, addBarcode, retry, remove, clear } = session;
+  const { profile } = useDietaryProfile();
+  const { toast } = useToast();
+  const [isScanningBarcodes, setIsScanningBarcodes] = useState(false);
+  const [barcodeInputValue, setBarcodeInputValue] = useState("");
+  const [barcodeValidationError, setBarcodeValidationError] = useState<string | null>(null);
+  const [isPreparingPhotos, setIsPreparingPhotos] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  // The scanner keeps reporting a code while it stays in view; only a new one is worth a toast.
+  const lastCameraReadRef = useRef<string | null>(null);
+
+  const rows = summarizeBatch(items, profile);
+  const unfinished = items.filter(item => item.status !== "done");
+  const doneCount = items.length - unfinished.length;
+
+  const queueBarcode = (lookupCode: string, displayCode: string) => {
+    if (!addBarcode(lookupCode)) {
+      toast({ title: "Already Added", description: `${displayCode} is already in this batch.` });
+      return false;
+    }
+    return true;
+  };
+
+  const handleBarcodeDetected = (barcode: DecodedBarcode) => {
+    const validation = validateGtin(barcode.rawValue, barcode.format === "upc_e" ? "UPC-E" : undefined);
+    if (!validation.valid || validation.gtin.lookupCode === lastCameraReadRef.current) return;
+    lastCameraReadRef.current = validation.gtin.lookupCode;
+    if (queueBarcode(validation.gtin.lookupCode, barcode.rawValue)) {
+      if ("vibrate" in navigator) navigator.vibrate([80]);
+      toast({ title: "Barcode Added", description: `Read ${barcode.rawValue}. Scan the next product.` });
+    }
+  };
+
+  const handleAddBarcode = () => {
+    const validation = validateGtin(barcodeInputValue);
+    if (!validation.valid) {
+      setBarcodeValidationError(validation.error);
+      return;
+    }
+    setBarcodeValidationError(null);
+    if (queueBarcode(validation.gtin.lookupCode, barcodeInputValue.trim())) {
+      setBarcodeInputValue("");
+    }
+  };
+
+  const handlePhotoFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsPreparingPhotos(true);
+    let rejected = 0;
+    // One at a time: preparing decodes the full-size photo, and a dozen at once would exhaust a phone's memory.
+    for (const file of files) {
+      try {
+        const prepared = await prepareImageForAnalysis(file);
+        if (prepared.blocked) {
+          rejected++;
+          continue;
+        }
+        const thumbnail = await createThumbnail(prepared.dataUri).catch(() => undefined);
+        addPhoto(prepared.dataUri, thumbnail);
+      } catch (err) {
+        console.warn("Could not prepare batch photo:", err);
+        rejected++;
+      }
+    }
+    setIsPreparingPhotos(false);
+    if (rejected > 0) {
+      toast({
+        variant: "destructive",
+        title: rejected === 1 ? "Photo Not Usable" : `${rejected} Photos Not Usable`,
+        description: "Photos that are blank, or could not be read, were left out. Take them again in good light.",
+      });
+    }
+  };
+
+  const exportName = () => `aahar-batch-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleExportCsv = () => {
+    downloadFile(`${exportName()}.csv`, batchToCsv(rows), "text/csv;charset=utf-8");
+  };
+
+  const handleExportJson = () => {
+    downloadFile(`${exportName()}.json`, batchToJson(rows, items), "application/json");
+  };
+
+  const handleClear = () => {
+    clear();
+    lastCameraReadRef.current = null;
+    setIsScanningBarcodes(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <input type="file" ref={cameraInputRef} onChange={handlePhotoFiles} accept="image/*" capture="environment" className="hidden" />
+      <input type="file" ref={photoInputRef} onChange={handlePhotoFiles} accept="image/*" multiple className="hidden" />
+
+      <section className="space-y-4">
+        <p className="text-muted-foreground">Scan your groceries one after another. Each barcode or photo is analyzed in the background while you carry on, and the summary below ranks what needs a second look.</p>
+        {isScanningBarcodes && <BarcodeCameraScanner active={active} onDetected={handleBarcodeDetected} continuous />}
+        <div className="flex flex-col sm:flex-row flex-wrap justify-center gap-2">
+          <Button variant={isScanningBarcodes ? "default" : "outline"} onClick={() => setIsScanningBarcodes(scanning => !scanning)} className="cursor-target">
+            <ScanLine className="mr-2 h-4 w-4" /> {isScanningBarcodes ? "Stop Barcode Camera" : "Scan Barcodes"}
+          </Button>
+          <Button variant="outline" onClick={() => cameraInputRef.current?.click()} disabled={isPreparingPhotos} className="cursor-target">
+            <Camera className="mr-2 h-4 w-4" /> Take Photo
+          </Button>
+          <Button variant="outline" onClick={() => photoInputRef.current?.click()} disabled={isPreparingPhotos} className="cursor-target">
+            {isPreparingPhotos ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImagePlus className="mr-2 h-4 w-4" />} Add Photos
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            placeholder="Or type a barcode number"
+            value={barcodeInputValue}
+            onChange={(e) => {
+              setBarcodeInputValue(e.target.value);
+              setBarcodeValidationError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && barcodeInputValue.trim()) handleAddBarcode();
+            }}
+            inputMode="numeric"
+            aria-invalid={barcodeValidationError !== null}
+            aria-describedby={barcodeValidationError ? "batch-barcode-validation-error" : undefined}
+            className="flex-grow cursor-target"
+          />
+          <Button onClick={handleAddBarcode} disabled={!barcodeInputValue.trim()} className="cursor-target">
+            <Plus className="mr-2 h-4 w-4" /> Add
+          </Button>
+        </div>
+        {barcodeValidationError && (
+          <p id="batch-barcode-validation-error" role="alert" className="text-sm text-red-400 flex items-center gap-2">
+            <AlertCircle size={16} /> {barcodeValidationError}
+          </p>
+        )}
+      </section>
+
+      {items.length > 0 && (
+        <section className="border-t border-border/50 pt-4 space-y-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2 text-foreground/90"><ListChecks size={20} className="text-accent" />Queue</h3>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-sm">
+              <span>{doneCount} of {items.length} analyzed</span>
+              {pendingCount > 0 && <span className="text-muted-foreground">Keep scanning; analysis runs in the background.</span>}
+            </div>
+            <Progress value={(doneCount / items.length) * 100} className="h-2" />
+          </div>
+          {unfinished.length > 0 && (
+            <ul className="space-y-2">
+              {unfinished.map(item => (
+                <li key={item.id} className="flex items-center gap-3 rounded-md border border-border/50 bg-background/30 p-2">
+                  <Thumbnail item={item} />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{item.title}</p>
+                    <p className={`text-xs flex items-center gap-1.5 ${item.status === "failed" ? "text-red-400" : "text-muted-foreground"}`}>
+                      {item.status === "analyzing" && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {STATUS_LABELS[item.status]}
+                      {item.error && <span className="truncate">— {item.error}</span>}
+                    </p>
+                  </div>
+                  {item.status === "failed" && (
+                    <Button variant="ghost" size="icon" onClick={() => retry(item.id)} className="cursor-target" title="Try again">
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={() => remove(item.id)} className="cursor-target text-muted-foreground hover:text-destructive" title="Remove from batch">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {rows.length > 0 && (
+        <section className="border-t border-border/50 pt-4 space-y-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2 text-foreground/90"><ListOrdered size={20} className="text-accent" />Summary</h3>
+          <p className="text-sm text-muted-foreground">Ranked by edibility and your dietary profile first, then by allergens and concerns.</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">#</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Verdict</TableHead>
+                <TableHead>Profile</TableHead>
+                <TableHead>Allergens</TableHead>
+                <TableHead>Concerns</TableHead>
+                <TableHead className="w-10"><span className="sr-only">Remove</span></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={row.item.id}>
+                  <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2 min-w-[10rem]">
+                      <Thumbnail item={row.item} />
+                      <span className="font-medium">{row.item.title}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1.5">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${ATTENTION_STYLES[row.attention].className}`}>{ATTENTION_STYLES[row.attention].label}</span>
+                      {row.edibility && <EdibilityBadge status={row.edibility} />}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs">{row.verdict ? (row.verdict.status === "clear" ? "No conflicts" : row.verdict.findings.map(finding => finding.label).join("; ")) : "—"}</TableCell>
+                  <TableCell className="text-xs">{row.allergens.length > 0 ? row.allergens.join(", ") : "—"}</TableCell>
+                  <TableCell className="text-xs">{row.concerns.length > 0 ? row.concerns.join("; ") : "—"}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => remove(row.item.id)} className="cursor-target text-muted-foreground hover:text-destructive" title="Remove from batch">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+
+      {items.length > 0 && (
+        <div className="flex flex-col sm:flex-row flex-wrap justify-center gap-2 border-t border-border/50 pt-4">
+          <Button variant="outline" onClick={handleExportCsv} disabled={rows.length === 0} className="cursor-target">
+            <Download className="mr-2 h-4 w-4" /> Export CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportJson} className="cursor-target">
+            <FileJson className="mr-2 h-4 w-4" /> Export JSON
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="cursor-target text-destructive hover:text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" /> Clear Batch
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear this batch?</AlertDialogTitle>
+                <AlertDialogDescription>The queue and summary are emptied. Items already analyzed stay in your scan history; items still waiting are not analyzed.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClear}>Clear</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import type { CameraCapabilities, CameraDevice, CameraSettings } from "@/lib/camera";
+import { Camera, Flashlight, FlashlightOff, Focus, SunMedium, ZoomIn } from "lucide-react";
+
+const FOCUS_MODE_LABELS: Record<string, string> = {
+  continuous: "Continuous autofocus",
+  "single-shot": "Focus once, then lock",
+  manual: "Fixed focus",
+};
+
+interface CameraControlsProps {
+  cameras: CameraDevice[];
+  activeDeviceId: string | null;
+  capabilities: CameraCapabilities;
+  settings: CameraSettings;
+  onSelectDevice: (deviceId: string) => void;
+  onChange: (changes: CameraSettings) => void;
+}
+
+/**
+ * The controls the open camera supports. Browsers without the Image Capture
+ * extensions report none, and only the camera picker (when there is more than one) is shown.
+ */
+export default function CameraControls({ cameras, activeDeviceId, capabilities, settings, onSelectDevice, onChange }: CameraControlsProps) {
+  const { zoom, exposureCompensation } = capabilities;
+  const focusModes = capabilities.focusModes.filter(mode => mode in FOCUS_MODE_LABELS);
+  const hasControls = cameras.length > 1 || capabilities.torch || zoom || exposureCompensation || focusModes.length > 1;
+  if (!hasControls) return null;
+
+  return (
+    <div className="w-full max-w-md grid gap-3 rounded-lg border border-border/50 bg-background/30 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {cameras.length > 1 && (
+          <Select value={activeDeviceId ?? undefined} onValueChange={onSelectDevice}>
+            <SelectTrigger className="cursor-target flex-1 min-w-[10rem]" aria-label="Camera">
+              <Camera className="mr-2 h-4 w-4 shrink-0" /><SelectValue placeholder="Choose camera" />
+            </SelectTrigger>
+            <SelectContent>
+              {cameras.map((camera, index) => (
+                <SelectItem key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${index + 1}`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {capabilities.torch && (
+          <Button
+            variant={settings.torch ? "default" : "outline"}
+            size="sm"
+            onClick={() => onChange({ torch: !settings.torch })}
+            aria-pressed={Boolean(settings.torch)}
+            className="cursor-target"
+          >
+            {settings.torch ? <Flashlight className="mr-2 h-4 w-4" /> : <FlashlightOff className="mr-2 h-4 w-4" />}
+            Torch
+          </Button>
+        )}
+      </div>
+      {zoom && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-sm"><Label className="flex items-center gap-1.5"><ZoomIn size={14} />Zoom</Label><span className="text-muted-foreground">{(settings.zoom ?? zoom.min).toFixed(1)}×</span></div>
+          <Slider min={zoom.min} max={zoom.max} step={zoom.step} value={[settings.zoom ?? zoom.min]} onValueChange={([value]) => onChange({ zoom: value })} className="cursor-target" aria-label="Zoom" />
+        </div>
+      )}
+      {exposureCompensation && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-sm"><Label className="flex items-center gap-1.5"><SunMedium size={14} />Brightness</Label><span className="text-muted-foreground">{(settings.exposureCompensation ?? 0).toFixed(1)} EV</span></div>
+          <Slider min={exposureCompensation.min} max={exposureCompensation.max} step={exposureCompensation.step} value={[settings.exposureCompensation ?? 0]} onValueChange={([value]) => onChange({ exposureCompensation: value })} className="cursor-target" aria-label="Brightness" />
+        </div>
+      )}
+      {focusModes.length > 1 && (
+        <Select value={settings.focusMode ?? (focusModes.includes("continuous") ? "continuous" : focusModes[0])} onValueChange={focusMode => onChange({ focusMode })}>
+          <SelectTrigger className="cursor-target" aria-label="Focus">
+            <Focus className="mr-2 h-4 w-4 shrink-0" /><SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {focusModes.map(mode => <SelectItem key={mode} value={mode}>{FOCUS_MODE_LABELS[mode]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      )}
+      {capabilities.pointsOfInterest && <p className="text-xs text-muted-foreground">Tap the preview to focus on a spot.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import type { DetectedFoodItem } from "@/ai/flows/analyze-food-item";
+
+interface DetectedItemsOverlayProps {
+  src: string;
+  alt: string;
+  items: DetectedFoodItem[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * The scanned photo with a tappable box over every detected item, plus a button row for items the model could not place.
+ * Visible defects on the selected item are outlined and numbered in the order FreshnessDetails lists them.
+ */
+export default function DetectedItemsOverlay({ src, alt, items, selectedIndex, onSelect }: DetectedItemsOverlayProps) {
+  const label = (item: DetectedFoodItem, index: number) => `${index + 1}. ${item.identification.name || "Food item"}`;
+  const defectRegions = (items[selectedIndex]?.freshness?.defects ?? []).filter(defect => defect.region);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {/* The wrapper shrinks to the rendered image so the percentage-based boxes line up with it. */}
+      <div className="relative inline-block">
+        <Image
+          src={src}
+          alt={alt}
+          width={300}
+          height={300}
+          className="block rounded-md w-auto h-auto max-w-full max-h-[300px] shadow-xl border border-border"
+        />
+        {items.map((item, index) => {
+          const box = item.boundingBox;
+          if (!box || items.length < 2) return null;
+          const isSelected = index === selectedIndex;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(index)}
+              aria-pressed={isSelected}
+              title={label(item, index)}
+              className={`cursor-target absolute rounded-sm border-2 transition-colors ${isSelected ? "z-10 border-accent bg-accent/15" : "border-primary/80 hover:bg-primary/15"}`}
+              style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+            >
+              <span className={`absolute left-0 top-0 max-w-full truncate rounded-br px-1.5 py-0.5 text-xs font-semibold ${isSelected ? "bg-accent text-accent-foreground" : "bg-primary text-primary-foreground"}`}>
+                {index + 1}
+              </span>
+            </button>
+          );
+        })}
+        {defectRegions.map((defect, index) => defect.region && (
+          <div
+            key={`defect-${index}`}
+            className="pointer-events-none absolute z-20 rounded-sm border-2 border-dashed border-red-400"
+            style={{ left: `${defect.region.x * 100}%`, top: `${defect.region.y * 100}%`, width: `${defect.region.width * 100}%`, height: `${defect.region.height * 100}%` }}
+          >
+            <span className="absolute right-0 top-0 rounded-bl bg-red-500 px-1 text-[10px] font-semibold text-white">{index + 1}</span>
+          </div>
+        ))}
+      </div>
+      {items.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {items.map((item, index) => (
+            <Button
+              key={index}
+              size="sm"
+              variant={index === selectedIndex ? "default" : "outline"}
+              onClick={() => onSelect(index)}
+              className="cursor-target"
+            >
+              {label(item, index)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { DetectedFoodItem } from "@/ai/flows/analyze-food-item";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+
+const EdibilityBadge: React.FC<{ status: DetectedFoodItem["edibility"] }> = ({ status }) => {
+  if (!status) return null;
+  let badgeClasses = "inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-semibold shadow-md ";
+  let IconComponent = ShieldCheck;
+
+  switch (status) {
+    case "Safe to Eat":
+      badgeClasses += "bg-green-500/20 text-green-300 border border-green-500/50";
+      IconComponent = ShieldCheck;
+      break;
+    case "Wash & Eat":
+      badgeClasses += "bg-yellow-500/20 text-yellow-300 border border-yellow-500/50";
+      IconComponent = ShieldAlert;
+      break;
+    case "Unsafe":
+      badgeClasses += "bg-red-500/20 text-red-300 border border-red-500/50";
+      IconComponent = ShieldX;
+      break;
+    default:
+      return null;
+  }
+
+  return (
+    <span className={badgeClasses}>
+      <IconComponent size={18} /> {status}
+    </span>
+  );
+};
+
+export default EdibilityBadge;
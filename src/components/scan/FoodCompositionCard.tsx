@@ -0,0 +1,82 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Apple } from "lucide-react";
+import type { CompositionProfile, FoodComposition } from "@/ai/schemas/composition";
+import ProvenanceTag from "./ProvenanceTag";
+
+const NUTRIENT_ROWS: { key: keyof CompositionProfile; label: string; unit: string; indent?: boolean }[] = [
+  { key: "energyKcal", label: "Energy", unit: "kcal" },
+  { key: "water", label: "Water", unit: "g" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "carbohydrates", label: "Carbohydrate", unit: "g" },
+  { key: "sugars", label: "of which sugars", unit: "g", indent: true },
+  { key: "fiber", label: "Fibre", unit: "g" },
+];
+
+const MICRONUTRIENT_ROWS: { key: keyof CompositionProfile; label: string; unit: string }[] = [
+  { key: "vitaminC", label: "Vitamin C", unit: "mg" },
+  { key: "vitaminA", label: "Vitamin A (RAE)", unit: "µg" },
+  { key: "folate", label: "Folate (DFE)", unit: "µg" },
+  { key: "vitaminB6", label: "Vitamin B6", unit: "mg" },
+  { key: "potassium", label: "Potassium", unit: "mg" },
+  { key: "magnesium", label: "Magnesium", unit: "mg" },
+  { key: "calcium", label: "Calcium", unit: "mg" },
+  { key: "iron", label: "Iron", unit: "mg" },
+  { key: "zinc", label: "Zinc", unit: "mg" },
+  { key: "sodium", label: "Sodium", unit: "mg" },
+];
+
+function formatAmount(value: number, unit: string): string {
+  const rounded = value < 1 ? value.toFixed(2) : value < 10 ? value.toFixed(1) : value.toFixed(0);
+  // Drop trailing decimal zeros ("2.50" -> "2.5", "3.0" -> "3").
+  return `${rounded.includes(".") ? rounded.replace(/\.?0+$/, "") : rounded} ${unit}`;
+}
+
+interface FoodCompositionCardProps {
+  composition?: FoodComposition;
+  tableVersion?: string;
+}
+
+/** The full nutrient profile of the food composition table entry an item matched. */
+export default function FoodCompositionCard({ composition, tableVersion }: FoodCompositionCardProps) {
+  if (!composition) return null;
+  const { match, per100g } = composition;
+
+  return (
+    <div className="border-t border-border/50 pt-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Apple size={20} className="text-accent" />Nutrients per 100 g<ProvenanceTag provenance="reference-database" /></h3>
+      <p className="text-xs text-muted-foreground mb-2">
+        Typical values for &quot;{match.sourceDescription}&quot; from{" "}
+        {match.sourceUrl ? <a href={match.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-primary">{match.source}</a> : match.source}
+        , matched on the name &quot;{match.matchedOn}&quot;{tableVersion ? ` (table version ${tableVersion})` : ""}. This item was not measured.
+      </p>
+      <div className="rounded-md border border-border/40 bg-background/40">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nutrient</TableHead>
+              <TableHead className="text-right">Per 100 g</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {NUTRIENT_ROWS.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className={row.indent ? "pl-8 text-muted-foreground" : "font-medium"}>{row.label}</TableCell>
+                <TableCell className="text-right">{formatAmount(per100g[row.key], row.unit)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell colSpan={2} className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Vitamins &amp; minerals</TableCell>
+            </TableRow>
+            {MICRONUTRIENT_ROWS.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{formatAmount(per100g[row.key], row.unit)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Refrigerator, Thermometer } from "lucide-react";
+import type { DetectedFoodItem, FreshnessAssessment, FreshnessDefect } from "@/ai/flows/analyze-food-item";
+import { provenanceOf } from "@/lib/provenance";
+import ProvenanceTag from "./ProvenanceTag";
+
+const RIPENESS_LABELS: Record<NonNullable<FreshnessAssessment["ripeness"]>, string> = {
+  unripe: "Unripe",
+  ripe: "Ripe",
+  overripe: "Overripe",
+  "not-applicable": "",
+};
+
+const CONDITION_CLASSES: Record<NonNullable<FreshnessAssessment["condition"]>, string> = {
+  fresh: "bg-green-500/15 text-green-300 border-green-500/40",
+  aging: "bg-yellow-500/15 text-yellow-300 border-yellow-500/40",
+  spoiled: "bg-red-500/15 text-red-300 border-red-500/40",
+};
+
+const SEVERITY_CLASSES: Record<FreshnessDefect["severity"], string> = {
+  minor: "bg-muted text-muted-foreground border-border",
+  moderate: "bg-yellow-500/15 text-yellow-300 border-yellow-500/40",
+  severe: "bg-red-500/15 text-red-300 border-red-500/40",
+};
+
+const DEFECT_LABELS: Record<FreshnessDefect["kind"], string> = {
+  mold: "Mold",
+  bruising: "Bruising",
+  discoloration: "Discoloration",
+  "soft-spot": "Soft spot",
+  wilting: "Wilting",
+  sliminess: "Sliminess",
+  "insect-damage": "Insect damage",
+  other: "Defect",
+};
+
+function formatDays(days: number): string {
+  if (days === 0) return "eat today";
+  return `about ${days} day${days === 1 ? "" : "s"}`;
+}
+
+/**
+ * The reasons behind an item's edibility verdict and its freshness findings.
+ * Defects with a region are numbered the same way as their highlights on the photo.
+ */
+export default function FreshnessDetails({ item }: { item: DetectedFoodItem }) {
+  const { edibilityReasoning, freshness } = item;
+  if (!edibilityReasoning?.length && !freshness) return null;
+  const ripeness = freshness?.ripeness ? RIPENESS_LABELS[freshness.ripeness] : "";
+  const shelfLife = freshness?.shelfLife;
+  const defects = freshness?.defects ?? [];
+  const regionNumber = (index: number) => defects.slice(0, index + 1).filter(defect => defect.region).length;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {edibilityReasoning && edibilityReasoning.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-muted-foreground">
+          {edibilityReasoning.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+      {freshness && (
+        <>
+          {(ripeness || freshness.condition) && (
+            <div className="flex flex-wrap items-center gap-2">
+              {ripeness && <span className="px-2 py-0.5 rounded-full border text-xs font-semibold bg-primary/15 text-primary border-primary/40">{ripeness}</span>}
+              {freshness.condition && (
+                <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold capitalize ${CONDITION_CLASSES[freshness.condition]}`}>{freshness.condition}</span>
+              )}
+              <ProvenanceTag provenance={provenanceOf(item, "freshness")} />
+            </div>
+          )}
+          {defects.length > 0 && (
+            <ul className="space-y-1.5">
+              {defects.map((defect, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full border text-xs font-semibold ${SEVERITY_CLASSES[defect.severity]}`}>
+                    {defect.region && `${regionNumber(index)}. `}{DEFECT_LABELS[defect.kind]}
+                  </span>
+                  <span className="text-muted-foreground">{defect.description}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {shelfLife && (shelfLife.roomTemperatureDays !== undefined || shelfLife.refrigeratedDays !== undefined) && (
+            <div className="text-muted-foreground space-y-0.5">
+              <p className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                {shelfLife.roomTemperatureDays !== undefined && (
+                  <span className="flex items-center gap-1.5"><Thermometer size={16} className="text-orange-400" />Room temperature: <span className="font-medium text-foreground/80">{formatDays(shelfLife.roomTemperatureDays)}</span></span>
+                )}
+                {shelfLife.refrigeratedDays !== undefined && (
+                  <span className="flex items-center gap-1.5"><Refrigerator size={16} className="text-blue-400" />Fridge: <span className="font-medium text-foreground/80">{formatDays(shelfLife.refrigeratedDays)}</span></span>
+                )}
+              </p>
+              {shelfLife.storageTip && <p className="text-xs">{shelfLife.storageTip}</p>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
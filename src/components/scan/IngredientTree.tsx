@@ -0,0 +1,66 @@
+import { ListChecks } from "lucide-react";
+import type { IngredientNode } from "@/ai/schemas/ingredients";
+
+const QUALIFIER_LABELS = { min: "min. ", max: "max. ", approx: "~", "less-than": "<" } as const;
+
+function PercentBadge({ node }: { node: IngredientNode }) {
+  if (node.percent === undefined) return null;
+  return (
+    <span className="ml-1.5 px-1.5 py-0.5 rounded bg-primary/15 text-primary text-xs font-semibold">
+      {node.percentQualifier ? QUALIFIER_LABELS[node.percentQualifier] : ""}{node.percent}%
+    </span>
+  );
+}
+
+/** Highlights the allergen terms the label emphasized inside `name`. */
+function HighlightedName({ name, allergens }: { name: string; allergens?: string[] }) {
+  if (!allergens || allergens.length === 0) return <>{name}</>;
+  const pattern = new RegExp(`(${allergens.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  return (
+    <>
+      {name.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <strong key={index} className="font-semibold text-yellow-300">{part}</strong>
+          : <span key={index}>{part}</span>
+      )}
+    </>
+  );
+}
+
+function IngredientList({ nodes, nested = false }: { nodes: IngredientNode[]; nested?: boolean }) {
+  return (
+    <ul className={nested ? "ml-4 mt-1 space-y-0.5 border-l border-border/40 pl-3" : "space-y-1"}>
+      {nodes.map((node, index) => (
+        <li key={`${node.name}-${index}`}>
+          <HighlightedName name={node.name} allergens={node.allergens} />
+          {node.code && node.code !== node.name && <span className="ml-1.5 text-xs text-muted-foreground/80">({node.code})</span>}
+          <PercentBadge node={node} />
+          {node.ingredients && node.ingredients.length > 0 && <IngredientList nodes={node.ingredients} nested />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface IngredientTreeProps {
+  ingredients?: IngredientNode[];
+  mayContain?: string[];
+}
+
+export default function IngredientTree({ ingredients, mayContain }: IngredientTreeProps) {
+  if (!ingredients || ingredients.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><ListChecks size={20} className="text-accent" />Ingredients</h3>
+      <div className="text-sm text-muted-foreground bg-background/40 p-3 rounded-md border border-border/40">
+        <IngredientList nodes={ingredients} />
+        {mayContain && mayContain.length > 0 && (
+          <p className="mt-2 pt-2 border-t border-border/40 text-yellow-300/90">
+            <span className="font-semibold">May contain:</span> {mayContain.join(", ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Apple } from "lucide-react";
+import type { NutrientValues, Nutriments, NutritionGrade } from "@/ai/schemas/nutrition";
+
+const GRADE_CLASSES: Record<NutritionGrade, string> = {
+  a: "bg-green-600 text-white",
+  b: "bg-lime-500 text-black",
+  c: "bg-yellow-400 text-black",
+  d: "bg-orange-500 text-white",
+  e: "bg-red-600 text-white",
+};
+
+const NOVA_LABELS: Record<number, string> = {
+  1: "Unprocessed or minimally processed",
+  2: "Processed culinary ingredient",
+  3: "Processed food",
+  4: "Ultra-processed food",
+};
+
+const NUTRIENT_ROWS: { key: keyof NutrientValues; label: string; unit: string; indent?: boolean }[] = [
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "saturatedFat", label: "of which saturates", unit: "g", indent: true },
+  { key: "carbohydrates", label: "Carbohydrate", unit: "g" },
+  { key: "sugars", label: "of which sugars", unit: "g", indent: true },
+  { key: "fiber", label: "Fibre", unit: "g" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "salt", label: "Salt", unit: "g" },
+];
+
+function formatAmount(value: number | undefined, unit: string): string {
+  if (value === undefined) return "—";
+  const rounded = value < 1 ? value.toFixed(2) : value < 10 ? value.toFixed(1) : value.toFixed(0);
+  // Drop trailing decimal zeros ("2.50" -> "2.5", "3.0" -> "3").
+  return `${rounded.includes(".") ? rounded.replace(/\.?0+$/, "") : rounded} ${unit}`;
+}
+
+function formatEnergy(values: NutrientValues | undefined): string {
+  if (!values || (values.energyKcal === undefined && values.energyKj === undefined)) return "—";
+  const parts = [];
+  if (values.energyKj !== undefined) parts.push(`${Math.round(values.energyKj)} kJ`);
+  if (values.energyKcal !== undefined) parts.push(`${Math.round(values.energyKcal)} kcal`);
+  return parts.join(" / ");
+}
+
+const GradeBadge: React.FC<{ label: string; grade: NutritionGrade }> = ({ label, grade }) => (
+  <span className="inline-flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+    {label}
+    <span className={`inline-flex h-6 w-6 items-center justify-center rounded-md text-sm font-bold uppercase shadow ${GRADE_CLASSES[grade]}`}>
+      {grade}
+    </span>
+  </span>
+);
+
+interface NutritionLabelCardProps {
+  nutriments?: Nutriments;
+  nutriScoreGrade?: NutritionGrade;
+  novaGroup?: number;
+  ecoScoreGrade?: NutritionGrade;
+}
+
+export default function NutritionLabelCard({ nutriments, nutriScoreGrade, novaGroup, ecoScoreGrade }: NutritionLabelCardProps) {
+  const hasScores = nutriScoreGrade || novaGroup || ecoScoreGrade;
+  if (!nutriments && !hasScores) return null;
+
+  const { per100g, perServing, servingSize } = nutriments ?? {};
+
+  return (
+    <div className="border-t border-border/50 pt-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-2 text-foreground/90"><Apple size={20} className="text-accent" />Nutrition Facts</h3>
+      {hasScores && (
+        <div className="flex flex-wrap items-center gap-4 mb-3">
+          {nutriScoreGrade && <GradeBadge label="Nutri-Score" grade={nutriScoreGrade} />}
+          {ecoScoreGrade && <GradeBadge label="Eco-Score" grade={ecoScoreGrade} />}
+          {novaGroup && (
+            <span className="inline-flex items-center gap-1.5 text-xs font-medium text-muted-foreground" title={NOVA_LABELS[novaGroup]}>
+              NOVA
+              <span className="inline-flex h-6 w-6 items-center justify-center rounded-md text-sm font-bold bg-muted text-foreground shadow">{novaGroup}</span>
+              <span className="hidden sm:inline">{NOVA_LABELS[novaGroup]}</span>
+            </span>
+          )}
+        </div>
+      )}
+      {(per100g || perServing) && (
+        <div className="rounded-md border border-border/40 bg-background/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nutrient</TableHead>
+                {per100g && <TableHead className="text-right">Per 100 g</TableHead>}
+                {perServing && <TableHead className="text-right">Per serving{servingSize ? ` (${servingSize})` : ""}</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">Energy</TableCell>
+                {per100g && <TableCell className="text-right">{formatEnergy(per100g)}</TableCell>}
+                {perServing && <TableCell className="text-right">{formatEnergy(perServing)}</TableCell>}
+              </TableRow>
+              {NUTRIENT_ROWS.filter(row => per100g?.[row.key] !== undefined || perServing?.[row.key] !== undefined).map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className={row.indent ? "pl-8 text-muted-foreground" : "font-medium"}>{row.label}</TableCell>
+                  {per100g && <TableCell className="text-right">{formatAmount(per100g[row.key], row.unit)}</TableCell>}
+                  {perServing && <TableCell className="text-right">{formatAmount(perServing[row.key], row.unit)}</TableCell>}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
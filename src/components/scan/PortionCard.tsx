@@ -0,0 +1,82 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Scale } from "lucide-react";
+import type { DetectedFoodItem } from "@/ai/flows/analyze-food-item";
+import { scaleComposition } from "@/lib/composition";
+import { provenanceOf } from "@/lib/provenance";
+import ProvenanceTag from "./ProvenanceTag";
+
+function formatAmount(value: number, unit: string): string {
+  const rounded = value < 1 ? value.toFixed(2) : value < 10 ? value.toFixed(1) : value.toFixed(0);
+  // Drop trailing decimal zeros ("2.50" -> "2.5", "3.0" -> "3").
+  return `${rounded.includes(".") ? rounded.replace(/\.?0+$/, "") : rounded} ${unit}`;
+}
+
+/** "3 × banana · about 360 g", from whichever of the count and weight were estimated. */
+function describePortion(portion: NonNullable<DetectedFoodItem["portion"]>): string {
+  return [
+    portion.count !== undefined ? `${portion.count} × ${portion.unit || "piece"}` : "",
+    portion.estimatedWeightGrams !== undefined ? `about ${portion.estimatedWeightGrams} g` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+/** The estimated amount of an item in the photo, and what that amount contains in absolute terms. */
+export default function PortionCard({ item }: { item: DetectedFoodItem }) {
+  const { portion, composition, components } = item;
+  if (!portion) return null;
+  const grams = portion.estimatedWeightGrams;
+
+  // Composition table values give the full profile; otherwise only the item's percentages can be scaled.
+  const rows: { label: string; value: string; indent?: boolean }[] = [];
+  if (grams !== undefined && composition) {
+    const amounts = scaleComposition(composition.per100g, grams);
+    rows.push(
+      { label: "Energy", value: `${Math.round(amounts.energyKcal)} kcal` },
+      { label: "Protein", value: formatAmount(amounts.protein, "g") },
+      { label: "Fat", value: formatAmount(amounts.fat, "g") },
+      { label: "Carbohydrate", value: formatAmount(amounts.carbohydrates, "g") },
+      { label: "of which sugars", value: formatAmount(amounts.sugars, "g"), indent: true },
+      { label: "Fibre", value: formatAmount(amounts.fiber, "g") },
+    );
+  } else if (grams !== undefined && components) {
+    const share = (percentage: number | undefined, label: string) => {
+      if (percentage !== undefined) rows.push({ label, value: formatAmount((grams * percentage) / 100, "g") });
+    };
+    share(components.waterPercentage, "Water");
+    share(components.sugarPercentage, "Sugar");
+    share(components.fiberPercentage, "Fibre");
+  }
+
+  return (
+    <div className="border-t border-border/50 pt-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Scale size={20} className="text-accent" />Portion<ProvenanceTag provenance={provenanceOf(item, "portion")} /></h3>
+      <p className="text-base font-medium text-foreground/85">{describePortion(portion)}</p>
+      <p className="text-xs text-muted-foreground mb-2">
+        {portion.referenceObject ? `Scale judged against the ${portion.referenceObject} in the photo.` : "No reference object in frame, so the weight is judged from typical sizes. Place a coin or card next to the food for a closer estimate."}
+        {portion.reasoning ? ` ${portion.reasoning}` : ""}
+      </p>
+      {rows.length > 0 && (
+        <div className="rounded-md border border-border/40 bg-background/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nutrient</TableHead>
+                <TableHead className="text-right">In this portion</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell className={row.indent ? "pl-8 text-muted-foreground" : "font-medium"}>{row.label}</TableCell>
+                  <TableCell className="text-right">{row.value}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      {grams !== undefined && !composition && components && (
+        <p className="text-xs text-muted-foreground mt-2">Calories are shown only for foods in the composition table.</p>
+      )}
+    </div>
+  );
+}
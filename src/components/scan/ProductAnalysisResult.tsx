@@ -0,0 +1,192 @@
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, AlertTriangle, Building, Image as ImageIcon, Info, Mic, Sparkles, Tag } from "lucide-react";
+import ElectricBorder from "../ui/electric-border";
+import NutritionLabelCard from "./NutritionLabelCard";
+import AdditiveFindings from "./AdditiveFindings";
+import IngredientTree from "./IngredientTree";
+import ProfileVerdictBanner from "./ProfileVerdictBanner";
+import type { AnalyzeBarcodeOutput } from "@/ai/flows/analyze-barcode-flow";
+import type { ProfileVerdict } from "@/lib/profile";
+
+type ProductSource = "barcode" | "label";
+
+const COPY: Record<ProductSource, { disclaimerTitle: string; dataNote: (result: AnalyzeBarcodeOutput) => string; notFoundTitle: string; scanNew: string }> = {
+  barcode: {
+    disclaimerTitle: "Product Analysis (Barcode)",
+    dataNote: result => `Product information is fetched from ${result.source || "Open Food Facts"}.`,
+    notFoundTitle: "Product Not Found",
+    scanNew: "Scan New Barcode",
+  },
+  label: {
+    disclaimerTitle: "Product Analysis (Label Photo)",
+    dataNote: () => "Product information is read from your photo of the label by AI and may contain reading mistakes; check it against the label.",
+    notFoundTitle: "Label Not Readable",
+    scanNew: "Scan New Label",
+  },
+};
+
+interface ProductAnalysisResultProps {
+  kind: ProductSource;
+  result: AnalyzeBarcodeOutput;
+  verdict: ProfileVerdict | null;
+  /** Shown when the product was not found and the result carries no explanation of its own. */
+  notFoundMessage: string;
+  /** The label photo, shown when the product has no image of its own. */
+  photo?: string;
+  onSpeak: () => void;
+  onScanNew: () => void;
+}
+
+/** The result of a barcode lookup or a label photo, which share one shape. */
+export default function ProductAnalysisResult({ kind, result, verdict, notFoundMessage, photo, onSpeak, onScanNew }: ProductAnalysisResultProps) {
+  const image = result.imageUrl || photo;
+
+  return (
+    <>
+      <Alert variant="default" className="mt-6 mb-4 bg-muted/30 border-muted/50">
+        <Info className="h-5 w-5 text-primary" />
+        <AlertTitle className="text-foreground font-semibold">{COPY[kind].disclaimerTitle}</AlertTitle>
+        <AlertDescription className="text-muted-foreground">
+          {COPY[kind].dataNote(result)} Additive findings come from a curated, cited database; items labeled "AI commentary" are AI-generated. All results are for informational purposes and may not be 100% accurate. Consult experts for critical decisions.
+        </AlertDescription>
+      </Alert>
+      <ProfileVerdictBanner verdict={verdict} />
+
+      {!result.isFound ? (
+           <ElectricBorder color="hsl(var(--destructive))" chaos={0.8} speed={1.2}>
+              <Card className="bg-card/70 backdrop-blur-sm shadow-xl border border-yellow-500/60 mt-6">
+                  <CardHeader className="border-b border-border/50 pb-4">
+                      <CardTitle className="font-headline text-2xl md:text-3xl text-yellow-300 flex items-center gap-3">
+                          <AlertTriangle size={30} /> {result.validationError ? "Invalid Barcode" : COPY[kind].notFoundTitle}
+                      </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-6">
+                      <p className="text-muted-foreground text-lg">
+                          {result.overallAssessment || notFoundMessage}
+                      </p>
+                      {result.source && <p className="text-sm text-muted-foreground/70 mt-2">Data source: {result.source}</p>}
+                  </CardContent>
+                   <CardFooter className="border-t border-border/50 pt-6">
+                      <Button variant="outline" onClick={onScanNew} className="cursor-target text-base py-2.5 px-6">{COPY[kind].scanNew}</Button>
+                  </CardFooter>
+              </Card>
+           </ElectricBorder>
+      ) : (
+        <ElectricBorder color="hsl(var(--accent))" speed={1} chaos={0.6} thickness={2} style={{ borderRadius: '0.75rem' }}>
+          <Card className="bg-card/70 backdrop-blur-sm shadow-xl mt-6">
+              <CardHeader className="border-b border-border/50 pb-4">
+                   <div className="flex flex-col sm:flex-row gap-4 items-start">
+                      {image ? (
+                          <Image
+                              src={image}
+                              alt={result.productName || "Product Image"}
+                              width={100}
+                              height={100}
+                              className="rounded-md object-contain border border-border shadow-md bg-white"
+                          />
+                      ) : (
+                           <div className="w-[100px] h-[100px] flex items-center justify-center bg-muted/70 rounded-md border border-border shadow-md">
+                              <ImageIcon size={48} className="text-muted-foreground" />
+                          </div>
+                      )}
+                      <div className="flex-1">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <CardTitle className="font-headline text-2xl md:text-3xl text-primary flex items-center gap-2">
+                                <Tag size={30} /> {result.productName || "Product"}
+                            </CardTitle>
+                            {result.brand && <CardDescription className="pt-1 text-base text-muted-foreground flex items-center gap-2"><Building size={16}/>{result.brand}</CardDescription>}
+                          </div>
+                          <Button variant="ghost" size="icon" onClick={onSpeak} title="Read product results aloud" className="cursor-target text-foreground/70 hover:text-primary hover:bg-primary/10">
+                              <Mic className="h-6 w-6" />
+                          </Button>
+                        </div>
+                        {result.source && <CardDescription className="pt-1 text-xs text-muted-foreground/70">Data from: {result.source}</CardDescription>}
+                      </div>
+                  </div>
+              </CardHeader>
+              <CardContent className="space-y-5 p-6">
+                  {result.unreadableParts && result.unreadableParts.length > 0 && (
+                      <Alert className="bg-yellow-500/10 border-yellow-500/50">
+                          <AlertTriangle className="h-5 w-5 text-yellow-400" />
+                          <AlertTitle className="text-yellow-300 font-semibold">Parts of the label could not be read</AlertTitle>
+                          <AlertDescription className="text-muted-foreground">
+                              <ul className="list-disc pl-4 space-y-0.5">
+                                  {result.unreadableParts.map(part => <li key={part}>{part}</li>)}
+                              </ul>
+                              <p className="mt-1">Results below only cover what could be read. Retake the photo closer to the label for the rest.</p>
+                          </AlertDescription>
+                      </Alert>
+                  )}
+                  <IngredientTree ingredients={result.ingredients} mayContain={result.mayContain} />
+                   {result.allergens && result.allergens.length > 0 && (
+                      <div className="border-t border-border/50 pt-4">
+                          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-yellow-400"><AlertCircle size={20} />Declared Allergens</h3>
+                          <ul className="list-disc list-inside ml-1 space-y-1 text-sm text-yellow-300/90 bg-yellow-500/10 p-3 rounded-md border border-yellow-500/30">
+                              {result.allergens.map((allergen, index) => (
+                                  <li key={index}>{allergen}</li>
+                              ))}
+                          </ul>
+                      </div>
+                  )}
+                  <NutritionLabelCard
+                      nutriments={result.nutriments}
+                      nutriScoreGrade={result.nutriScoreGrade}
+                      novaGroup={result.novaGroup}
+                      ecoScoreGrade={result.ecoScoreGrade}
+                  />
+                  <AdditiveFindings additives={result.additives} />
+                  {result.potentialConcerns && result.potentialConcerns.length > 0 && (
+                      <div className="border-t border-border/50 pt-4">
+                          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-red-400"><AlertTriangle size={20} />Potential Concerns</h3>
+                          <div className="space-y-2">
+                          {result.potentialConcerns.map((item, index) => item.origin === "ai-commentary" ? (
+                              <Alert key={index} variant="default" className="bg-muted/20 border-muted/40 border-dashed text-sm">
+                                  <Sparkles className="h-4 w-4 text-accent" />
+                                  <AlertTitle className="font-medium text-foreground/80 flex flex-wrap items-center gap-2">
+                                      {item.concern}
+                                      <span className="text-[10px] uppercase tracking-wide font-semibold px-1.5 py-0.5 rounded bg-accent/20 text-accent">AI commentary</span>
+                                  </AlertTitle>
+                                  {item.details && <AlertDescription className="text-muted-foreground">{item.details}</AlertDescription>}
+                              </Alert>
+                          ) : (
+                              <Alert key={index} variant="destructive" className="bg-destructive/10 border-destructive/30 text-sm">
+                                  <AlertTriangle className="h-4 w-4" />
+                                  <AlertTitle className="font-medium text-red-300 flex flex-wrap items-center gap-2">
+                                      {item.concern}
+                                      {item.origin === "additive-database" && <span className="text-[10px] uppercase tracking-wide font-semibold px-1.5 py-0.5 rounded bg-red-500/20 text-red-300">Additive database</span>}
+                                  </AlertTitle>
+                                  {item.details && <AlertDescription className="text-red-400/80">{item.details}</AlertDescription>}
+                                  {item.citations && item.citations.length > 0 && (
+                                      <ul className="mt-1.5 space-y-0.5 text-xs text-red-300/70">
+                                          {item.citations.map((citation, citationIndex) => (
+                                              <li key={citationIndex}>
+                                                  Source: {citation.url ? <a href={citation.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-red-200">{citation.title}</a> : citation.title}
+                                              </li>
+                                          ))}
+                                      </ul>
+                                  )}
+                              </Alert>
+                          ))}
+                          </div>
+                      </div>
+                  )}
+                   {result.overallAssessment && (
+                      <div className="border-t border-border/50 pt-4">
+                          <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Info size={20} className="text-accent"/>Overall Assessment</h3>
+                          <p className="text-sm text-muted-foreground p-3 bg-muted/20 rounded-md border border-muted/40">{result.overallAssessment}</p>
+                      </div>
+                  )}
+              </CardContent>
+              <CardFooter className="border-t border-border/50 pt-6">
+                  <Button variant="outline" onClick={onScanNew} className="cursor-target text-base py-2.5 px-6 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">{COPY[kind].scanNew}</Button>
+              </CardFooter>
+          </Card>
+        </ElectricBorder>
+      )}
+    </>
+  );
+}
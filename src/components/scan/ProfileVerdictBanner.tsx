@@ -0,0 +1,37 @@
+import Link from "next/link";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { describeVerdict, type ProfileVerdict } from "@/lib/profile";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+
+const STYLES = {
+  conflict: { className: "border-red-500/60 bg-red-500/15 text-red-200", Icon: ShieldX, title: "Conflicts with your profile" },
+  caution: { className: "border-yellow-500/60 bg-yellow-500/10 text-yellow-200", Icon: ShieldAlert, title: "Check against your profile" },
+  clear: { className: "border-green-500/50 bg-green-500/10 text-green-200", Icon: ShieldCheck, title: "Matches your profile" },
+} as const;
+
+export default function ProfileVerdictBanner({ verdict }: { verdict: ProfileVerdict | null }) {
+  if (!verdict) return null;
+  const { className, Icon, title } = STYLES[verdict.status];
+
+  return (
+    <Alert className={`mb-4 shadow-lg ${className}`} role={verdict.status === "conflict" ? "alert" : "status"}>
+      <Icon className="h-5 w-5 !text-current" />
+      <AlertTitle className="text-lg font-bold">{title}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p className="text-base font-semibold">{describeVerdict(verdict)}</p>
+        {verdict.findings.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {verdict.findings.map((finding, index) => (
+              <li key={index}>
+                <span className="font-semibold">{finding.label}.</span> <span className="opacity-80">{finding.reason}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs opacity-70">
+          Based on the label text and your <Link href="/profile" className="underline">dietary profile</Link>. Always read the packaging yourself if you have a severe allergy.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,20 @@
+import { BookOpen, Brain, Eye, FlaskConical } from "lucide-react";
+import { PROVENANCE_LABELS, type Provenance } from "@/lib/provenance";
+
+const STYLES: Record<Provenance, { className: string; Icon: typeof Eye }> = {
+  "observed-in-image": { className: "bg-green-500/15 text-green-300 border-green-500/40", Icon: Eye },
+  "model-inferred": { className: "bg-primary/15 text-primary border-primary/40", Icon: Brain },
+  "reference-database": { className: "bg-blue-500/15 text-blue-300 border-blue-500/40", Icon: BookOpen },
+  simulated: { className: "bg-yellow-500/20 text-yellow-300 border-yellow-500/60", Icon: FlaskConical },
+};
+
+/** A small label saying where a value came from; renders nothing when that is unknown. */
+export default function ProvenanceTag({ provenance }: { provenance?: Provenance }) {
+  if (!provenance) return null;
+  const { className, Icon } = STYLES[provenance];
+  return (
+    <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs font-medium ${className}`}>
+      <Icon size={12} /> {PROVENANCE_LABELS[provenance]}
+    </span>
+  );
+}
@@ -0,0 +1,90 @@
+import { AlertTriangle, Droplets } from "lucide-react";
+import type { ChemicalResidue, DetectionFrequency, WashingEffectiveness } from "@/ai/schemas/residues";
+import ProvenanceTag from "./ProvenanceTag";
+
+const FREQUENCY_CLASSES: Record<DetectionFrequency, string> = {
+  frequent: "bg-red-500/15 text-red-300 border-red-500/40",
+  common: "bg-yellow-500/15 text-yellow-300 border-yellow-500/40",
+  occasional: "bg-green-500/15 text-green-300 border-green-500/40",
+};
+
+const FREQUENCY_LABELS: Record<DetectionFrequency, string> = {
+  frequent: "Found often",
+  common: "Found sometimes",
+  occasional: "Found rarely",
+};
+
+const WASHING_LABELS: Record<WashingEffectiveness, string> = {
+  high: "Washing removes most",
+  moderate: "Washing removes some",
+  low: "Washing removes little",
+};
+
+function formatLimits(limits: ChemicalResidue["maximumResidueLimits"]): string {
+  if (!limits) return "";
+  return [
+    limits.eu !== undefined ? `EU ${limits.eu}` : "",
+    limits.us !== undefined ? `US ${limits.us}` : "",
+    limits.fssai !== undefined ? `FSSAI ${limits.fssai}` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+interface ResidueFindingsProps {
+  residues?: ChemicalResidue[];
+  crop?: string;
+  databaseVersion?: string;
+}
+
+export default function ResidueFindings({ residues, crop, databaseVersion }: ResidueFindingsProps) {
+  if (!residues || residues.length === 0) return null;
+  // Scans saved before the residue database were model estimates with percentages and no reference data.
+  const fromDatabase = residues.some(residue => residue.provenance === "reference-database");
+
+  return (
+    <div className="border-t border-border/50 pt-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-red-400"><AlertTriangle size={20} />Pesticide Residues Commonly Found</h3>
+      {fromDatabase && (
+        <p className="text-xs text-muted-foreground mb-2">
+          What monitoring programmes commonly find on conventionally grown {crop ? crop.toLowerCase() : "produce of this kind"}, from AAHAR&apos;s residue reference database{databaseVersion ? ` (version ${databaseVersion})` : ""}. This item was not tested; limits are in mg/kg.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {residues.map((residue, index) => {
+          const limits = formatLimits(residue.maximumResidueLimits);
+          return (
+            <li key={`${residue.name}-${index}`} className="text-sm bg-red-500/10 p-3 rounded-md border border-red-500/40 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-red-300">{residue.name}</span>
+                {residue.pesticideClass && <span className="text-muted-foreground">{residue.pesticideClass}</span>}
+                {residue.detectionFrequency && (
+                  <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold ${FREQUENCY_CLASSES[residue.detectionFrequency]}`}>{FREQUENCY_LABELS[residue.detectionFrequency]}</span>
+                )}
+                <ProvenanceTag provenance={residue.provenance} />
+              </div>
+              {residue.estimatedPercentage !== undefined && <p className="text-red-400/90">Estimated presence: {residue.estimatedPercentage.toFixed(2)}%</p>}
+              {limits && <p className="text-xs text-muted-foreground">Legal limit: {limits}</p>}
+              {residue.hazardousEffects && <p className="text-red-400/80">{residue.hazardousEffects}</p>}
+              {residue.washingEffectiveness && (
+                <p className="text-muted-foreground flex items-start gap-1.5">
+                  <Droplets size={16} className="mt-0.5 shrink-0 text-blue-400" />
+                  <span><span className="font-medium text-foreground/80">{WASHING_LABELS[residue.washingEffectiveness]}.</span> {residue.washingAdvice}</span>
+                </p>
+              )}
+              {residue.citations && residue.citations.length > 0 && (
+                <p className="text-xs text-muted-foreground/80">
+                  Sources:{" "}
+                  {residue.citations.map((citation, citationIndex) => (
+                    <span key={citation.title}>
+                      {citationIndex > 0 && "; "}
+                      {citation.url ? <a href={citation.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-primary">{citation.title}</a> : citation.title}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
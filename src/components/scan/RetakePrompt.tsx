@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Camera, CheckCircle2 } from "lucide-react";
+import type { NeedsBetterPhoto } from "@/ai/schemas/confidence";
+
+const ISSUE_LABELS: Record<NeedsBetterPhoto["issues"][number], string> = {
+  "too-dark": "Too dark",
+  "too-bright": "Glare or overexposed",
+  blurry: "Blurry",
+  "item-cropped": "Food cut off",
+  "too-far": "Food too small",
+  obstructed: "Food covered",
+  cluttered: "Items overlap",
+};
+
+interface RetakePromptProps {
+  needsBetterPhoto: NeedsBetterPhoto;
+  onRetake: () => void;
+}
+
+/** Shown instead of results when no item in the photo could be identified confidently. */
+export default function RetakePrompt({ needsBetterPhoto, onRetake }: RetakePromptProps) {
+  const { issues, guidance, candidates } = needsBetterPhoto;
+
+  return (
+    <Card className="bg-card/70 backdrop-blur-sm shadow-xl border border-yellow-500/60">
+      <CardHeader className="border-b border-border/50 pb-4">
+        <CardTitle className="font-headline text-2xl md:text-3xl text-yellow-300 flex items-center gap-3">
+          <Camera size={30} /> Needs a Better Photo
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <p className="text-muted-foreground text-lg">
+          {candidates.length > 1
+            ? `We could not tell for sure what this is: it could be ${candidates.slice(0, -1).join(", ")} or ${candidates[candidates.length - 1]}.`
+            : "We could not identify the food in this photo confidently enough to show results."}
+        </p>
+        {issues.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {issues.map(issue => (
+              <span key={issue} className="px-2 py-0.5 rounded-full border text-xs font-semibold bg-yellow-500/15 text-yellow-300 border-yellow-500/40">{ISSUE_LABELS[issue]}</span>
+            ))}
+          </div>
+        )}
+        <ul className="space-y-1.5">
+          {guidance.map(tip => (
+            <li key={tip} className="flex items-start gap-2 text-foreground/85">
+              <CheckCircle2 size={18} className="mt-0.5 shrink-0 text-primary" />{tip}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="border-t border-border/50 pt-6">
+        <Button onClick={onRetake} className="cursor-target text-base py-2.5 px-6 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">
+          <Camera className="mr-2 h-5 w-5" /> Retake Photo
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
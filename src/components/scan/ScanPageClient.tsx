@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useRef, useEffect, type ChangeEvent } from "react";
+import { useState, useRef, useEffect, useMemo, type ChangeEvent, type MouseEvent } from "react";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,102 +9,127 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { analyzeFoodItem, type AnalyzeFoodItemOutput } from "@/ai/flows/analyze-food-item";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { streamFlow } from "@genkit-ai/next/client";
+import type { AnalysisStage, AnalyzeFoodItemOutput, analyzeFoodItemFlow } from "@/ai/flows/analyze-food-item";
 import { analyzeBarcode, type AnalyzeBarcodeOutput } from "@/ai/flows/analyze-barcode-flow";
-import { Camera, AlertTriangle, CheckCircle2, XCircle, ShieldAlert, ShieldCheck, ShieldX, Mic, Percent, Droplets, Waves, Leaf, Package, Microscope, Info, Zap, Upload, Palette, Barcode as BarcodeIcon, Tag, Building, ListChecks, AlertCircle, ScanLine, Image as ImageIcon, Sparkles, HelpCircle, SwitchCamera } from "lucide-react";
+import { analyzeLabel } from "@/ai/flows/analyze-label-flow";
+import { Camera, AlertTriangle, CheckCircle2, XCircle, Mic, Percent, Droplets, Waves, Leaf, Package, Microscope, Info, Zap, Upload, Palette, Barcode as BarcodeIcon, FileText, AlertCircle, ScanLine, Sparkles, HelpCircle, SwitchCamera, ListChecks, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import ElectricBorder from "../ui/electric-border";
+import BarcodeCameraScanner from "./BarcodeCameraScanner";
+import ProfileVerdictBanner from "./ProfileVerdictBanner";
+import EdibilityBadge from "./EdibilityBadge";
+import FreshnessDetails from "./FreshnessDetails";
+import DetectedItemsOverlay from "./DetectedItemsOverlay";
+import ProvenanceTag from "./ProvenanceTag";
+import ResidueFindings from "./ResidueFindings";
+import FoodCompositionCard from "./FoodCompositionCard";
+import PortionCard from "./PortionCard";
+import SimulatedValuesNotice from "./SimulatedValuesNotice";
+import RetakePrompt from "./RetakePrompt";
+import ProductAnalysisResult from "./ProductAnalysisResult";
+import VoiceCommandBar from "./VoiceCommandBar";
+import CameraControls from "./CameraControls";
+import BatchScanPanel from "./BatchScanPanel";
+import type { DecodedBarcode } from "@/lib/barcode/frame-reader";
+import { validateGtin } from "@/lib/barcode/gtin";
+import { prepareImageForAnalysis, QUALITY_ISSUE_MESSAGES, type PreparedImage, type QualityReport } from "@/lib/image-quality";
+import { checkBarcodeResult, checkFoodItemResult } from "@/lib/profile";
+import { foodItemReadout, isSpeaking, productReadout, residuesReadout, retakeReadout, SPEECH_MESSAGES, stopSpeaking } from "@/lib/speech";
+import { framePointAt, openCamera } from "@/lib/camera";
+import { CAPTURE_VIBRATION, FRAMING_CUE_MESSAGES, FRAMING_CUE_VIBRATIONS, type FramingCue } from "@/lib/framing";
+import { createManualRecognizer, type VoiceCommand } from "@/lib/voice-commands";
+import { useSpeech } from "@/hooks/use-speech";
+import { useVoiceCommands } from "@/hooks/use-voice-commands";
+import { useFramingAssistant } from "@/hooks/use-framing-assistant";
+import { useCameraController } from "@/hooks/use-camera-controller";
+import { useBatchSession } from "@/hooks/use-batch-session";
+import { useDietaryProfile } from "@/hooks/use-dietary-profile";
+import { usePreferences } from "@/hooks/use-preferences";
+import type { ScanMode } from "@/lib/preferences";
+import { createThumbnail, recordScan, type NewScan } from "@/lib/history";
+import { hasSimulatedValues, provenanceOf, withoutSimulatedValues } from "@/lib/provenance";
 
-const EdibilityBadge: React.FC<{ status: AnalyzeFoodItemOutput["edibility"] }> = ({ status }) => {
-  if (!status) return null;
-  let badgeClasses = "inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-semibold shadow-md ";
-  let IconComponent = ShieldCheck;
-
-  switch (status) {
-    case "Safe to Eat":
-      badgeClasses += "bg-green-500/20 text-green-300 border border-green-500/50";
-      IconComponent = ShieldCheck;
-      break;
-    case "Wash & Eat":
-      badgeClasses += "bg-yellow-500/20 text-yellow-300 border border-yellow-500/50";
-      IconComponent = ShieldAlert;
-      break;
-    case "Unsafe":
-      badgeClasses += "bg-red-500/20 text-red-300 border border-red-500/50";
-      IconComponent = ShieldX;
-      break;
-    default:
-      return null;
-  }
+// Setting NEXT_PUBLIC_MANUAL_VOICE_COMMANDS=true takes voice commands typed into a box instead of from the microphone.
+const manualRecognizer = process.env.NEXT_PUBLIC_MANUAL_VOICE_COMMANDS === "true" ? createManualRecognizer() : undefined;
 
-  return (
-    <span className={badgeClasses}>
-      <IconComponent size={18} /> {status}
-    </span>
-  );
+const STAGE_MESSAGES: Record<AnalysisStage, string> = {
+  identification: "Item identified. Estimating its components...",
+  components: "Components ready. Looking up pesticide residues...",
+  residues: "Nearly done. Checking the results against more readings of the photo...",
 };
 
-
 export default function ScanPageClient() {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [imageDataUri, setImageDataUri] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalyzeFoodItemOutput | null>(null);
+  const [imageQuality, setImageQuality] = useState<QualityReport | null>(null);
+  const [selectedItemIndex, setSelectedItemIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  // Set while streamed draft results are on screen; the final result clears it.
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | null>(null);
+  const spokenHeadlineRef = useRef<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null); 
   const streamRef = useRef<MediaStream | null>(null);
-  const [currentFacingMode, setCurrentFacingMode] = useState<'user' | 'environment'>('environment');
+  const camera = useCameraController();
+  const { attach: attachCamera, detach: detachCamera } = camera;
+  const [focusPoint, setFocusPoint] = useState<{ left: number; top: number } | null>(null);
 
 
   const [barcodeInputValue, setBarcodeInputValue] = useState<string>("");
   const [barcodeAnalysisResult, setBarcodeAnalysisResult] = useState<AnalyzeBarcodeOutput | null>(null);
   const [isBarcodeLoading, setIsBarcodeLoading] = useState(false);
   const [barcodeError, setBarcodeError] = useState<string | null>(null);
+  const [barcodeValidationError, setBarcodeValidationError] = useState<string | null>(null);
+  const [labelImageDataUri, setLabelImageDataUri] = useState<string | null>(null);
+  const [labelQuality, setLabelQuality] = useState<QualityReport | null>(null);
+  const [labelAnalysisResult, setLabelAnalysisResult] = useState<AnalyzeBarcodeOutput | null>(null);
+  const [isLabelLoading, setIsLabelLoading] = useState(false);
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const labelFileInputRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState("image-scan");
-  const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
-
-
-  const { toast } = useToast();
+  const { profile } = useDietaryProfile();
+  const speech = useSpeech();
+  const { preferences, isLoaded: arePreferencesLoaded, savePreferences } = usePreferences();
+  const hasAppliedPreferences = useRef(false);
+  // Held here rather than in the batch tab, which unmounts when another tab is opened.
+  const batchSession = useBatchSession();
 
+  // Open the tab the user last scanned with, on any of their devices.
   useEffect(() => {
-    const populateVoiceList = () => {
-      if (typeof window !== 'undefined' && window.speechSynthesis) {
-        const voices = window.speechSynthesis.getVoices();
-        if (voices.length > 0) {
-          const maleEnglishVoice = voices.find(voice => 
-            voice.lang.startsWith('en-') && 
-            (voice.name.toLowerCase().includes('male') ||
-             voice.name.toLowerCase().includes('david') ||
-             voice.name.toLowerCase().includes('mark') ||
-             voice.name.toLowerCase().includes('paul') ||
-             voice.name.toLowerCase().includes('james') ||
-             voice.name.toLowerCase().includes('tom') ||
-             voice.name.toLowerCase().includes('alex') ||
-             voice.name.toLowerCase().includes('daniel') ||
-             voice.name.toLowerCase().includes('microsoft david') ||
-             voice.name.toLowerCase().includes('google us english male'))
-          );
-          setSelectedVoice(maleEnglishVoice || voices.find(v => v.lang.startsWith('en-')) || voices[0]); // Fallback
-        }
-      }
-    };
+    if (!arePreferencesLoaded || hasAppliedPreferences.current) return;
+    hasAppliedPreferences.current = true;
+    setActiveTab(preferences.defaultScanMode);
+  }, [arePreferencesLoaded, preferences.defaultScanMode]);
 
-    populateVoiceList();
-    if (typeof window !== 'undefined' && window.speechSynthesis && window.speechSynthesis.onvoiceschanged !== undefined) {
-      window.speechSynthesis.onvoiceschanged = populateVoiceList;
+  const handleTabChange = (value: string) => {
+    setActiveTab(value);
+    if (value !== preferences.defaultScanMode) {
+      savePreferences({ ...preferences, defaultScanMode: value as ScanMode });
     }
-    return () => {
-       if (typeof window !== 'undefined' && window.speechSynthesis) {
-        window.speechSynthesis.onvoiceschanged = null;
-       }
-    }
-  }, []);
+  };
+
+  const displayedItems = useMemo(() => {
+    const items = analysisResult?.items ?? [];
+    return preferences.hideSimulatedValues ? items.map(withoutSimulatedValues) : items;
+  }, [analysisResult, preferences.hideSimulatedValues]);
+  const selectedItem = displayedItems[selectedItemIndex] ?? null;
+  const hasSimulation = Boolean(analysisResult && (analysisResult.simulationUsed || analysisResult.items.some(hasSimulatedValues)));
+  const imageVerdict = useMemo(() => (analysisResult ? checkFoodItemResult(analysisResult, profile) : null), [analysisResult, profile]);
+  const barcodeVerdict = useMemo(() => (barcodeAnalysisResult ? checkBarcodeResult(barcodeAnalysisResult, profile) : null), [barcodeAnalysisResult, profile]);
+  const labelVerdict = useMemo(() => (labelAnalysisResult ? checkBarcodeResult(labelAnalysisResult, profile) : null), [labelAnalysisResult, profile]);
+
+
+  const { toast } = useToast();
 
   const stopCamera = () => {
+    detachCamera();
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -119,7 +144,9 @@ export default function ScanPageClient() {
   useEffect(() => {
     let isMounted = true;
 
-    const startCameraWithMode = async (mode: 'user' | 'environment') => {
+    const { deviceId, facingMode: mode } = camera.preferences;
+
+    const startCamera = async () => {
       stopCamera(); 
 
       if (!videoRef.current) {
@@ -129,13 +156,7 @@ export default function ScanPageClient() {
       if (!isMounted) return;
 
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            facingMode: mode,
-            width: { ideal: 1280 }, 
-            height: { ideal: 720 } 
-          } 
-        });
+        const stream = await openCamera({ deviceId, facingMode: mode });
         if (!isMounted) {
           stream.getTracks().forEach(track => track.stop());
           return;
@@ -160,12 +181,23 @@ export default function ScanPageClient() {
 
           if (isMounted && videoRef.current.srcObject && !videoRef.current.paused) {
              setHasCameraPermission(true);
+             attachCamera(stream);
           } else if (isMounted) {
              setHasCameraPermission(false);
           }
         }
       } catch (err: any) {
-        console.error(`Camera access error for mode ${mode}:`, err);
+        console.error(`Camera access error for ${deviceId ? `device ${deviceId}` : `mode ${mode}`}:`, err);
+        if (isMounted && deviceId && (err.name === 'NotFoundError' || err.name === 'OverconstrainedError')) {
+          // The chosen camera is gone (unplugged, or the IDs were reset); fall back to the facing mode.
+          camera.selectDevice(null);
+          setHasCameraPermission(null);
+          toast({
+            title: "Camera Not Found",
+            description: "The camera you chose is not available any more. Using the default camera instead.",
+          });
+          return;
+        }
         if (isMounted) {
           setHasCameraPermission(false);
           let description = "Could not start camera. Please check permissions or try uploading a file.";
@@ -187,7 +219,7 @@ export default function ScanPageClient() {
     
     if (activeTab === "image-scan" && !imagePreview) {
       if (hasCameraPermission === null || (hasCameraPermission === true && (!streamRef.current || !streamRef.current.active))) {
-        startCameraWithMode(currentFacingMode);
+        startCamera();
       }
     } else {
       stopCamera();
@@ -197,20 +229,54 @@ export default function ScanPageClient() {
       isMounted = false;
       stopCamera();
     };
-  }, [activeTab, imagePreview, hasCameraPermission, currentFacingMode, toast]);
+  }, [activeTab, imagePreview, hasCameraPermission, camera.preferences.deviceId, camera.preferences.facingMode, attachCamera, toast]);
 
 
+  // Blocks frames and files that are useless for analysis; the caller keeps the warnings for the rest.
+  const prepareUsableImage = async (source: Blob | HTMLVideoElement): Promise<PreparedImage | null> => {
+    try {
+      const prepared = await prepareImageForAnalysis(source);
+      if (prepared.blocked) {
+        toast({
+          variant: "destructive",
+          title: "Photo Not Usable",
+          description: prepared.quality.issues.filter(issue => issue.severity === 'block').map(issue => QUALITY_ISSUE_MESSAGES[issue.kind]).join(' '),
+        });
+        return null;
+      }
+      return prepared;
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Prepare Photo",
+        description: err instanceof Error ? err.message : "The image could not be processed.",
+      });
+      return null;
+    }
+  };
+
+  const acceptPreparedImage = async (source: Blob | HTMLVideoElement): Promise<boolean> => {
+    const prepared = await prepareUsableImage(source);
+    if (!prepared) return false;
+    setImageDataUri(prepared.dataUri);
+    setImagePreview(prepared.dataUri);
+    setImageQuality(prepared.quality);
+    setAnalysisResult(null);
+    setError(null);
+    return true;
+  };
+
+  const isCameraLive = () => Boolean(
+    videoRef.current &&
+    streamRef.current?.active &&
+    hasCameraPermission === true &&
+    videoRef.current.videoWidth > 0 &&
+    !videoRef.current.paused &&
+    !videoRef.current.ended
+  );
+
   const handleCaptureImage = () => {
-    if (
-      !videoRef.current ||
-      !canvasRef.current ||
-      !streamRef.current || 
-      !streamRef.current.active ||
-      hasCameraPermission !== true ||
-      videoRef.current.videoWidth === 0 || 
-      videoRef.current.paused || 
-      videoRef.current.ended
-    ) {
+    if (!videoRef.current || !isCameraLive()) {
       toast({
         variant: "destructive",
         title: "Capture Failed",
@@ -219,42 +285,38 @@ export default function ScanPageClient() {
       return;
     }
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
+    acceptPreparedImage(videoRef.current);
+  };
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+  const vibrate = (pattern: number[]) => {
+    if (typeof navigator !== 'undefined' && navigator.vibrate) {
+      navigator.vibrate(pattern);
+    }
+  };
 
-    const context = canvas.getContext('2d');
-    if (context) {
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const dataUri = canvas.toDataURL('image/webp'); 
-      setImageDataUri(dataUri);
-      setImagePreview(dataUri);
-      setAnalysisResult(null);
-      setError(null);
-    } else {
-       toast({
-        variant: "destructive",
-        title: "Capture Failed",
-        description: "Could not get canvas context to capture image.",
-      });
+  // Cues never interrupt a readout; the next one comes soon enough.
+  const handleFramingCue = (cue: FramingCue) => {
+    vibrate(FRAMING_CUE_VIBRATIONS[cue]);
+    if (!isSpeaking()) {
+      speech.speak(SPEECH_MESSAGES[speech.settings.language].framing[cue]);
     }
   };
 
+  const handleGuidedCapture = () => {
+    vibrate(CAPTURE_VIBRATION);
+    speech.speak(SPEECH_MESSAGES[speech.settings.language].commands.capturing);
+    handleCaptureImage();
+  };
+
+  const isGuidedCaptureActive = preferences.guidedCapture && activeTab === "image-scan" && !imagePreview && hasCameraPermission === true && !isLoading;
+  const framing = useFramingAssistant(videoRef, { enabled: isGuidedCaptureActive, onCue: handleFramingCue, onReady: handleGuidedCapture });
+
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageDataUri(dataUri);
-        setImagePreview(dataUri);
-        setAnalysisResult(null);
-        setError(null);
-        setHasCameraPermission(false); 
-      };
-      reader.readAsDataURL(file);
+      acceptPreparedImage(file).then(accepted => {
+        if (accepted) setHasCameraPermission(false);
+      });
     }
     if (event.target) {
       event.target.value = ''; 
@@ -264,6 +326,7 @@ export default function ScanPageClient() {
   const handleRetake = () => {
     setImagePreview(null);
     setImageDataUri(null);
+    setImageQuality(null);
     setAnalysisResult(null);
     setError(null);
     
@@ -273,10 +336,21 @@ export default function ScanPageClient() {
     setHasCameraPermission(null); 
   };
 
+  const handleVideoTap = (event: MouseEvent<HTMLVideoElement>) => {
+    if (!camera.capabilities) return;
+    const point = framePointAt(event.currentTarget, event.clientX, event.clientY);
+    if (!point) return;
+    camera.focus(point.x, point.y);
+    const rect = event.currentTarget.getBoundingClientRect();
+    setFocusPoint({ left: event.clientX - rect.left, top: event.clientY - rect.top });
+    setTimeout(() => setFocusPoint(null), 800);
+  };
+
   const handleSwitchCamera = () => {
-    setCurrentFacingMode(prevMode => prevMode === 'environment' ? 'user' : 'environment');
+    camera.switchFacingMode();
     setHasCameraPermission(null); 
     setImagePreview(null); 
+    setImageQuality(null);
     setAnalysisResult(null);
     setError(null);
   };
@@ -295,16 +369,41 @@ export default function ScanPageClient() {
     setIsLoading(true);
     setError(null);
     setAnalysisResult(null);
+    setAnalysisStage(null);
+    setSelectedItemIndex(0);
+    spokenHeadlineRef.current = null;
 
     try {
-      const result = await analyzeFoodItem({ photoDataUri: imageDataUri });
+      const { stream, output } = streamFlow<typeof analyzeFoodItemFlow>({ url: "/api/analyze-food-item", input: { photoDataUri: imageDataUri } });
+      // Draft items fill the results panel section by section while the photo is still being read.
+      for await (const chunk of stream) {
+        setAnalysisResult(chunk.result);
+        setAnalysisStage(chunk.stage);
+        const first = chunk.result.items[0];
+        if (speech.settings.autoRead && spokenHeadlineRef.current === null && first?.identification.name && first.edibility) {
+          spokenHeadlineRef.current = speakImageScanHeadline(chunk.result);
+        }
+      }
+      const result = await output;
       setAnalysisResult(result);
-      if (result.identification.isFoodItem) {
-        speakImageScanAnalysisResults(result);
+      setSelectedItemIndex(index => (index < result.items.length ? index : 0));
+      if (result.needsBetterPhoto) {
+        // Nothing was identified, so there is nothing worth keeping in the history.
+        if (speech.settings.autoRead) speakRetakeGuidance(result.needsBetterPhoto.guidance);
+        return;
+      }
+      if (result.isFoodItem && speech.settings.autoRead) {
+        finishImageScanReadout(result);
       }
+      const thumbnail = await createThumbnail(imageDataUri).catch(() => undefined);
+      const names = result.items.map(item => item.identification.name || 'Food item');
+      const title = names.length === 0 ? 'Food item' : names.length <= 3 ? names.join(', ') : `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+      saveToHistory({ kind: 'image', title, thumbnail, result });
     } catch (err) {
       console.error("Analysis error:", err);
       const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
+      // Drafts that were never confirmed must not stay on screen as if they were a result.
+      setAnalysisResult(null);
       setError(errorMessage);
       toast({
         variant: "destructive",
@@ -313,90 +412,76 @@ export default function ScanPageClient() {
       });
     } finally {
       setIsLoading(false);
+      setAnalysisStage(null);
     }
   };
 
-  const speakImageScanAnalysisResults = (result: AnalyzeFoodItemOutput | null) => {
-    if (result && result.identification.isFoodItem && typeof window !== 'undefined' && window.speechSynthesis) {
-      let textToSpeak = `Scanned item: ${result.identification.name || 'Unknown food'}. `;
-      if (result.edibility) {
-        textToSpeak += `Edibility: ${result.edibility}. `;
-      }
-      if (result.identification.isOrganic !== undefined) {
-        textToSpeak += `Organic status: ${result.identification.isOrganic ? 'Likely organic.' : 'Likely not organic, or status unclear.'} `;
-      }
-      if (result.identification.dominantColors && result.identification.dominantColors.length > 0) {
-        textToSpeak += `Dominant colors observed: ${result.identification.dominantColors.join(', ')}. `;
-      }
-      if (result.components) {
-         if (result.components.waterPercentage !== undefined) textToSpeak += `Water content: ${result.components.waterPercentage} percent. `;
-         if (result.components.sugarPercentage !== undefined) textToSpeak += `Sugar content: ${result.components.sugarPercentage} percent. `;
-      }
-      
-      const utterance = new SpeechSynthesisUtterance(textToSpeak);
-      utterance.lang = 'en-US';
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
-      }
-      window.speechSynthesis.cancel(); 
-      window.speechSynthesis.speak(utterance);
+  // History is best-effort: a storage failure (private browsing, quota) must not break the scan.
+  const saveToHistory = (scan: NewScan) => {
+    recordScan(scan).catch(e => console.warn("Could not save scan to history:", e));
+  };
+
+  const readoutOptions = { ...speech.settings, profile, hideSimulatedValues: preferences.hideSimulatedValues };
+
+  const speakRetakeGuidance = (guidance: string[]) => {
+    speech.speak(retakeReadout(guidance, readoutOptions));
+  };
+
+  const speakImageScanAnalysisResults = (result: AnalyzeFoodItemOutput | null, itemIndex: number) => {
+    const readout = result && foodItemReadout(result, itemIndex, readoutOptions);
+    if (readout) {
+      speech.speak(readout.headline + readout.details);
     }
   };
 
-  const speakBarcodeAnalysisResults = (result: AnalyzeBarcodeOutput | null) => {
-    if (result && result.isFound && typeof window !== 'undefined' && window.speechSynthesis) {
-      let textToSpeak = `Product: ${result.productName || 'Unknown product'}. `;
-      if (result.brand && result.brand !== 'N/A') {
-        textToSpeak += `Brand: ${result.brand}. `;
-      }
-      if (result.overallAssessment) {
-        textToSpeak += `Overall assessment: ${result.overallAssessment}. `;
-      } else {
-        textToSpeak += "No overall assessment available. ";
-      }
-      if (result.potentialConcerns && result.potentialConcerns.length > 0) {
-          const firstConcern = result.potentialConcerns[0].concern;
-          if(firstConcern) {
-            textToSpeak += `Primary concern noted: ${firstConcern}. `;
-          }
-      }
-  
-      const utterance = new SpeechSynthesisUtterance(textToSpeak);
-      utterance.lang = 'en-US';
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
-      }
-      window.speechSynthesis.cancel(); 
-      window.speechSynthesis.speak(utterance);
+  /** Speaks the first item's name and edibility from a streamed draft, and returns what was said. */
+  const speakImageScanHeadline = (draft: AnalyzeFoodItemOutput): string => {
+    const headline = foodItemReadout(draft, 0, readoutOptions)?.headline ?? '';
+    speech.speak(headline);
+    return headline;
+  };
+
+  /**
+   * Reads the final result. When the headline spoken from the draft still holds, only the details
+   * are queued after it; when the final result changed it (another item, a withheld verdict), the
+   * whole readout starts over so the listener is not left with the draft's version.
+   */
+  const finishImageScanReadout = (result: AnalyzeFoodItemOutput) => {
+    const readout = foodItemReadout(result, 0, readoutOptions);
+    if (!readout) return;
+    if (spokenHeadlineRef.current === readout.headline) {
+      if (readout.details) speech.speak(readout.details, { interrupt: false });
+    } else {
+      speech.speak(readout.headline + readout.details);
+    }
+  };
+
+  const speakProductAnalysisResults = (result: AnalyzeBarcodeOutput | null) => {
+    const text = result && productReadout(result, readoutOptions);
+    if (text) {
+      speech.speak(text);
     }
   };
   
   useEffect(() => {
     return () => {
-      if (typeof window !== 'undefined' && window.speechSynthesis) {
-        window.speechSynthesis.cancel();
-      }
+      stopSpeaking();
     };
   }, []);
 
-  const handleAnalyzeBarcode = async () => {
-    if (!barcodeInputValue.trim()) {
-      toast({
-        variant: "destructive",
-        title: "No Barcode",
-        description: "Please enter a barcode number.",
-      });
-      return;
-    }
+  const runBarcodeAnalysis = async (barcodeNumber: string) => {
     setIsBarcodeLoading(true);
     setBarcodeError(null);
     setBarcodeAnalysisResult(null);
 
     try {
-      const result = await analyzeBarcode({ barcodeNumber: barcodeInputValue.trim() });
+      const result = await analyzeBarcode({ barcodeNumber });
       setBarcodeAnalysisResult(result);
-      if(result.isFound){
-        speakBarcodeAnalysisResults(result);
+      if (speech.settings.autoRead) {
+        speakProductAnalysisResults(result);
+      }
+      if (!result.validationError) {
+        saveToHistory({ kind: 'barcode', barcode: barcodeNumber, title: result.productName || `Barcode ${barcodeNumber}`, thumbnail: result.imageUrl, result });
       }
     } catch (err) {
       console.error("Barcode analysis error:", err);
@@ -412,51 +497,272 @@ export default function ScanPageClient() {
     }
   };
 
+  const handleAnalyzeBarcode = async () => {
+    if (!barcodeInputValue.trim()) {
+      toast({
+        variant: "destructive",
+        title: "No Barcode",
+        description: "Please enter a barcode number.",
+      });
+      return;
+    }
+    const validation = validateGtin(barcodeInputValue);
+    if (!validation.valid) {
+      setBarcodeValidationError(validation.error);
+      return;
+    }
+    setBarcodeValidationError(null);
+    await runBarcodeAnalysis(validation.gtin.lookupCode);
+  };
+
+  const handleBarcodeDetected = (barcode: DecodedBarcode) => {
+    // The scanner already verified the check digit; this resolves UPC-E vs EAN-8 and normalizes the code.
+    const validation = validateGtin(barcode.rawValue, barcode.format === "upc_e" ? "UPC-E" : undefined);
+    if (!validation.valid) {
+      setBarcodeValidationError(validation.error);
+      // Rejected reads are not analyzed, so nothing else would restart the scanner.
+      return false;
+    }
+    vibrate([80]);
+    toast({
+      title: "Barcode Detected",
+      description: `Read ${barcode.rawValue}. Analyzing product...`,
+    });
+    setBarcodeInputValue(barcode.rawValue);
+    setBarcodeValidationError(null);
+    runBarcodeAnalysis(validation.gtin.lookupCode);
+  };
+
+  const handleLabelFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const prepared = await prepareUsableImage(file);
+    if (!prepared) return;
+    setLabelImageDataUri(prepared.dataUri);
+    setLabelQuality(prepared.quality);
+    setLabelAnalysisResult(null);
+    setLabelError(null);
+  };
+
+  const handleAnalyzeLabel = async () => {
+    if (!labelImageDataUri) return;
+    setIsLabelLoading(true);
+    setLabelError(null);
+    setLabelAnalysisResult(null);
+
+    try {
+      const result = await analyzeLabel({ photoDataUri: labelImageDataUri });
+      setLabelAnalysisResult(result);
+      if (result.isFound) {
+        if (speech.settings.autoRead) speakProductAnalysisResults(result);
+        const thumbnail = await createThumbnail(labelImageDataUri).catch(() => undefined);
+        saveToHistory({ kind: 'label', title: result.productName || 'Label scan', thumbnail, result });
+      }
+    } catch (err) {
+      console.error("Label analysis error:", err);
+      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred while reading the label.";
+      setLabelError(errorMessage);
+      toast({
+        variant: "destructive",
+        title: "Label Reading Failed",
+        description: errorMessage,
+      });
+    } finally {
+      setIsLabelLoading(false);
+    }
+  };
+
+  const handleLabelScanNew = () => {
+    setLabelImageDataUri(null);
+    setLabelQuality(null);
+    setLabelAnalysisResult(null);
+    setLabelError(null);
+  };
+
   const handleBarcodeScanNew = () => {
     setBarcodeInputValue("");
     setBarcodeAnalysisResult(null);
     setBarcodeError(null);
+    setBarcodeValidationError(null);
     setIsBarcodeLoading(false);
   };
 
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    const confirm = (text: keyof typeof SPEECH_MESSAGES.en.commands) => speech.speak(SPEECH_MESSAGES[speech.settings.language].commands[text]);
+    switch (command) {
+      case "stop":
+        speech.cancel();
+        return;
+      case "capture":
+        if (isLoading) return confirm("busy");
+        // The camera only runs on the image tab without a photo; start it and let the user aim first.
+        if (activeTab !== "image-scan" || imagePreview) {
+          if (activeTab !== "image-scan") handleTabChange("image-scan");
+          else handleRetake();
+          return confirm("cameraStarting");
+        }
+        if (!isCameraLive()) return confirm("cameraNotReady");
+        confirm("capturing");
+        handleCaptureImage();
+        return;
+      case "analyze":
+        if (activeTab === "barcode-scan") {
+          if (isBarcodeLoading) return confirm("busy");
+          if (!barcodeInputValue.trim()) return confirm("scanBarcode");
+          confirm("analyzing");
+          handleAnalyzeBarcode();
+          return;
+        }
+        if (activeTab === "label-scan") {
+          if (isLabelLoading) return confirm("busy");
+          if (!labelImageDataUri) return confirm("noPhoto");
+          confirm("analyzing");
+          handleAnalyzeLabel();
+          return;
+        }
+        if (isLoading) return confirm("busy");
+        if (!imageDataUri) return confirm("noPhoto");
+        confirm("analyzing");
+        handleAnalyze();
+        return;
+      case "read-again": {
+        if (activeTab === "image-scan" && analysisResult?.needsBetterPhoto) {
+          return speakRetakeGuidance(analysisResult.needsBetterPhoto.guidance);
+        }
+        const productResult = activeTab === "barcode-scan" ? barcodeAnalysisResult : activeTab === "label-scan" ? labelAnalysisResult : null;
+        if (activeTab === "image-scan" && analysisResult?.isFoodItem && !isLoading) {
+          speakImageScanAnalysisResults(analysisResult, selectedItemIndex);
+        } else if (productResult?.isFound) {
+          speakProductAnalysisResults(productResult);
+        } else {
+          confirm("nothingToRead");
+        }
+        return;
+      }
+      case "read-residues": {
+        const text = activeTab === "image-scan" && analysisResult?.isFoodItem && !isLoading && residuesReadout(analysisResult, selectedItemIndex, readoutOptions);
+        if (text) speech.speak(text);
+        else confirm("nothingToRead");
+        return;
+      }
+      case "switch-camera":
+        if (activeTab !== "image-scan") handleTabChange("image-scan");
+        confirm("switchingCamera");
+        handleSwitchCamera();
+        return;
+      case "scan-barcode":
+        if (activeTab !== "barcode-scan") handleTabChange("barcode-scan");
+        if (barcodeAnalysisResult) handleBarcodeScanNew();
+        confirm("scanBarcode");
+        return;
+    }
+  };
+
+  const voiceCommands = useVoiceCommands({ onCommand: handleVoiceCommand, recognizer: manualRecognizer });
+
+  const handleToggleVoiceCommands = () => {
+    const messages = SPEECH_MESSAGES[speech.settings.language].commands;
+    if (voiceCommands.isListening) {
+      voiceCommands.stop();
+      speech.speak(messages.stoppedListening);
+    } else {
+      voiceCommands.start();
+      speech.speak(messages.listening);
+    }
+  };
+
+  useEffect(() => {
+    if (!voiceCommands.error) return;
+    toast({
+      variant: "destructive",
+      title: "Voice Commands Stopped",
+      description: voiceCommands.error === "not-allowed"
+        ? "Microphone access was denied. Allow it in your browser settings to use voice commands."
+        : voiceCommands.error === "unavailable"
+          ? "No microphone is available for voice commands."
+          : "Speech recognition stopped working. Check your connection and turn voice commands on again.",
+    });
+  }, [voiceCommands.error, toast]);
+
 
   return (
     <ElectricBorder color="hsl(var(--primary))" speed={1} chaos={0.6} thickness={2.5} style={{ borderRadius: '0.75rem' }}>
       <Card className="w-full bg-card/80 backdrop-blur-sm">
         <CardHeader>
           <CardTitle className="flex items-center gap-3 font-headline text-2xl">
-            <ScanLine className="text-primary h-7 w-7" /> Scan Item or Barcode
+            <ScanLine className="text-primary h-7 w-7" /> Scan Item, Barcode or Label
           </CardTitle>
           <CardDescription>
-            Choose to scan a fresh food item using your camera/upload, or enter a barcode for packaged goods.
+            Choose to scan a fresh food item using your camera/upload, scan the barcode of packaged goods, photograph the label of a product without a barcode, or scan a whole grocery haul in one batch.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+          {voiceCommands.isSupported && (
+            <VoiceCommandBar isListening={voiceCommands.isListening} lastHeard={voiceCommands.lastHeard} onToggle={handleToggleVoiceCommands} onTypedCommand={manualRecognizer?.say} />
+          )}
+          <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="image-scan"><Camera className="mr-2 h-5 w-5" />Image Scan</TabsTrigger>
               <TabsTrigger value="barcode-scan"><BarcodeIcon className="mr-2 h-5 w-5" />Barcode Scan</TabsTrigger>
+              <TabsTrigger value="label-scan"><FileText className="mr-2 h-5 w-5" />Label Scan</TabsTrigger>
+              <TabsTrigger value="batch-scan"><ListChecks className="mr-2 h-5 w-5" />Batch</TabsTrigger>
             </TabsList>
             <TabsContent value="image-scan" className="mt-6">
-              <canvas ref={canvasRef} style={{ display: 'none' }} />
               <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
 
               <div className="border-2 border-dashed border-border/70 rounded-lg p-4 flex flex-col items-center space-y-4 min-h-[300px] justify-center bg-background/30">
                 {imagePreview ? (
                   <>
-                    <p className="text-sm text-muted-foreground">Image Preview:</p>
-                    <Image
+                    <p className="text-sm text-muted-foreground">
+                      {analysisResult && analysisResult.items.length > 1 ? `${analysisResult.items.length} items found. Tap one to inspect it:` : "Image Preview:"}
+                    </p>
+                    {analysisResult?.omittedItemCount && (
+                      <p className="text-xs text-muted-foreground">
+                        {analysisResult.omittedItemCount === 1 ? "1 more item" : `${analysisResult.omittedItemCount} more items`} could not be identified confidently and {analysisResult.omittedItemCount === 1 ? "is" : "are"} not shown. Photograph {analysisResult.omittedItemCount === 1 ? "it" : "them"} on {analysisResult.omittedItemCount === 1 ? "its" : "their"} own for a result.
+                      </p>
+                    )}
+                    <DetectedItemsOverlay
                       src={imagePreview}
                       alt="Food item preview"
-                      width={300}
-                      height={300}
-                      className="rounded-md object-contain max-h-[300px] shadow-xl border border-border"
+                      items={displayedItems}
+                      selectedIndex={selectedItemIndex}
+                      onSelect={setSelectedItemIndex}
                     />
+                    {!analysisResult && imageQuality && imageQuality.issues.length > 0 && (
+                      <Alert className="w-full max-w-md bg-yellow-500/10 border-yellow-500/50">
+                        <AlertTriangle className="h-5 w-5 text-yellow-400" />
+                        <AlertTitle className="text-yellow-300 font-semibold">This photo may give a poor result</AlertTitle>
+                        <AlertDescription className="text-muted-foreground">
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {imageQuality.issues.map(issue => <li key={issue.kind}>{QUALITY_ISSUE_MESSAGES[issue.kind]}</li>)}
+                          </ul>
+                          <p className="mt-1">You can retake it, or analyze it anyway.</p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
                   </>
                 ) : (
                   <>
                     <div className="w-full max-w-md aspect-video bg-muted/70 rounded-md overflow-hidden relative shadow-inner">
-                      <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+                      <video ref={videoRef} onClick={handleVideoTap} className="w-full h-full object-cover" playsInline muted />
+                      {focusPoint && (
+                        <div
+                          className="absolute h-12 w-12 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-accent animate-ping pointer-events-none"
+                          style={{ left: focusPoint.left, top: focusPoint.top }}
+                        />
+                      )}
+                      {isGuidedCaptureActive && framing.assessment && (
+                        <>
+                          <div
+                            className={`absolute inset-[18%] rounded-lg border-2 border-dashed transition-colors pointer-events-none ${framing.assessment.cue === "ready" ? "border-green-400" : "border-white/60"}`}
+                          />
+                          <div className="absolute inset-x-0 bottom-0 bg-background/75 backdrop-blur-sm px-3 py-1.5 pointer-events-none">
+                            <p className="text-sm text-center text-foreground">{FRAMING_CUE_MESSAGES[framing.assessment.cue]}</p>
+                            <Progress value={framing.readyProgress * 100} className="h-1 mt-1" />
+                          </div>
+                        </>
+                      )}
                       {activeTab === "image-scan" && !imagePreview && hasCameraPermission === null && (
                         <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm">
                           <p className="text-muted-foreground p-4 text-center">Initializing camera... Please allow camera access if prompted.</p>
@@ -468,6 +774,16 @@ export default function ScanPageClient() {
                         </div>
                       )}
                     </div>
+                    {hasCameraPermission === true && camera.capabilities && (
+                      <CameraControls
+                        cameras={camera.cameras}
+                        activeDeviceId={camera.activeDeviceId}
+                        capabilities={camera.capabilities}
+                        settings={camera.settings}
+                        onSelectDevice={camera.selectDevice}
+                        onChange={camera.changeSettings}
+                      />
+                    )}
                   </>
                 )}
               </div>
@@ -486,6 +802,17 @@ export default function ScanPageClient() {
                     <Button onClick={() => fileInputRef.current?.click()} variant="outline" disabled={isLoading} className="cursor-target w-full sm:w-auto text-base py-2.5 px-6 border-primary/70 text-primary hover:bg-primary/10 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">
                       <Upload className="mr-2 h-5 w-5" /> Upload Image File
                     </Button>
+                    <div className="flex items-center gap-2 w-full justify-center">
+                      <Switch
+                        id="guided-capture"
+                        checked={preferences.guidedCapture}
+                        onCheckedChange={guidedCapture => savePreferences({ ...preferences, guidedCapture })}
+                        className="cursor-target"
+                      />
+                      <Label htmlFor="guided-capture" className="cursor-pointer text-sm text-muted-foreground">
+                        Guided capture: spoken and vibration cues, and the photo is taken once the food is framed
+                      </Label>
+                    </div>
                   </>
                 )}
                 {imagePreview && (
@@ -507,7 +834,7 @@ export default function ScanPageClient() {
                         <div className="w-4 h-4 rounded-full bg-primary animate-pulse-dot [animation-delay:-0.15s]"></div>
                         <div className="w-4 h-4 rounded-full bg-primary animate-pulse-dot"></div>
                     </div>
-                    <p className="text-md text-primary text-center">AI is analyzing your item, please wait...</p>
+                    <p className="text-md text-primary text-center">{analysisStage ? STAGE_MESSAGES[analysisStage] : "AI is analyzing your item, please wait..."}</p>
                 </div>
               )}
 
@@ -528,8 +855,19 @@ export default function ScanPageClient() {
                       This analysis is AI-generated and for informational purposes. Chemical composition and organic status are estimations based on visual cues and may not be 100% accurate. Consult experts for critical decisions.
                     </AlertDescription>
                   </Alert>
+                  <ProfileVerdictBanner verdict={imageVerdict} />
+                  {hasSimulation && (
+                    <SimulatedValuesNotice
+                      hidden={preferences.hideSimulatedValues}
+                      onHiddenChange={hideSimulatedValues => savePreferences({ ...preferences, hideSimulatedValues })}
+                    />
+                  )}
                   
-                  {analysisResult.identification.isFoodItem === false ? (
+                  {analysisResult.needsBetterPhoto ? (
+                      <ElectricBorder color="hsl(var(--destructive))" chaos={0.8} speed={1.2}>
+                        <RetakePrompt needsBetterPhoto={analysisResult.needsBetterPhoto} onRetake={handleRetake} />
+                      </ElectricBorder>
+                  ) : !selectedItem ? (
                       <ElectricBorder color="hsl(var(--destructive))" chaos={0.8} speed={1.2}>
                         <Card className="bg-card/70 backdrop-blur-sm shadow-xl border border-yellow-500/60">
                             <CardHeader className="border-b border-border/50 pb-4">
@@ -539,7 +877,7 @@ export default function ScanPageClient() {
                             </CardHeader>
                             <CardContent className="p-6">
                                 <p className="text-muted-foreground text-lg">
-                                    {analysisResult.identification.name || "The scanned item does not appear to be a food product."}
+                                    {analysisResult.nonFoodDescription || "The scanned item does not appear to be a food product."}
                                 </p>
                                 <p className="text-sm text-muted-foreground mt-2">AAHAR is designed for food analysis. Please scan a food item.</p>
                             </CardContent>
@@ -554,82 +892,84 @@ export default function ScanPageClient() {
                         <CardHeader className="border-b border-border/50 pb-4">
                             <div className="flex justify-between items-center">
                             <CardTitle className="font-headline text-2xl md:text-3xl text-primary flex items-center gap-3">
-                                <Package size={30} /> {analysisResult.identification.name || "Food Item"}
+                                <Package size={30} /> {selectedItem.identification.name || "Food Item"}
                             </CardTitle>
-                            <Button variant="ghost" size="icon" onClick={() => speakImageScanAnalysisResults(analysisResult)} title="Read results aloud" className="cursor-target text-foreground/70 hover:text-primary hover:bg-primary/10">
+                            <Button variant="ghost" size="icon" onClick={() => speakImageScanAnalysisResults(analysisResult, selectedItemIndex)} title="Read results aloud" className="cursor-target text-foreground/70 hover:text-primary hover:bg-primary/10">
                                 <Mic className="h-6 w-6" />
                             </Button>
                             </div>
-                            <CardDescription className="pt-2">
-                                <EdibilityBadge status={analysisResult.edibility} />
+                            <CardDescription className="pt-2 flex flex-wrap items-center gap-3">
+                                <EdibilityBadge status={selectedItem.edibility} />
+                                {selectedItem.edibility && <ProvenanceTag provenance={provenanceOf(selectedItem, "edibility")} />}
+                                {analysisResult.items.length > 1 && <span className="text-sm text-muted-foreground">Item {selectedItemIndex + 1} of {analysisResult.items.length}</span>}
+                                {analysisStage && <span className="text-xs text-muted-foreground animate-pulse">Preliminary, still being checked</span>}
                             </CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-6 p-6">
+                            <FreshnessDetails item={selectedItem} />
+
                             <div>
-                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Microscope size={22} className="text-accent"/>Identification</h3>
-                            <p className="text-muted-foreground">Type: <span className="font-medium text-foreground/80">{analysisResult.identification.itemType || "N/A"}</span></p>
-                            {analysisResult.identification.confidence !== undefined && (
+                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Microscope size={22} className="text-accent"/>Identification<ProvenanceTag provenance={provenanceOf(selectedItem, "identification")} /></h3>
+                            <p className="text-muted-foreground">Type: <span className="font-medium text-foreground/80">{selectedItem.identification.itemType || "N/A"}</span></p>
+                            {selectedItem.identification.confidence !== undefined && (
                                 <div className="flex items-center gap-2 mt-1">
                                 <span className="text-muted-foreground">Confidence:</span>
-                                <Progress value={analysisResult.identification.confidence * 100} className="w-1/2 h-2.5 bg-muted/50 [&>div]:bg-primary" /> 
-                                <span className="font-medium text-foreground/80">{(analysisResult.identification.confidence * 100).toFixed(0)}%</span>
+                                <Progress value={selectedItem.identification.confidence * 100} className="w-1/2 h-2.5 bg-muted/50 [&>div]:bg-primary" /> 
+                                <span className="font-medium text-foreground/80">{(selectedItem.identification.confidence * 100).toFixed(0)}%</span>
                                 </div>
                             )}
-                            {analysisResult.identification.isOrganic !== undefined && (
+                            {selectedItem.confidenceDetails && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {Math.round(selectedItem.confidenceDetails.identification * selectedItem.confidenceDetails.samples)} of {selectedItem.confidenceDetails.samples} independent readings of the photo agree on this.
+                                </p>
+                            )}
+                            {selectedItem.identification.isOrganic !== undefined && (
                                 <p className="text-muted-foreground mt-1 flex items-center gap-2">
-                                    {analysisResult.identification.isOrganic ? <Sparkles size={18} className="text-green-400" /> : <HelpCircle size={18} className="text-yellow-400" />}
+                                    {selectedItem.identification.isOrganic ? <Sparkles size={18} className="text-green-400" /> : <HelpCircle size={18} className="text-yellow-400" />}
                                     Organic Status: <span className="font-medium text-foreground/80">
-                                        {analysisResult.identification.isOrganic ? "Likely Organic" : "Likely Not Organic / Undetermined"}
+                                        {selectedItem.identification.isOrganic ? "Likely Organic" : "Likely Not Organic / Undetermined"}
                                     </span>
-                                    {analysisResult.identification.organicReasoning && <span className="text-xs italic text-muted-foreground/70">({analysisResult.identification.organicReasoning})</span>}
+                                    {selectedItem.identification.organicReasoning && <span className="text-xs italic text-muted-foreground/70">({selectedItem.identification.organicReasoning})</span>}
+                                    <ProvenanceTag provenance={provenanceOf(selectedItem, "organicStatus")} />
                                 </p>
                             )}
-                            {analysisResult.identification.dominantColors && analysisResult.identification.dominantColors.length > 0 && (
+                            {selectedItem.identification.dominantColors && selectedItem.identification.dominantColors.length > 0 && (
                                 <div className="mt-2">
-                                <h4 className="text-sm font-medium flex items-center gap-2 text-foreground/80"><Palette size={16} className="text-accent/80"/>Dominant Colors:</h4>
-                                <p className="text-xs text-muted-foreground capitalize">{analysisResult.identification.dominantColors.join(', ')}</p>
+                                <h4 className="text-sm font-medium flex items-center gap-2 text-foreground/80"><Palette size={16} className="text-accent/80"/>Dominant Colors:<ProvenanceTag provenance={provenanceOf(selectedItem, "dominantColors")} /></h4>
+                                <p className="text-xs text-muted-foreground capitalize">{selectedItem.identification.dominantColors.join(', ')}</p>
                                 </div>
                             )}
                             </div>
                             
-                            {analysisResult.components && (
+                            {analysisStage && !selectedItem.components && (
+                            <p className="border-t border-border/50 pt-4 text-sm text-muted-foreground animate-pulse">Estimating components...</p>
+                            )}
+
+                            {selectedItem.components && (
                             <div className="border-t border-border/50 pt-4">
-                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Percent size={22} className="text-accent"/>Key Components</h3>
+                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Percent size={22} className="text-accent"/>Key Components<ProvenanceTag provenance={provenanceOf(selectedItem, "components")} /></h3>
                             <ul className="space-y-1.5 text-muted-foreground">
-                                {analysisResult.components.waterPercentage !== undefined && <li className="flex items-center gap-2"><Droplets size={18} className="text-blue-400" />Water: <span className="font-medium text-foreground/80">{analysisResult.components.waterPercentage}%</span></li>}
-                                {analysisResult.components.sugarPercentage !== undefined && <li className="flex items-center gap-2"><Waves size={18} className="text-orange-400" />Sugar: <span className="font-medium text-foreground/80">{analysisResult.components.sugarPercentage}%</span></li>}
-                                {analysisResult.components.fiberPercentage !== undefined && <li className="flex items-center gap-2"><Leaf size={18} className="text-green-400" />Fiber: <span className="font-medium text-foreground/80">{analysisResult.components.fiberPercentage}%</span></li>}
+                                {selectedItem.components.waterPercentage !== undefined && <li className="flex items-center gap-2"><Droplets size={18} className="text-blue-400" />Water: <span className="font-medium text-foreground/80">{selectedItem.components.waterPercentage}%</span></li>}
+                                {selectedItem.components.sugarPercentage !== undefined && <li className="flex items-center gap-2"><Waves size={18} className="text-orange-400" />Sugar: <span className="font-medium text-foreground/80">{selectedItem.components.sugarPercentage}%</span></li>}
+                                {selectedItem.components.fiberPercentage !== undefined && <li className="flex items-center gap-2"><Leaf size={18} className="text-green-400" />Fiber: <span className="font-medium text-foreground/80">{selectedItem.components.fiberPercentage}%</span></li>}
                             </ul>
                             </div>
                             )}
 
-                            {analysisResult.components?.vitaminsAndMinerals && (
+                            {selectedItem.components?.vitaminsAndMinerals && (
                             <div className="border-t border-border/50 pt-4">
-                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Info size={22} className="text-accent"/>Vitamins & Minerals</h3>
-                            <p className="text-sm text-muted-foreground">{analysisResult.components.vitaminsAndMinerals}</p>
+                            <h3 className="text-xl font-semibold flex items-center gap-2.5 mb-2 text-foreground/90"><Info size={22} className="text-accent"/>Vitamins & Minerals<ProvenanceTag provenance={provenanceOf(selectedItem, "components")} /></h3>
+                            <p className="text-sm text-muted-foreground">{selectedItem.components.vitaminsAndMinerals}</p>
                             </div>
                             )}
 
-                            {analysisResult.chemicalResidues && analysisResult.chemicalResidues.length > 0 && (
-                            <div className="border-t border-border/50 pt-4">
-                                <h3 className="text-xl font-semibold text-red-400 flex items-center gap-2.5 mb-3"><AlertTriangle size={22} />Potential Chemical Residues & Analysis</h3>
-                                <div className="space-y-3">
-                                {analysisResult.chemicalResidues.map((residue, index) => (
-                                    <div key={index} className="text-sm bg-red-500/10 p-3.5 rounded-md border border-red-500/40 shadow-md">
-                                        <p className="font-semibold text-red-300 text-base">{residue.name}</p>
-                                        {residue.estimatedPercentage !== undefined && (
-                                            <p className="text-red-400/90 mt-1">Estimated Presence: <span className="font-medium">{residue.estimatedPercentage.toFixed(2)}%</span></p>
-                                        )}
-                                        {residue.hazardousEffects && (
-                                            <p className="text-red-400/80 mt-1.5">Potential Effects: {residue.hazardousEffects}</p>
-                                        )}
-                                         {!residue.estimatedPercentage && !residue.hazardousEffects && (
-                                            <p className="text-red-400/70 mt-1">No specific percentage or effects details provided by AI for this residue.</p>
-                                        )}
-                                    </div>
-                                ))}
-                                </div>
-                            </div>
+                            <PortionCard item={selectedItem} />
+
+                            <FoodCompositionCard composition={selectedItem.composition} tableVersion={analysisResult.compositionTableVersion} />
+
+                            <ResidueFindings residues={selectedItem.chemicalResidues} crop={selectedItem.residueCrop} databaseVersion={analysisResult.residueDatabaseVersion} />
+                            {analysisStage && !selectedItem.chemicalResidues && (
+                            <p className="border-t border-border/50 pt-4 text-sm text-muted-foreground animate-pulse">Looking up pesticide residues...</p>
                             )}
                         </CardContent>
                         <CardFooter className="border-t border-border/50 pt-6">
@@ -643,13 +983,25 @@ export default function ScanPageClient() {
             </TabsContent>
             <TabsContent value="barcode-scan" className="mt-6">
               <div className="space-y-4">
-                <p className="text-muted-foreground">Enter the barcode number found on the product packaging.</p>
+                {!barcodeAnalysisResult && (
+                  <BarcodeCameraScanner
+                    active={activeTab === "barcode-scan" && !barcodeAnalysisResult && !isBarcodeLoading && !barcodeError}
+                    onDetected={handleBarcodeDetected}
+                  />
+                )}
+                <p className="text-muted-foreground">Point your camera at the barcode, or enter the number found on the product packaging.</p>
                 <div className="flex gap-2">
                   <Input 
                     type="text" 
                     placeholder="e.g., 049000042566 (Coca-Cola Classic)" 
                     value={barcodeInputValue}
-                    onChange={(e) => setBarcodeInputValue(e.target.value)}
+                    onChange={(e) => {
+                      setBarcodeInputValue(e.target.value);
+                      setBarcodeValidationError(null);
+                    }}
+                    inputMode="numeric"
+                    aria-invalid={barcodeValidationError !== null}
+                    aria-describedby={barcodeValidationError ? "barcode-validation-error" : undefined}
                     className="flex-grow cursor-target"
                     disabled={isBarcodeLoading}
                   />
@@ -661,6 +1013,11 @@ export default function ScanPageClient() {
                     <Zap className="mr-2 h-5 w-5" /> Analyze Barcode
                   </Button>
                 </div>
+                {barcodeValidationError && (
+                  <p id="barcode-validation-error" role="alert" className="text-sm text-red-400 flex items-center gap-2">
+                    <AlertCircle size={16} /> {barcodeValidationError}
+                  </p>
+                )}
               </div>
 
               {isBarcodeLoading && (
@@ -678,121 +1035,106 @@ export default function ScanPageClient() {
                 <Alert variant="destructive" className="mt-4 bg-destructive/20 border-destructive/50 text-destructive-foreground">
                   <AlertTriangle className="h-5 w-5" />
                   <AlertTitle>Barcode Analysis Error</AlertTitle>
-                  <AlertDescription>{barcodeError}</AlertDescription>
+                  <AlertDescription>
+                    {barcodeError}
+                    {/* The scanner stays off after a failure; otherwise it would read the same code and fail again in a loop. */}
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <Button size="sm" variant="outline" onClick={handleAnalyzeBarcode} disabled={!barcodeInputValue.trim()} className="cursor-target">
+                        <RotateCcw className="mr-2 h-4 w-4" /> Try Again
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handleBarcodeScanNew} className="cursor-target">
+                        <ScanLine className="mr-2 h-4 w-4" /> Scan Another
+                      </Button>
+                    </div>
+                  </AlertDescription>
                 </Alert>
               )}
               
               {barcodeAnalysisResult && (
-                <>
-                  <Alert variant="default" className="mt-6 mb-4 bg-muted/30 border-muted/50">
-                    <Info className="h-5 w-5 text-primary" />
-                    <AlertTitle className="text-foreground font-semibold">Product Analysis (Barcode)</AlertTitle>
-                    <AlertDescription className="text-muted-foreground">
-                      Product information is fetched from Open Food Facts. Ingredient analysis is AI-generated and for informational purposes. It may not be 100% accurate. Consult experts for critical decisions.
-                    </AlertDescription>
-                  </Alert>
-
-                  {!barcodeAnalysisResult.isFound ? (
-                       <ElectricBorder color="hsl(var(--destructive))" chaos={0.8} speed={1.2}>
-                          <Card className="bg-card/70 backdrop-blur-sm shadow-xl border border-yellow-500/60 mt-6">
-                              <CardHeader className="border-b border-border/50 pb-4">
-                                  <CardTitle className="font-headline text-2xl md:text-3xl text-yellow-300 flex items-center gap-3">
-                                      <AlertTriangle size={30} /> Product Not Found
-                                  </CardTitle>
-                              </CardHeader>
-                              <CardContent className="p-6">
-                                  <p className="text-muted-foreground text-lg">
-                                      {barcodeAnalysisResult.overallAssessment || `Could not retrieve information for barcode: ${barcodeInputValue}. Please check the number or try another.`}
-                                  </p>
-                                  {barcodeAnalysisResult.source && <p className="text-sm text-muted-foreground/70 mt-2">Data source: {barcodeAnalysisResult.source}</p>}
-                              </CardContent>
-                               <CardFooter className="border-t border-border/50 pt-6">
-                                  <Button variant="outline" onClick={handleBarcodeScanNew} className="cursor-target text-base py-2.5 px-6">Scan New Barcode</Button>
-                              </CardFooter>
-                          </Card>
-                       </ElectricBorder>
+                <ProductAnalysisResult
+                  kind="barcode"
+                  result={barcodeAnalysisResult}
+                  verdict={barcodeVerdict}
+                  notFoundMessage={`Could not retrieve information for barcode: ${barcodeInputValue}. Please check the number or try another.`}
+                  onSpeak={() => speakProductAnalysisResults(barcodeAnalysisResult)}
+                  onScanNew={handleBarcodeScanNew}
+                />
+              )}
+            </TabsContent>
+            <TabsContent value="label-scan" className="mt-6">
+              <input type="file" ref={labelFileInputRef} onChange={handleLabelFileChange} accept="image/*" capture="environment" className="hidden" />
+              <div className="space-y-4">
+                <p className="text-muted-foreground">For products without a barcode: photograph the ingredients list and nutrition table flat, in good light, so the text fills the frame.</p>
+                <div className="border-2 border-dashed border-border/70 rounded-lg p-4 flex flex-col items-center space-y-4 min-h-[200px] justify-center bg-background/30">
+                  {labelImageDataUri ? (
+                    <Image
+                      src={labelImageDataUri}
+                      alt="Label preview"
+                      width={300}
+                      height={300}
+                      className="block rounded-md w-auto h-auto max-w-full max-h-[300px] shadow-xl border border-border"
+                    />
                   ) : (
-                    <ElectricBorder color="hsl(var(--accent))" speed={1} chaos={0.6} thickness={2} style={{ borderRadius: '0.75rem' }}>
-                      <Card className="bg-card/70 backdrop-blur-sm shadow-xl mt-6">
-                          <CardHeader className="border-b border-border/50 pb-4">
-                               <div className="flex flex-col sm:flex-row gap-4 items-start">
-                                  {barcodeAnalysisResult.imageUrl ? (
-                                      <Image
-                                          src={barcodeAnalysisResult.imageUrl}
-                                          alt={barcodeAnalysisResult.productName || "Product Image"}
-                                          width={100}
-                                          height={100}
-                                          className="rounded-md object-contain border border-border shadow-md bg-white"
-                                      />
-                                  ) : (
-                                       <div className="w-[100px] h-[100px] flex items-center justify-center bg-muted/70 rounded-md border border-border shadow-md">
-                                          <ImageIcon size={48} className="text-muted-foreground" />
-                                      </div>
-                                  )}
-                                  <div className="flex-1">
-                                    <div className="flex justify-between items-start">
-                                      <div>
-                                        <CardTitle className="font-headline text-2xl md:text-3xl text-primary flex items-center gap-2">
-                                            <Tag size={30} /> {barcodeAnalysisResult.productName || "Product"}
-                                        </CardTitle>
-                                        {barcodeAnalysisResult.brand && <CardDescription className="pt-1 text-base text-muted-foreground flex items-center gap-2"><Building size={16}/>{barcodeAnalysisResult.brand}</CardDescription>}
-                                      </div>
-                                      <Button variant="ghost" size="icon" onClick={() => speakBarcodeAnalysisResults(barcodeAnalysisResult)} title="Read barcode results aloud" className="cursor-target text-foreground/70 hover:text-primary hover:bg-primary/10">
-                                          <Mic className="h-6 w-6" />
-                                      </Button>
-                                    </div>
-                                    {barcodeAnalysisResult.source && <CardDescription className="pt-1 text-xs text-muted-foreground/70">Data from: {barcodeAnalysisResult.source}</CardDescription>}
-                                  </div>
-                              </div>
-                          </CardHeader>
-                          <CardContent className="space-y-5 p-6">
-                              {barcodeAnalysisResult.ingredients && barcodeAnalysisResult.ingredients.length > 0 && (
-                                  <div>
-                                      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><ListChecks size={20} className="text-accent"/>Ingredients</h3>
-                                      <p className="text-sm text-muted-foreground bg-background/40 p-3 rounded-md border border-border/40">
-                                          {barcodeAnalysisResult.ingredients.join(', ')}
-                                      </p>
-                                  </div>
-                              )}
-                               {barcodeAnalysisResult.allergens && barcodeAnalysisResult.allergens.length > 0 && (
-                                  <div className="border-t border-border/50 pt-4">
-                                      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-yellow-400"><AlertCircle size={20} />Declared Allergens</h3>
-                                      <ul className="list-disc list-inside ml-1 space-y-1 text-sm text-yellow-300/90 bg-yellow-500/10 p-3 rounded-md border border-yellow-500/30">
-                                          {barcodeAnalysisResult.allergens.map((allergen, index) => (
-                                              <li key={index}>{allergen}</li>
-                                          ))}
-                                      </ul>
-                                  </div>
-                              )}
-                              {barcodeAnalysisResult.potentialConcerns && barcodeAnalysisResult.potentialConcerns.length > 0 && (
-                                  <div className="border-t border-border/50 pt-4">
-                                      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-red-400"><AlertTriangle size={20} />Potential Concerns</h3>
-                                      <div className="space-y-2">
-                                      {barcodeAnalysisResult.potentialConcerns.map((item, index) => (
-                                          <Alert key={index} variant="destructive" className="bg-destructive/10 border-destructive/30 text-sm">
-                                              <AlertTriangle className="h-4 w-4" />
-                                              <AlertTitle className="font-medium text-red-300">{item.concern}</AlertTitle>
-                                              {item.details && <AlertDescription className="text-red-400/80">{item.details}</AlertDescription>}
-                                          </Alert>
-                                      ))}
-                                      </div>
-                                  </div>
-                              )}
-                               {barcodeAnalysisResult.overallAssessment && (
-                                  <div className="border-t border-border/50 pt-4">
-                                      <h3 className="text-lg font-semibold flex items-center gap-2 mb-1.5 text-foreground/90"><Info size={20} className="text-accent"/>Overall Assessment</h3>
-                                      <p className="text-sm text-muted-foreground p-3 bg-muted/20 rounded-md border border-muted/40">{barcodeAnalysisResult.overallAssessment}</p>
-                                  </div>
-                              )}
-                          </CardContent>
-                          <CardFooter className="border-t border-border/50 pt-6">
-                              <Button variant="outline" onClick={handleBarcodeScanNew} className="cursor-target text-base py-2.5 px-6 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">Scan New Barcode</Button>
-                          </CardFooter>
-                      </Card>
-                    </ElectricBorder>
+                    <p className="text-muted-foreground text-center flex items-center gap-2"><FileText size={20} />No label photo yet.</p>
                   )}
-                </>
+                  {!labelAnalysisResult && labelQuality && labelQuality.issues.length > 0 && (
+                    <Alert className="w-full max-w-md bg-yellow-500/10 border-yellow-500/50">
+                      <AlertTriangle className="h-5 w-5 text-yellow-400" />
+                      <AlertTitle className="text-yellow-300 font-semibold">This photo may be hard to read</AlertTitle>
+                      <AlertDescription className="text-muted-foreground">
+                        <ul className="list-disc pl-4 space-y-0.5">
+                          {labelQuality.issues.map(issue => <li key={issue.kind}>{QUALITY_ISSUE_MESSAGES[issue.kind]}</li>)}
+                        </ul>
+                        <p className="mt-1">You can retake it, or read it anyway.</p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+                <div className="flex flex-col sm:flex-row flex-wrap justify-center items-center gap-4">
+                  {labelImageDataUri && !labelAnalysisResult && (
+                    <Button onClick={handleAnalyzeLabel} disabled={isLabelLoading} className="cursor-target bg-primary hover:bg-primary/90 w-full sm:w-auto text-base py-2.5 px-6 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">
+                      <Zap className="mr-2 h-5 w-5" /> Read Label
+                    </Button>
+                  )}
+                  <Button onClick={() => labelFileInputRef.current?.click()} variant="outline" disabled={isLabelLoading} className="cursor-target w-full sm:w-auto text-base py-2.5 px-6 border-primary/70 text-primary hover:bg-primary/10 transition-all duration-150 ease-in-out shadow-md hover:-translate-y-0.5 hover:shadow-lg active:translate-y-0 active:brightness-90">
+                    <Camera className="mr-2 h-5 w-5" /> {labelImageDataUri ? "Retake Label Photo" : "Photograph Label"}
+                  </Button>
+                </div>
+              </div>
+
+              {isLabelLoading && (
+                <div className="space-y-4 pt-6">
+                    <div className="flex justify-center items-center gap-3">
+                        <div className="w-4 h-4 rounded-full bg-primary animate-pulse-dot [animation-delay:-0.3s]"></div>
+                        <div className="w-4 h-4 rounded-full bg-primary animate-pulse-dot [animation-delay:-0.15s]"></div>
+                        <div className="w-4 h-4 rounded-full bg-primary animate-pulse-dot"></div>
+                    </div>
+                    <p className="text-md text-primary text-center">AI is reading the label, please wait...</p>
+                </div>
               )}
+
+              {labelError && (
+                <Alert variant="destructive" className="mt-4 bg-destructive/20 border-destructive/50 text-destructive-foreground">
+                  <AlertTriangle className="h-5 w-5" />
+                  <AlertTitle>Label Reading Error</AlertTitle>
+                  <AlertDescription>{labelError}</AlertDescription>
+                </Alert>
+              )}
+
+              {labelAnalysisResult && (
+                <ProductAnalysisResult
+                  kind="label"
+                  result={labelAnalysisResult}
+                  verdict={labelVerdict}
+                  notFoundMessage="The label could not be read. Photograph it straight on, in good light, so the text fills the frame."
+                  photo={labelImageDataUri ?? undefined}
+                  onSpeak={() => speakProductAnalysisResults(labelAnalysisResult)}
+                  onScanNew={handleLabelScanNew}
+                />
+              )}
+            </TabsContent>
+            <TabsContent value="batch-scan" className="mt-6">
+              <BatchScanPanel session={batchSession} active={activeTab === "batch-scan"} />
             </TabsContent>
           </Tabs>
         </CardContent>
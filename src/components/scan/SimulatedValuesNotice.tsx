@@ -0,0 +1,29 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FlaskConical } from "lucide-react";
+
+interface SimulatedValuesNoticeProps {
+  hidden: boolean;
+  onHiddenChange: (hidden: boolean) => void;
+}
+
+/** Warns that part of a result was simulated rather than analyzed, with the switch that hides those values. */
+export default function SimulatedValuesNotice({ hidden, onHiddenChange }: SimulatedValuesNoticeProps) {
+  return (
+    <Alert className="mb-4 bg-yellow-500/10 border-yellow-500/50">
+      <FlaskConical className="h-5 w-5 text-yellow-400" />
+      <AlertTitle className="text-yellow-300 font-semibold">Some values are simulated</AlertTitle>
+      <AlertDescription className="text-muted-foreground space-y-3">
+        <p>
+          The AI could not analyze part of this photo confidently, so some values come from a simulation and not from the photo.
+          {hidden ? " They are hidden below." : " They are marked Simulated below and should not be relied on."}
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="hide-simulated" checked={hidden} onCheckedChange={onHiddenChange} className="cursor-target" />
+          <Label htmlFor="hide-simulated" className="cursor-pointer text-foreground/85">Hide simulated values</Label>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
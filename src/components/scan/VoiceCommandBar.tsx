@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { COMMAND_PHRASES, type VoiceCommand } from "@/lib/voice-commands";
+import { Ear, EarOff } from "lucide-react";
+
+interface VoiceCommandBarProps {
+  isListening: boolean;
+  lastHeard: string | null;
+  onToggle: () => void;
+  /** Given when commands are typed rather than spoken; shows a box to type them in while listening. */
+  onTypedCommand?: (transcript: string) => void;
+}
+
+/** Turns voice commands on and off, and lists what can be said while they are on. */
+export default function VoiceCommandBar({ isListening, lastHeard, onToggle, onTypedCommand }: VoiceCommandBarProps) {
+  const [typed, setTyped] = useState("");
+
+  const handleTypedSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!typed.trim()) return;
+    onTypedCommand?.(typed.trim());
+    setTyped("");
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background/30 p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          variant={isListening ? "default" : "outline"}
+          size="sm"
+          onClick={onToggle}
+          aria-pressed={isListening}
+          className="cursor-target"
+        >
+          {isListening ? <Ear className="mr-2 h-4 w-4" /> : <EarOff className="mr-2 h-4 w-4" />}
+          {isListening ? "Voice Commands On" : "Voice Commands Off"}
+        </Button>
+        {isListening && (
+          <p className="text-xs text-muted-foreground" aria-live="polite">
+            {lastHeard ? <>Heard: &ldquo;{lastHeard}&rdquo;</> : "Listening..."}
+          </p>
+        )}
+      </div>
+      {isListening && onTypedCommand && (
+        <form onSubmit={handleTypedSubmit} className="flex gap-2">
+          <Input value={typed} onChange={e => setTyped(e.target.value)} placeholder="Type a command" aria-label="Voice command" className="h-9" />
+          <Button type="submit" size="sm" variant="outline" disabled={!typed.trim()} className="cursor-target">
+            Say
+          </Button>
+        </form>
+      )}
+      {isListening && (
+        <p className="text-xs text-muted-foreground">
+          Say {(Object.keys(COMMAND_PHRASES) as VoiceCommand[]).map(command => `“${COMMAND_PHRASES[command][0]}”`).join(", ")}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import * as React from "react"
+import { onAuthStateChanged, type User } from "firebase/auth"
+import { getFirebaseAuth, isFirebaseConfigured } from "@/lib/firebase/client"
+
+/** The signed-in Firebase user. Always signed out when Firebase is not configured. */
+export function useAuth() {
+  const [user, setUser] = React.useState<User | null>(null)
+  const [isLoading, setIsLoading] = React.useState(isFirebaseConfigured())
+
+  React.useEffect(() => {
+    const auth = getFirebaseAuth()
+    if (!auth) {
+      setIsLoading(false)
+      return
+    }
+    return onAuthStateChanged(auth, nextUser => {
+      setUser(nextUser)
+      setIsLoading(false)
+    })
+  }, [])
+
+  return { user, isLoading, isConfigured: isFirebaseConfigured() }
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import * as React from "react"
+import { runFlow } from "@genkit-ai/next/client"
+import type { AnalyzeFoodItemOutput, analyzeFoodItemFlow } from "@/ai/flows/analyze-food-item"
+import { analyzeBarcode } from "@/ai/flows/analyze-barcode-flow"
+import { createAnalysisQueue, type AnalysisQueue, type BatchItem } from "@/lib/batch"
+import { recordScan, type NewScan } from "@/lib/history"
+
+function foodItemsTitle(result: AnalyzeFoodItemOutput): string {
+  const names = result.items.map(item => item.identification.name || "Food item")
+  if (names.length === 0) return result.nonFoodDescription || "Not food"
+  return names.length <= 3 ? names.join(", ") : `${names.slice(0, 3).join(", ")} and ${names.length - 3} more`
+}
+
+// History is best-effort, as for single scans: a storage failure must not fail the item.
+function saveToHistory(scan: NewScan) {
+  recordScan(scan).catch(e => console.warn("Could not save scan to history:", e))
+}
+
+/**
+ * A batch scanning session: photos and barcodes added one after another are
+ * analyzed in the background, a few at a time, and each finished item is saved
+ * to the history like a single scan. The session itself lives only in memory.
+ */
+export function useBatchSession() {
+  const [items, setItems] = React.useState<BatchItem[]>([])
+  // The queue reads items outside of rendering, so the latest list is kept here too.
+  const itemsRef = React.useRef<BatchItem[]>([])
+  const queueRef = React.useRef<AnalysisQueue | null>(null)
+  const photoCountRef = React.useRef(0)
+
+  const updateItems = React.useCallback((update: (current: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = update(itemsRef.current)
+    setItems(itemsRef.current)
+  }, [])
+
+  /** Does nothing when the item was removed or the session cleared while it was being analyzed. */
+  const patchItem = React.useCallback((id: string, changes: Partial<BatchItem>) => {
+    updateItems(current => current.map(item => (item.id === id ? { ...item, ...changes } as BatchItem : item)))
+  }, [updateItems])
+
+  const analyze = React.useCallback(async (id: string) => {
+    const item = itemsRef.current.find(candidate => candidate.id === id)
+    if (!item) return
+    patchItem(id, { status: "analyzing", error: undefined })
+    try {
+      if (item.kind === "image") {
+        if (!item.photoDataUri) throw new Error("The photo is no longer available. Remove this item and add the photo again.")
+        const result = await runFlow<typeof analyzeFoodItemFlow>({ url: "/api/analyze-food-item", input: { photoDataUri: item.photoDataUri } })
+        // A photo that needs retaking identified nothing, so its placeholder title stays.
+        const title = result.needsBetterPhoto ? item.title : foodItemsTitle(result)
+        patchItem(id, { status: "done", title, result, photoDataUri: undefined })
+        if (!result.needsBetterPhoto) saveToHistory({ kind: "image", title, thumbnail: item.thumbnail, result })
+      } else {
+        const result = await analyzeBarcode({ barcodeNumber: item.barcode })
+        if (result.validationError) throw new Error(result.validationError)
+        const title = result.productName || `Barcode ${item.barcode}`
+        patchItem(id, { status: "done", title, thumbnail: result.imageUrl, result })
+        saveToHistory({ kind: "barcode", barcode: item.barcode, title, thumbnail: result.imageUrl, result })
+      }
+    } catch (err) {
+      console.error("Batch item analysis error:", err)
+      patchItem(id, { status: "failed", error: err instanceof Error ? err.message : "An unknown error occurred during analysis." })
+    }
+  }, [patchItem])
+
+  const getQueue = React.useCallback(() => {
+    if (!queueRef.current) queueRef.current = createAnalysisQueue(analyze)
+    return queueRef.current
+  }, [analyze])
+
+  const addItem = React.useCallback((item: BatchItem) => {
+    updateItems(current => [...current, item])
+    getQueue().enqueue(item.id, item.kind)
+  }, [getQueue, updateItems])
+
+  /** Adds a photo prepared by `prepareImageForAnalysis`. */
+  const addPhoto = React.useCallback((photoDataUri: string, thumbnail?: string) => {
+    photoCountRef.current += 1
+    addItem({
+      id: crypto.randomUUID(),
+      addedAt: Date.now(),
+      kind: "image",
+      title: `Photo ${photoCountRef.current}`,
+      thumbnail,
+      photoDataUri,
+      status: "queued",
+    })
+  }, [addItem])
+
+  /** Adds a validated barcode. Returns false, adding nothing, when it is already in the session. */
+  const addBarcode = React.useCallback((barcode: string): boolean => {
+    if (itemsRef.current.some(item => item.kind === "barcode" && item.barcode === barcode)) return false
+    addItem({
+      id: crypto.randomUUID(),
+      addedAt: Date.now(),
+      kind: "barcode",
+      title: `Barcode ${barcode}`,
+      barcode,
+      status: "queued",
+    })
+    return true
+  }, [addItem])
+
+  const retry = React.useCallback((id: string) => {
+    const item = itemsRef.current.find(candidate => candidate.id === id)
+    if (!item || item.status !== "failed") return
+    patchItem(id, { status: "queued", error: undefined })
+    getQueue().enqueue(id, item.kind)
+  }, [getQueue, patchItem])
+
+  const remove = React.useCallback((id: string) => {
+    queueRef.current?.remove(id)
+    updateItems(current => current.filter(item => item.id !== id))
+  }, [updateItems])
+
+  const clear = React.useCallback(() => {
+    queueRef.current?.clear()
+    photoCountRef.current = 0
+    updateItems(() => [])
+  }, [updateItems])
+
+  const pendingCount = items.filter(item => item.status === "queued" || item.status === "analyzing").length
+
+  return { items, pendingCount, addPhoto, addBarcode, retry, remove, clear }
+}
+
+export type BatchSession = ReturnType<typeof useBatchSession>
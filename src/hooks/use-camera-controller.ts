@@ -0,0 +1,88 @@
+"use client"
+
+import * as React from "react"
+import {
+  applyCameraSettings,
+  focusAt,
+  listCameras,
+  loadCameraPreferences,
+  readCapabilities,
+  saveCameraPreferences,
+  type CameraCapabilities,
+  type CameraDevice,
+  type CameraPreferences,
+  type CameraSettings,
+} from "@/lib/camera"
+
+/**
+ * Which camera to open, and the controls of the one that is open. The page
+ * opens the stream and hands it over with `attach`; the camera's remembered
+ * settings are applied then.
+ */
+export function useCameraController() {
+  // Nothing rendered depends on these before a camera is attached, so reading storage here is safe for hydration.
+  const [preferences, setPreferences] = React.useState<CameraPreferences>(loadCameraPreferences)
+  const [cameras, setCameras] = React.useState<CameraDevice[]>([])
+  const [capabilities, setCapabilities] = React.useState<CameraCapabilities | null>(null)
+  const [activeDeviceId, setActiveDeviceId] = React.useState<string | null>(null)
+  const trackRef = React.useRef<MediaStreamTrack | null>(null)
+
+  const updatePreferences = React.useCallback((update: (current: CameraPreferences) => CameraPreferences) => {
+    setPreferences(current => {
+      const next = update(current)
+      saveCameraPreferences(next)
+      return next
+    })
+  }, [])
+
+  const attach = React.useCallback(async (stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0]
+    if (!track) return
+    trackRef.current = track
+    const trackCapabilities = readCapabilities(track)
+    const deviceId = track.getSettings().deviceId ?? null
+    setCapabilities(trackCapabilities)
+    setActiveDeviceId(deviceId)
+    const saved = deviceId ? loadCameraPreferences().settings[deviceId] : undefined
+    if (saved) {
+      await applyCameraSettings(track, saved, trackCapabilities).catch(e => console.warn("Could not restore camera settings:", e))
+    }
+    // Labels are only filled in once camera permission has been granted, so list after opening.
+    setCameras(await listCameras().catch(() => []))
+  }, [])
+
+  const detach = React.useCallback(() => {
+    trackRef.current = null
+    setCapabilities(null)
+  }, [])
+
+  const settings: CameraSettings = (activeDeviceId && preferences.settings[activeDeviceId]) || {}
+
+  const changeSettings = React.useCallback((changes: CameraSettings) => {
+    const track = trackRef.current
+    if (!track || !capabilities) return
+    applyCameraSettings(track, changes, capabilities).catch(e => console.warn("Could not apply camera settings:", e))
+    if (!activeDeviceId) return
+    updatePreferences(current => ({
+      ...current,
+      settings: { ...current.settings, [activeDeviceId]: { ...current.settings[activeDeviceId], ...changes } },
+    }))
+  }, [activeDeviceId, capabilities, updatePreferences])
+
+  /** Null goes back to choosing the camera by facing mode. */
+  const selectDevice = React.useCallback((deviceId: string | null) => {
+    updatePreferences(current => ({ ...current, deviceId }))
+  }, [updatePreferences])
+
+  const switchFacingMode = React.useCallback(() => {
+    updatePreferences(current => ({ ...current, deviceId: null, facingMode: current.facingMode === "environment" ? "user" : "environment" }))
+  }, [updatePreferences])
+
+  const focus = React.useCallback((x: number, y: number) => {
+    const track = trackRef.current
+    if (!track || !capabilities) return
+    focusAt(track, capabilities, x, y).catch(e => console.warn("Could not focus:", e))
+  }, [capabilities])
+
+  return { preferences, cameras, capabilities, activeDeviceId, settings, attach, detach, changeSettings, selectDevice, switchFacingMode, focus }
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import { dietaryProfileSetting } from "@/lib/profile"
+import { useSyncedSetting } from "@/hooks/use-synced-setting"
+
+/** The user's dietary profile, kept on this device and synced to their account. */
+export function useDietaryProfile() {
+  const { value: profile, isLoaded, save: saveProfile } = useSyncedSetting(dietaryProfileSetting)
+  return { profile, isLoaded, saveProfile }
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import * as React from "react"
+import { createFrameSampler, type FrameAssessment, type FramingCue } from "@/lib/framing"
+
+const SAMPLE_INTERVAL_MS = 250
+// A cue must hold for this many samples before it is announced, so one odd frame is not.
+const CUE_CONFIRM_SAMPLES = 2
+// A changed cue waits this long after the previous one, so cues do not talk over each other.
+const MIN_CUE_GAP_MS = 1500
+// An unchanged cue is repeated after this long, so the user knows the assistant is still working.
+const CUE_REPEAT_MS = 4000
+// Consecutive 'ready' samples before capturing: about a second of steady, well-framed video.
+const READY_SAMPLES = 4
+
+interface UseFramingAssistantOptions {
+  enabled: boolean
+  /** Called when a cue should be announced. */
+  onCue: (cue: FramingCue) => void
+  /** Called once the frame has been ready for long enough to capture. */
+  onReady: () => void
+}
+
+/** Samples the video while enabled and reports framing cues and when to capture. */
+export function useFramingAssistant(videoRef: React.RefObject<HTMLVideoElement | null>, { enabled, onCue, onReady }: UseFramingAssistantOptions) {
+  const [assessment, setAssessment] = React.useState<FrameAssessment | null>(null)
+  /** 0 to 1: how close the frame is to being captured. */
+  const [readyProgress, setReadyProgress] = React.useState(0)
+  const onCueRef = React.useRef(onCue)
+  const onReadyRef = React.useRef(onReady)
+
+  React.useEffect(() => {
+    onCueRef.current = onCue
+    onReadyRef.current = onReady
+  }, [onCue, onReady])
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setAssessment(null)
+      setReadyProgress(0)
+      return
+    }
+    const sampler = createFrameSampler()
+    let candidate: FramingCue | null = null
+    let candidateSamples = 0
+    let announced: FramingCue | null = null
+    let announcedAt = 0
+    let readySamples = 0
+
+    const timer = setInterval(() => {
+      const video = videoRef.current
+      const next = video && sampler.assess(video)
+      if (!next) return
+      setAssessment(next)
+
+      readySamples = next.cue === "ready" ? readySamples + 1 : 0
+      setReadyProgress(Math.min(1, readySamples / READY_SAMPLES))
+      if (readySamples >= READY_SAMPLES) {
+        readySamples = 0
+        onReadyRef.current()
+        return
+      }
+
+      candidateSamples = next.cue === candidate ? candidateSamples + 1 : 1
+      candidate = next.cue
+      if (candidateSamples < CUE_CONFIRM_SAMPLES) return
+      const sinceLast = Date.now() - announcedAt
+      if ((candidate !== announced && sinceLast >= MIN_CUE_GAP_MS) || sinceLast >= CUE_REPEAT_MS) {
+        announced = candidate
+        announcedAt = Date.now()
+        onCueRef.current(candidate)
+      }
+    }, SAMPLE_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [enabled, videoRef])
+
+  return { assessment, readyProgress }
+}
@@ -0,0 +1,9 @@
+"use client"
+
+import { preferencesSetting } from "@/lib/preferences"
+import { useSyncedSetting } from "@/hooks/use-synced-setting"
+
+export function usePreferences() {
+  const { value: preferences, isLoaded, save: savePreferences } = useSyncedSetting(preferencesSetting)
+  return { preferences, isLoaded, savePreferences }
+}
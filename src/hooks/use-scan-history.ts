@@ -0,0 +1,38 @@
+"use client"
+
+import * as React from "react"
+import { deleteScan, listScans, type ScanHistoryEntry } from "@/lib/history"
+import { useAuth } from "@/hooks/use-auth"
+
+export function useScanHistory() {
+  const { user, isLoading: isAuthLoading } = useAuth()
+  const uid = user?.uid
+  const [entries, setEntries] = React.useState<ScanHistoryEntry[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await listScans())
+      setError(null)
+    } catch (e) {
+      console.error("Could not load scan history:", e)
+      setError(e instanceof Error ? e.message : "Could not load scan history.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Reloads when the signed-in account changes, which also syncs with the new account.
+  React.useEffect(() => {
+    if (!isAuthLoading) refresh()
+  }, [refresh, uid, isAuthLoading])
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteScan(id)
+    setEntries(current => current.filter(entry => entry.id !== id))
+  }, [])
+
+  return { entries, isLoading, error, refresh, remove }
+}
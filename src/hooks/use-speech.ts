@@ -0,0 +1,32 @@
+"use client"
+
+import * as React from "react"
+import { isSpeechSupported, speak as speakWith, speechSetting, stopSpeaking } from "@/lib/speech"
+import { useSyncedSetting } from "@/hooks/use-synced-setting"
+
+/**
+ * The user's speech settings and the voices installed on this device, with a
+ * `speak` that reads text using them.
+ */
+export function useSpeech() {
+  const { value: settings, isLoaded, save: saveSettings } = useSyncedSetting(speechSetting)
+  const [voices, setVoices] = React.useState<SpeechSynthesisVoice[]>([])
+  const [isSupported, setIsSupported] = React.useState(false)
+
+  // Browsers load voices asynchronously; Chrome returns none until "voiceschanged" fires.
+  React.useEffect(() => {
+    if (!isSpeechSupported()) return
+    setIsSupported(true)
+    const updateVoices = () => setVoices(window.speechSynthesis.getVoices())
+    updateVoices()
+    window.speechSynthesis.addEventListener("voiceschanged", updateVoices)
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", updateVoices)
+  }, [])
+
+  const speak = React.useCallback(
+    (text: string, options?: { interrupt?: boolean }) => speakWith(text, settings, voices, options),
+    [settings, voices]
+  )
+
+  return { settings, isLoaded, saveSettings, voices, isSupported, speak, cancel: stopSpeaking }
+}
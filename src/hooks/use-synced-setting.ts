@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+import { reconcileSetting, type SyncedSetting, type SyncedValue } from "@/lib/sync/synced-setting"
+import { useAuth } from "@/hooks/use-auth"
+
+/**
+ * A synced setting's current value. The local copy is shown immediately; once
+ * a user is signed in (or switches accounts) it is reconciled with their account.
+ */
+export function useSyncedSetting<T extends SyncedValue>(setting: SyncedSetting<T>) {
+  const { user } = useAuth()
+  const uid = user?.uid
+  const [value, setValue] = React.useState<T>(setting.defaults)
+  const [isLoaded, setIsLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+    setValue(setting.loadLocal(uid ?? null))
+    setIsLoaded(true)
+    if (!uid) return
+
+    reconcileSetting(setting, uid)
+      .then(reconciled => {
+        if (!cancelled) setValue(reconciled)
+      })
+      .catch(e => console.warn(`Could not sync the ${setting.name}:`, e))
+
+    return () => {
+      cancelled = true
+    }
+  }, [setting, uid])
+
+  const save = React.useCallback((next: Omit<T, "updatedAt">) => {
+    const stamped = { ...next, updatedAt: Date.now() } as T
+    setValue(stamped)
+    setting.saveLocal(stamped, uid ?? null)
+    // Not awaited: offline, Firestore queues the write and only resolves once the server has it.
+    setting.saveRemote(stamped).catch(e => console.warn(`Could not sync the ${setting.name}:`, e))
+  }, [setting, uid])
+
+  return { value, isLoaded, save }
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import * as React from "react"
+import { isSpeaking } from "@/lib/speech"
+import { createWebSpeechRecognizer, matchCommand, type CommandRecognizer, type VoiceCommand } from "@/lib/voice-commands"
+
+// Browsers end a listening session after a silence; it is restarted after this pause.
+const RESTART_DELAY_MS = 300
+// Give up after this many sessions in a row end in an error without hearing anything.
+const MAX_FAILED_SESSIONS = 3
+
+export type VoiceCommandError = "not-allowed" | "unavailable" | "failed"
+
+interface UseVoiceCommandsOptions {
+  onCommand: (command: VoiceCommand) => void
+  /** Defaults to the browser's speech recognition; pass another recognizer to stand in for it. */
+  recognizer?: CommandRecognizer
+  /** The language commands are spoken in. */
+  lang?: string
+}
+
+/**
+ * Listens for the scan screen's voice commands until stopped. While the app is
+ * reading aloud only "stop" is acted on, because the microphone also hears the
+ * readout, which can name other commands.
+ */
+export function useVoiceCommands({ onCommand, recognizer, lang = "en-US" }: UseVoiceCommandsOptions) {
+  const recognizerRef = React.useRef<CommandRecognizer | null>(null)
+  const onCommandRef = React.useRef(onCommand)
+  const wantsToListenRef = React.useRef(false)
+  const failedSessionsRef = React.useRef(0)
+  const [isSupported, setIsSupported] = React.useState(false)
+  const [isListening, setIsListening] = React.useState(false)
+  const [lastHeard, setLastHeard] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<VoiceCommandError | null>(null)
+
+  React.useEffect(() => {
+    onCommandRef.current = onCommand
+  }, [onCommand])
+
+  React.useEffect(() => {
+    const current = recognizer ?? createWebSpeechRecognizer(lang)
+    recognizerRef.current = current
+    setIsSupported(current !== null)
+    return () => {
+      wantsToListenRef.current = false
+      current?.stop()
+      setIsListening(false)
+    }
+  }, [recognizer, lang])
+
+  const listen = React.useCallback(() => {
+    const current = recognizerRef.current
+    if (!current) return
+    let failed = false
+    current.start({
+      onTranscripts: transcripts => {
+        failedSessionsRef.current = 0
+        setLastHeard(transcripts[0] ?? null)
+        const command = matchCommand(transcripts)
+        if (!command || (command !== "stop" && isSpeaking())) return
+        onCommandRef.current(command)
+      },
+      onError: kind => {
+        failed = true
+        if (kind !== "failed") {
+          wantsToListenRef.current = false
+          setError(kind)
+        }
+      },
+      onEnd: () => {
+        if (recognizerRef.current !== current) return
+        failedSessionsRef.current = failed ? failedSessionsRef.current + 1 : 0
+        if (failedSessionsRef.current >= MAX_FAILED_SESSIONS) {
+          wantsToListenRef.current = false
+          setError("failed")
+        }
+        if (!wantsToListenRef.current) {
+          setIsListening(false)
+          return
+        }
+        setTimeout(() => {
+          if (wantsToListenRef.current && recognizerRef.current === current) listen()
+        }, RESTART_DELAY_MS)
+      },
+    })
+  }, [])
+
+  const start = React.useCallback(() => {
+    if (!recognizerRef.current || wantsToListenRef.current) return
+    wantsToListenRef.current = true
+    failedSessionsRef.current = 0
+    setError(null)
+    setLastHeard(null)
+    setIsListening(true)
+    listen()
+  }, [listen])
+
+  const stop = React.useCallback(() => {
+    wantsToListenRef.current = false
+    recognizerRef.current?.stop()
+    setIsListening(false)
+  }, [])
+
+  return { isSupported, isListening, lastHeard, error, start, stop }
+}
@@ -0,0 +1,141 @@
+/**
+ * @fileOverview Deterministic additive analysis over an ingredients list.
+ *
+ * Matches E-numbers/INS numbers ("E211", "INS 330", "acidity regulator (330)")
+ * and common names ("sodium benzoate", "MSG") against the curated knowledge
+ * base in `additives.json`. The same ingredients always produce the same
+ * findings, each with the sources behind its regulatory status and risk tier.
+ *
+ * - findAdditives - Recognizes additives in a list of ingredient strings.
+ * - concernsFromAdditives - Turns moderate/high-risk findings into cited concerns.
+ */
+
+import knowledgeBase from './additives.json';
+import type { AdditiveFinding, Citation, ProductConcern, RegulatoryStatus, RiskTier } from '@/ai/schemas/additives';
+
+interface AdditiveEntry {
+  code: string;
+  name: string;
+  synonyms: string[];
+  functionalClass: string;
+  regulatoryStatus: { eu: RegulatoryStatus; us: RegulatoryStatus; india: RegulatoryStatus };
+  riskTier: RiskTier;
+  note: string;
+  references: string[];
+}
+
+interface KnowledgeBase {
+  version: string;
+  sources: Record<string, Citation>;
+  additives: AdditiveEntry[];
+}
+
+const KB = knowledgeBase as KnowledgeBase;
+
+export const ADDITIVE_DATABASE_VERSION = KB.version;
+
+const BY_CODE = new Map(KB.additives.map(entry => [entry.code, entry]));
+
+// "E211", "E 211", "E-150d", "INS 330", "e500(ii)"
+const PREFIXED_CODE = /\b(?:e|ins)\s*-?\s*(\d{3,4})\s*([a-f])?\b/g;
+// Indian labels often list bare INS numbers: "acidity regulator (330)", "raising agent (500(ii))".
+// A bracketed number only counts after a class name; elsewhere it is as likely a quantity ("water (100)").
+const ADDITIVE_CLASSES = [
+  'colou?r', 'preservative', 'acidity regulator', 'antioxidant', 'emulsifier', 'stabili[sz]er', 'thickener',
+  'thickening agent', 'sweetener', 'gelling agent', 'raising agent', 'flavou?r enhancer', 'anti-?caking agent',
+  'flour treatment agent',
+];
+const BARE_CODE = new RegExp(`\\b(?:${ADDITIVE_CLASSES.join('|')})s?\\s*\\(\\s*(\\d{3,4})\\s*([a-f])?\\s*(?:\\(\\s*[ivx]+\\s*\\))?\\s*\\)`, 'g');
+
+// Labels name an additive by its plain name ("tartrazine") as often as by a synonym.
+const SYNONYM_PATTERNS = KB.additives.flatMap(entry =>
+  [...new Set([normalize(entry.name), ...entry.synonyms])].map(synonym => ({
+    entry,
+    pattern: new RegExp(`(^|[^a-z0-9])${synonym.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=$|[^a-z0-9])`),
+  }))
+);
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function lookupCode(digits: string, suffix: string | undefined): AdditiveEntry | undefined {
+  return (suffix && BY_CODE.get(`E${digits}${suffix}`)) || BY_CODE.get(`E${digits}`);
+}
+
+function matchIngredient(ingredient: string): AdditiveEntry[] {
+  const text = normalize(ingredient);
+  const matches: AdditiveEntry[] = [];
+
+  for (const pattern of [PREFIXED_CODE, BARE_CODE]) {
+    for (const match of text.matchAll(pattern)) {
+      const entry = lookupCode(match[1], match[2]);
+      if (entry) matches.push(entry);
+    }
+  }
+  for (const { entry, pattern } of SYNONYM_PATTERNS) {
+    if (pattern.test(text)) matches.push(entry);
+  }
+  return matches;
+}
+
+function citationsFor(entry: AdditiveEntry): Citation[] {
+  return entry.references.map(id => KB.sources[id]).filter(Boolean);
+}
+
+/**
+ * Returns one finding per distinct additive, in the order the additives first
+ * appear in the ingredients list.
+ */
+export function findAdditives(ingredients: string[]): AdditiveFinding[] {
+  const findings = new Map<string, AdditiveFinding>();
+
+  for (const ingredient of ingredients) {
+    for (const entry of matchIngredient(ingredient)) {
+      if (findings.has(entry.code)) continue;
+      findings.set(entry.code, {
+        code: entry.code,
+        name: entry.name,
+        functionalClass: entry.functionalClass,
+        riskTier: entry.riskTier,
+        regulatoryStatus: entry.regulatoryStatus,
+        note: entry.note,
+        matchedText: ingredient,
+        citations: citationsFor(entry),
+      });
+    }
+  }
+  return [...findings.values()];
+}
+
+const REGION_NAMES = { eu: 'EU', us: 'US', india: 'India' } as const;
+
+function describeRegulatoryStatus(status: AdditiveFinding['regulatoryStatus']): string {
+  const regions = (value: RegulatoryStatus) =>
+    (Object.keys(REGION_NAMES) as (keyof typeof REGION_NAMES)[]).filter(region => status[region] === value).map(region => REGION_NAMES[region]);
+  const notPermitted = regions('not-permitted');
+  const restricted = regions('restricted');
+  return [
+    notPermitted.length > 0 ? `Not permitted in: ${notPermitted.join(', ')}.` : '',
+    restricted.length > 0 ? `Restricted use in: ${restricted.join(', ')}.` : '',
+  ].filter(Boolean).join(' ');
+}
+
+const TIER_ORDER: Record<RiskTier, number> = { high: 0, moderate: 1, low: 2 };
+
+/** Concerns for moderate- and high-risk additives, highest risk first. */
+export function concernsFromAdditives(findings: AdditiveFinding[]): ProductConcern[] {
+  return findings
+    .filter(finding => finding.riskTier !== 'low')
+    .sort((a, b) => TIER_ORDER[a.riskTier] - TIER_ORDER[b.riskTier])
+    .map(finding => {
+      const functionalClass = finding.functionalClass.charAt(0).toUpperCase() + finding.functionalClass.slice(1);
+      return {
+        concern: `${functionalClass}: ${finding.name} (${finding.code})`,
+        details: [finding.note, describeRegulatoryStatus(finding.regulatoryStatus)].filter(Boolean).join(' '),
+        origin: 'additive-database' as const,
+        additiveCode: finding.code,
+        citations: finding.citations,
+      };
+    });
+}
@@ -0,0 +1,302 @@
+/**
+ * @fileOverview A small pure-JS decoder for retail (EAN/UPC) barcodes.
+ *
+ * Used as a fallback when the browser does not ship the native
+ * `BarcodeDetector` API. The decoder samples a handful of horizontal scanlines
+ * from a frame, binarizes each line, converts it to run lengths and matches
+ * the runs against the EAN-13, EAN-8 and UPC-E symbologies (UPC-A is decoded
+ * as an EAN-13 with a leading zero). Every candidate must pass its check digit
+ * before it is returned.
+ *
+ * - decodeRetailBarcode - Decodes the first valid barcode found in a frame.
+ * - decodeScanline - Decodes a single row of grayscale pixels.
+ */
+
+import { computeCheckDigit, expandUpcE } from './gtin';
+
+export type RetailBarcodeFormat = 'ean_13' | 'ean_8' | 'upc_a' | 'upc_e';
+
+export interface DecodedBarcode {
+  format: RetailBarcodeFormat;
+  rawValue: string;
+}
+
+/** Minimal structural type so both `ImageData` and plain objects can be decoded. */
+export interface FrameLike {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Widths (in modules) of the four runs of each digit, for the L (odd parity) set.
+// The G set is the reverse of L, and the R set shares L's widths but starts with a bar.
+const L_PATTERNS: readonly (readonly number[])[] = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Parity of the six left-hand digits (bit set = G) encodes the leading EAN-13 digit.
+const EAN13_FIRST_DIGIT_PARITIES = [0x00, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a];
+
+// Parity of the six UPC-E digits encodes the number system (row) and the check digit (column).
+const UPCE_PARITIES = [
+  [0x38, 0x34, 0x32, 0x31, 0x2c, 0x26, 0x23, 0x2a, 0x29, 0x25],
+  [0x07, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a],
+];
+
+const MAX_DIGIT_VARIANCE = 0.48;
+const MAX_GUARD_VARIANCE = 0.6;
+const MIN_QUIET_ZONE_MODULES = 3;
+const MIN_ROW_CONTRAST = 40;
+
+interface DigitMatch {
+  digit: number;
+  isG: boolean;
+}
+
+/**
+ * Average relative deviation between measured run widths and an ideal pattern,
+ * after scaling the pattern to the measured total width.
+ */
+function patternVariance(runs: readonly number[], pattern: readonly number[]): number {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  const patternTotal = pattern.reduce((sum, unit) => sum + unit, 0);
+  if (total === 0) return Infinity;
+  const unit = total / patternTotal;
+  let variance = 0;
+  for (let i = 0; i < runs.length; i++) {
+    variance += Math.abs(runs[i] - pattern[i] * unit) / unit;
+  }
+  return variance / runs.length;
+}
+
+function matchDigit(runs: readonly number[], allowG: boolean): DigitMatch | null {
+  let best: DigitMatch | null = null;
+  let bestVariance = MAX_DIGIT_VARIANCE;
+  for (let digit = 0; digit < 10; digit++) {
+    const lVariance = patternVariance(runs, L_PATTERNS[digit]);
+    if (lVariance < bestVariance) {
+      bestVariance = lVariance;
+      best = { digit, isG: false };
+    }
+    if (allowG) {
+      const gVariance = patternVariance(runs, G_PATTERNS[digit]);
+      if (gVariance < bestVariance) {
+        bestVariance = gVariance;
+        best = { digit, isG: true };
+      }
+    }
+  }
+  return best;
+}
+
+function isGuard(runs: readonly number[], start: number, count: number, moduleWidth: number): boolean {
+  if (start + count > runs.length) return false;
+  const guard = runs.slice(start, start + count);
+  return patternVariance(guard, new Array(count).fill(1)) < MAX_GUARD_VARIANCE &&
+    Math.abs(guard.reduce((sum, run) => sum + run, 0) / count - moduleWidth) / moduleWidth < MAX_GUARD_VARIANCE;
+}
+
+function hasQuietZone(runs: readonly number[], index: number, moduleWidth: number): boolean {
+  // Runs outside the array are the edge of the frame, which we treat as quiet.
+  if (index < 0 || index >= runs.length) return true;
+  return runs[index] >= moduleWidth * MIN_QUIET_ZONE_MODULES;
+}
+
+function sumRuns(runs: readonly number[], start: number, count: number): number {
+  let total = 0;
+  for (let i = start; i < start + count; i++) total += runs[i];
+  return total;
+}
+
+/**
+ * Attempts to decode a symbol whose start guard begins at `runs[start]`.
+ * `runs[start]` must be a bar (dark run).
+ */
+function decodeAt(runs: readonly number[], start: number): DecodedBarcode | null {
+  return decodeEan13At(runs, start) ?? decodeEan8At(runs, start) ?? decodeUpcEAt(runs, start);
+}
+
+function decodeEan13At(runs: readonly number[], start: number): DecodedBarcode | null {
+  const runCount = 3 + 24 + 5 + 24 + 3;
+  if (start + runCount > runs.length) return null;
+  const moduleWidth = sumRuns(runs, start, runCount) / 95;
+  if (!hasQuietZone(runs, start - 1, moduleWidth) || !hasQuietZone(runs, start + runCount, moduleWidth)) return null;
+  if (!isGuard(runs, start, 3, moduleWidth)) return null;
+  if (!isGuard(runs, start + 27, 5, moduleWidth)) return null;
+  if (!isGuard(runs, start + 56, 3, moduleWidth)) return null;
+
+  const digits: number[] = [];
+  let parity = 0;
+  for (let i = 0; i < 6; i++) {
+    const offset = start + 3 + i * 4;
+    const match = matchDigit(runs.slice(offset, offset + 4), true);
+    if (!match) return null;
+    digits.push(match.digit);
+    parity = (parity << 1) | (match.isG ? 1 : 0);
+  }
+  const firstDigit = EAN13_FIRST_DIGIT_PARITIES.indexOf(parity);
+  if (firstDigit === -1) return null;
+  for (let i = 0; i < 6; i++) {
+    const offset = start + 32 + i * 4;
+    const match = matchDigit(runs.slice(offset, offset + 4), false);
+    if (!match) return null;
+    digits.push(match.digit);
+  }
+
+  const value = `${firstDigit}${digits.join('')}`;
+  if (computeCheckDigit(value.slice(0, -1)) !== Number(value.slice(-1))) return null;
+  return value.startsWith('0')
+    ? { format: 'upc_a', rawValue: value.slice(1) }
+    : { format: 'ean_13', rawValue: value };
+}
+
+function decodeEan8At(runs: readonly number[], start: number): DecodedBarcode | null {
+  const runCount = 3 + 16 + 5 + 16 + 3;
+  if (start + runCount > runs.length) return null;
+  const moduleWidth = sumRuns(runs, start, runCount) / 67;
+  if (!hasQuietZone(runs, start - 1, moduleWidth) || !hasQuietZone(runs, start + runCount, moduleWidth)) return null;
+  if (!isGuard(runs, start, 3, moduleWidth)) return null;
+  if (!isGuard(runs, start + 19, 5, moduleWidth)) return null;
+  if (!isGuard(runs, start + 40, 3, moduleWidth)) return null;
+
+  const digits: number[] = [];
+  for (const halfStart of [start + 3, start + 24]) {
+    for (let i = 0; i < 4; i++) {
+      const offset = halfStart + i * 4;
+      const match = matchDigit(runs.slice(offset, offset + 4), false);
+      if (!match) return null;
+      digits.push(match.digit);
+    }
+  }
+
+  const value = digits.join('');
+  if (computeCheckDigit(value.slice(0, -1)) !== Number(value.slice(-1))) return null;
+  return { format: 'ean_8', rawValue: value };
+}
+
+function decodeUpcEAt(runs: readonly number[], start: number): DecodedBarcode | null {
+  const runCount = 3 + 24 + 6;
+  if (start + runCount > runs.length) return null;
+  const moduleWidth = sumRuns(runs, start, runCount) / 51;
+  if (!hasQuietZone(runs, start - 1, moduleWidth) || !hasQuietZone(runs, start + runCount, moduleWidth)) return null;
+  if (!isGuard(runs, start, 3, moduleWidth)) return null;
+  if (!isGuard(runs, start + 27, 6, moduleWidth)) return null;
+
+  const digits: number[] = [];
+  let parity = 0;
+  for (let i = 0; i < 6; i++) {
+    const offset = start + 3 + i * 4;
+    const match = matchDigit(runs.slice(offset, offset + 4), true);
+    if (!match) return null;
+    digits.push(match.digit);
+    parity = (parity << 1) | (match.isG ? 1 : 0);
+  }
+
+  for (let numberSystem = 0; numberSystem < 2; numberSystem++) {
+    const checkDigit = UPCE_PARITIES[numberSystem].indexOf(parity);
+    if (checkDigit === -1) continue;
+    const value = `${numberSystem}${digits.join('')}${checkDigit}`;
+    const expanded = expandUpcE(value);
+    if (!expanded || computeCheckDigit(expanded.slice(0, -1)) !== checkDigit) return null;
+    return { format: 'upc_e', rawValue: value };
+  }
+  return null;
+}
+
+/**
+ * Converts a row of grayscale values into alternating run lengths, beginning
+ * with a light run. A local (windowed) mean is used as the threshold so the
+ * decoder tolerates uneven lighting across the label.
+ */
+function toRuns(row: Uint8ClampedArray | number[]): number[] {
+  const width = row.length;
+  const window = Math.max(8, Math.floor(width / 8));
+  const prefix = new Float64Array(width + 1);
+  for (let x = 0; x < width; x++) prefix[x + 1] = prefix[x] + row[x];
+
+  const runs: number[] = [];
+  let isDark = false;
+  let length = 0;
+  for (let x = 0; x < width; x++) {
+    const from = Math.max(0, x - window);
+    const to = Math.min(width, x + window + 1);
+    const localMean = (prefix[to] - prefix[from]) / (to - from);
+    const dark = row[x] < localMean;
+    if (dark === isDark) {
+      length++;
+    } else {
+      runs.push(length);
+      isDark = dark;
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return runs;
+}
+
+/**
+ * Decodes a single scanline of grayscale (0-255) values. A row across an
+ * upside-down label meets the symbol end guard first, so the runs are also
+ * tried in reverse, which puts them back in printed order.
+ */
+export function decodeScanline(row: Uint8ClampedArray | number[]): DecodedBarcode | null {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] < min) min = row[i];
+    if (row[i] > max) max = row[i];
+  }
+  if (max - min < MIN_ROW_CONTRAST) return null;
+
+  const forward = toRuns(row);
+  // Reversed runs of an upright label match nothing, but those of an upside-down
+  // label are the symbol as printed, so the same decoders and parity tables apply.
+  // A light run must still come first to keep light runs on even indices.
+  const backward = [...forward].reverse();
+  if (backward.length % 2 === 0) backward.unshift(0);
+
+  for (const runs of [forward, backward]) {
+    // Dark runs sit on odd indices.
+    for (let i = 1; i < runs.length; i += 2) {
+      const decoded = decodeAt(runs, i);
+      if (decoded) return decoded;
+    }
+  }
+  return null;
+}
+
+/**
+ * Samples evenly spaced rows across the middle of an RGBA frame and returns
+ * the first barcode that decodes with a valid check digit.
+ */
+export function decodeRetailBarcode(frame: FrameLike, rowCount = 15): DecodedBarcode | null {
+  const { data, width, height } = frame;
+  const row = new Uint8ClampedArray(width);
+  const top = Math.floor(height * 0.2);
+  const span = Math.floor(height * 0.6);
+
+  for (let r = 0; r < rowCount; r++) {
+    // Start from the centre row and alternate outwards, where labels are usually aimed.
+    const step = Math.ceil(r / 2) * (r % 2 === 0 ? 1 : -1);
+    const y = top + Math.floor(span / 2) + Math.floor((step * span) / rowCount);
+    if (y < 0 || y >= height) continue;
+    const base = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      const i = base + x * 4;
+      row[x] = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+    }
+    const decoded = decodeScanline(row);
+    if (decoded) return decoded;
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Reads retail barcodes from live video frames.
+ *
+ * Prefers the browser's native `BarcodeDetector` (Chrome on Android, Safari 17+)
+ * and falls back to the pure-JS decoder in `ean-decoder.ts` elsewhere.
+ *
+ * - createBarcodeFrameReader - Builds the best available reader for this browser.
+ * - createStableReadFilter - Only reports a code once it was read on several frames.
+ */
+
+import { decodeRetailBarcode, type DecodedBarcode, type RetailBarcodeFormat } from './ean-decoder';
+
+export type { DecodedBarcode, RetailBarcodeFormat } from './ean-decoder';
+
+export interface BarcodeFrameReader {
+  /** Which implementation is in use, for diagnostics in the UI. */
+  readonly kind: 'native' | 'fallback';
+  read(video: HTMLVideoElement): Promise<DecodedBarcode | null>;
+}
+
+// `BarcodeDetector` is not part of TypeScript's DOM lib yet.
+interface NativeDetectedBarcode {
+  format: string;
+  rawValue: string;
+}
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<NativeDetectedBarcode[]>;
+}
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const RETAIL_FORMATS: RetailBarcodeFormat[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+// Frames are downscaled before JS decoding; barcodes stay resolvable at this width.
+const FALLBACK_FRAME_WIDTH = 640;
+
+async function createNativeReader(): Promise<BarcodeFrameReader | null> {
+  const Detector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    const formats = RETAIL_FORMATS.filter(format => supported.includes(format));
+    if (formats.length === 0) return null;
+    const detector = new Detector({ formats });
+
+    return {
+      kind: 'native',
+      async read(video) {
+        const results = await detector.detect(video);
+        const match = results.find(result => (RETAIL_FORMATS as string[]).includes(result.format));
+        return match ? { format: match.format as RetailBarcodeFormat, rawValue: match.rawValue } : null;
+      },
+    };
+  } catch (error) {
+    console.warn('BarcodeDetector is present but unusable, falling back to JS decoder:', error);
+    return null;
+  }
+}
+
+function createFallbackReader(): BarcodeFrameReader {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    kind: 'fallback',
+    async read(video) {
+      if (!context || video.videoWidth === 0) return null;
+      const scale = Math.min(1, FALLBACK_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return decodeRetailBarcode(context.getImageData(0, 0, canvas.width, canvas.height));
+    },
+  };
+}
+
+export async function createBarcodeFrameReader(): Promise<BarcodeFrameReader> {
+  return (await createNativeReader()) ?? createFallbackReader();
+}
+
+/**
+ * Guards against misreads on blurry frames: a value is only accepted once the
+ * same code was decoded `requiredReads` times without a different code in
+ * between. Frames where nothing decodes do not reset the count.
+ */
+export function createStableReadFilter(requiredReads = 3) {
+  let candidate: string | null = null;
+  let count = 0;
+
+  return {
+    push(read: DecodedBarcode | null): DecodedBarcode | null {
+      if (!read) return null;
+      if (read.rawValue === candidate) {
+        count++;
+      } else {
+        candidate = read.rawValue;
+        count = 1;
+      }
+      return count >= requiredReads ? read : null;
+    },
+    reset() {
+      candidate = null;
+      count = 0;
+    },
+  };
+}
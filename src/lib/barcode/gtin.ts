@@ -0,0 +1,130 @@
+/**
+ * @fileOverview GS1 helpers shared by the barcode decoder, the scan UI and the barcode flow.
+ *
+ * - computeCheckDigit - Computes the GS1 mod-10 check digit for a digit string.
+ * - expandUpcE - Expands an 8-digit UPC-E code to its 12-digit UPC-A form.
+ * - validateGtin - Validates user or scanner input and normalizes it for lookup.
+ */
+
+export type GtinFormat = 'EAN-8' | 'UPC-E' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+export interface NormalizedGtin {
+  format: GtinFormat;
+  /** The digits as entered or scanned, with separators removed. */
+  digits: string;
+  /** The code zero-padded to 14 digits. Use this as the identity of a product. */
+  gtin14: string;
+  /**
+   * The form product databases index the code under: EAN-8 stays 8 digits,
+   * UPC-A/UPC-E/EAN-13 become a 13-digit EAN and GTIN-14 stays 14 digits.
+   */
+  lookupCode: string;
+}
+
+export type GtinValidationResult =
+  | { valid: true; gtin: NormalizedGtin }
+  | { valid: false; error: string };
+
+/**
+ * Computes the GS1 check digit for `digits` (the code without its check digit).
+ * Weights alternate 3, 1, 3, ... starting from the rightmost digit.
+ */
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Expands an 8-digit UPC-E code (number system, six digits, check digit) to
+ * the equivalent 12-digit UPC-A. Returns null for malformed input.
+ */
+export function expandUpcE(upcE: string): string | null {
+  if (!/^[01]\d{7}$/.test(upcE)) return null;
+  const [numberSystem, d1, d2, d3, d4, d5, d6, checkDigit] = upcE;
+
+  let body: string;
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+      break;
+  }
+  return `${numberSystem}${body}${checkDigit}`;
+}
+
+function checkDigitError(format: GtinFormat, expected: number, actual: string): string {
+  return `Invalid ${format} barcode: check digit should be ${expected}, but the code ends in ${actual}. Please re-check the number.`;
+}
+
+function normalized(format: GtinFormat, digits: string, fullCode: string): GtinValidationResult {
+  const gtin14 = fullCode.padStart(14, '0');
+  const lookupCode = format === 'EAN-8' ? digits : format === 'GTIN-14' ? gtin14 : gtin14.slice(1);
+  return { valid: true, gtin: { format, digits, gtin14, lookupCode } };
+}
+
+/**
+ * Validates a barcode typed by the user or read by the scanner.
+ *
+ * Spaces and hyphens are ignored; any other non-digit character is rejected,
+ * which also keeps the value safe to place in a URL path. Eight-digit codes
+ * are read as EAN-8 first and as UPC-E otherwise, unless `formatHint` says
+ * the scanner already knows it is UPC-E.
+ */
+export function validateGtin(input: string, formatHint?: GtinFormat): GtinValidationResult {
+  const digits = input.replace(/[\s-]/g, '');
+  if (digits.length === 0) {
+    return { valid: false, error: 'Please enter a barcode number.' };
+  }
+  if (!/^\d+$/.test(digits)) {
+    return { valid: false, error: 'A barcode may only contain digits.' };
+  }
+
+  const body = digits.slice(0, -1);
+  const actual = digits.slice(-1);
+
+  switch (digits.length) {
+    case 8: {
+      const ean8Check = computeCheckDigit(body);
+      const upcA = expandUpcE(digits);
+      const upcECheck = upcA ? computeCheckDigit(upcA.slice(0, -1)) : null;
+      if (formatHint !== 'UPC-E' && ean8Check === Number(actual)) {
+        return normalized('EAN-8', digits, digits);
+      }
+      if (upcA && upcECheck === Number(actual)) {
+        return normalized('UPC-E', digits, upcA);
+      }
+      if (formatHint === 'UPC-E' && upcECheck !== null) {
+        return { valid: false, error: checkDigitError('UPC-E', upcECheck, actual) };
+      }
+      return { valid: false, error: checkDigitError('EAN-8', ean8Check, actual) };
+    }
+    case 12:
+    case 13:
+    case 14: {
+      const format: GtinFormat = digits.length === 12 ? 'UPC-A' : digits.length === 13 ? 'EAN-13' : 'GTIN-14';
+      const expected = computeCheckDigit(body);
+      if (expected !== Number(actual)) {
+        return { valid: false, error: checkDigitError(format, expected, actual) };
+      }
+      return normalized(format, digits, digits);
+    }
+    default:
+      return {
+        valid: false,
+        error: `A barcode must have 8, 12, 13 or 14 digits, but ${digits.length} ${digits.length === 1 ? 'was' : 'were'} entered.`,
+      };
+  }
+}
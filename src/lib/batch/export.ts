@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Exports a batch session as a CSV table (for a spreadsheet) or
+ * as JSON with the full analysis of every item.
+ *
+ * - batchToCsv - The ranked summary as CSV.
+ * - batchToJson - The ranked summary with full results, plus the items not analyzed.
+ * - downloadFile - Saves text as a file from the browser.
+ */
+
+import type { BatchSummaryRow } from './summary';
+import type { BatchItem } from './types';
+
+const CSV_COLUMNS = ['Rank', 'Item', 'Type', 'Barcode', 'Attention', 'Edibility', 'Profile', 'Allergens', 'Concerns'];
+
+/** Quotes a cell, and defuses text a spreadsheet would otherwise run as a formula. */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function batchToCsv(rows: BatchSummaryRow[]): string {
+  const lines = rows.map((row, index) => [
+    String(index + 1),
+    row.item.title,
+    row.item.kind === 'image' ? 'Photo' : 'Barcode',
+    row.item.kind === 'barcode' ? row.item.barcode : '',
+    row.attention,
+    row.edibility ?? '',
+    (row.verdict?.findings ?? []).map(finding => finding.label).join('; '),
+    row.allergens.join('; '),
+    row.concerns.join('; '),
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.map(csvCell).join(','), ...lines].join('\r\n');
+}
+
+/** Photos are left out: the export is for reading results, and they would make it many megabytes. */
+export function batchToJson(rows: BatchSummaryRow[], items: BatchItem[], exportedAt = Date.now()): string {
+  const analyzed = new Set(rows.map(row => row.item.id));
+  return JSON.stringify({
+    exportedAt: new Date(exportedAt).toISOString(),
+    items: rows.map((row, index) => ({
+      rank: index + 1,
+      kind: row.item.kind,
+      title: row.item.title,
+      barcode: row.item.kind === 'barcode' ? row.item.barcode : undefined,
+      attention: row.attention,
+      edibility: row.edibility,
+      profileFindings: row.verdict?.findings ?? [],
+      allergens: row.allergens,
+      concerns: row.concerns,
+      result: row.item.result,
+    })),
+    notAnalyzed: items
+      .filter(item => !analyzed.has(item.id))
+      .map(item => ({
+        kind: item.kind,
+        title: item.title,
+        barcode: item.kind === 'barcode' ? item.barcode : undefined,
+        status: item.status,
+        error: item.error,
+      })),
+  }, null, 2);
+}
+
+export function downloadFile(filename: string, contents: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after the click can cancel the download in Firefox and Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
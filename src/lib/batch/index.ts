@@ -0,0 +1,4 @@
+export * from './types';
+export * from './queue';
+export * from './summary';
+export * from './export';
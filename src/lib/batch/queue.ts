@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Runs batch analyses in the background, a few at a time.
+ *
+ * Photos and barcodes wait in separate lanes with their own limits, so a long
+ * row of photos does not hold up the quick barcode lookups behind it.
+ *
+ * - BATCH_CONCURRENCY - How many analyses of each kind run at once.
+ * - createAnalysisQueue - A queue that calls `run` for each item within the limits.
+ */
+
+import type { BatchItemKind } from './types';
+
+export const BATCH_CONCURRENCY: Record<BatchItemKind, number> = {
+  // Each photo analysis samples the model several times; two at once keeps the rate limit in reach.
+  image: 2,
+  // Barcode lookups are server actions, which Next.js runs one at a time anyway.
+  barcode: 1,
+};
+
+export interface AnalysisQueue {
+  /** Adds an item to its lane; it runs as soon as the lane has room. */
+  enqueue(id: string, kind: BatchItemKind): void;
+  /** Drops an item that has not started yet. Returns false when it is already running or unknown. */
+  remove(id: string): boolean;
+  /** Drops everything that has not started. Running analyses finish, and their results are up to `run` to ignore. */
+  clear(): void;
+}
+
+export function createAnalysisQueue(
+  run: (id: string) => Promise<void>,
+  limits: Record<BatchItemKind, number> = BATCH_CONCURRENCY,
+): AnalysisQueue {
+  const pending: Record<BatchItemKind, string[]> = { image: [], barcode: [] };
+  const running: Record<BatchItemKind, number> = { image: 0, barcode: 0 };
+
+  const pump = (kind: BatchItemKind) => {
+    while (running[kind] < limits[kind] && pending[kind].length > 0) {
+      const id = pending[kind].shift()!;
+      running[kind]++;
+      run(id)
+        .catch(e => console.warn('Batch analysis failed:', e))
+        .finally(() => {
+          running[kind]--;
+          pump(kind);
+        });
+    }
+  };
+
+  return {
+    enqueue(id, kind) {
+      if (pending[kind].includes(id)) return;
+      pending[kind].push(id);
+      pump(kind);
+    },
+    remove(id) {
+      for (const lane of Object.values(pending)) {
+        const index = lane.indexOf(id);
+        if (index !== -1) {
+          lane.splice(index, 1);
+          return true;
+        }
+      }
+      return false;
+    },
+    clear() {
+      pending.image = [];
+      pending.barcode = [];
+    },
+  };
+}
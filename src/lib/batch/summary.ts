@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Ranks the analyzed items of a batch session so the ones to
+ * look at first, those that are unsafe or conflict with the dietary profile,
+ * come to the top.
+ *
+ * - AttentionLevel - How much an item needs a second look.
+ * - BatchSummaryRow - One analyzed item reduced to what the summary table shows.
+ * - summarizeBatch - Summarizes and ranks the analyzed items of a session.
+ */
+
+import type { AnalyzeFoodItemOutput } from '@/ai/flows/analyze-food-item';
+import { checkBarcodeResult, checkFoodItemResult, type DietaryProfile, type ProfileVerdict } from '@/lib/profile';
+import type { BatchItem } from './types';
+
+/**
+ * 'avoid': unsafe to eat or conflicts with the profile. 'caution': a profile caution,
+ * or allergens or concerns worth reading. 'unknown': nothing could be identified.
+ */
+export type AttentionLevel = 'avoid' | 'caution' | 'unknown' | 'ok';
+
+export type Edibility = NonNullable<AnalyzeFoodItemOutput['items'][number]['edibility']>;
+
+export interface BatchSummaryRow {
+  item: BatchItem;
+  attention: AttentionLevel;
+  /** The worst edibility among a photo's items; barcode products have none. */
+  edibility?: Edibility;
+  verdict: ProfileVerdict | null;
+  /** Declared allergens of a product; photos of produce declare none. */
+  allergens: string[];
+  /** A product's potential concerns, or the visible defects of a photo's items. */
+  concerns: string[];
+}
+
+const ATTENTION_ORDER: AttentionLevel[] = ['avoid', 'caution', 'unknown', 'ok'];
+const EDIBILITY_ORDER: Edibility[] = ['Unsafe', 'Wash & Eat', 'Safe to Eat'];
+
+function summarizeItem(item: BatchItem, profile: DietaryProfile): BatchSummaryRow | null {
+  if (item.status !== 'done' || !item.result) return null;
+
+  if (item.kind === 'image') {
+    const result = item.result;
+    const verdict = checkFoodItemResult(result, profile);
+    const edibility = result.items
+      .map(detected => detected.edibility)
+      .filter((value): value is Edibility => Boolean(value))
+      .sort((a, b) => EDIBILITY_ORDER.indexOf(a) - EDIBILITY_ORDER.indexOf(b))[0];
+    const concerns = result.items.flatMap(detected => (detected.freshness?.defects ?? []).map(defect => defect.description));
+    let attention: AttentionLevel;
+    if (!result.isFoodItem || result.items.length === 0) attention = 'unknown';
+    else if (edibility === 'Unsafe' || verdict?.status === 'conflict') attention = 'avoid';
+    else if (verdict?.status === 'caution' || concerns.length > 0) attention = 'caution';
+    else attention = 'ok';
+    return { item, attention, edibility, verdict, allergens: [], concerns };
+  }
+
+  const result = item.result;
+  const verdict = checkBarcodeResult(result, profile);
+  const allergens = result.allergens ?? [];
+  const concerns = (result.potentialConcerns ?? []).map(concern => concern.concern).filter(Boolean);
+  let attention: AttentionLevel;
+  if (!result.isFound) attention = 'unknown';
+  else if (verdict?.status === 'conflict') attention = 'avoid';
+  else if (verdict?.status === 'caution' || allergens.length > 0 || concerns.length > 0) attention = 'caution';
+  else attention = 'ok';
+  return { item, attention, verdict, allergens, concerns };
+}
+
+/**
+ * The analyzed items, most in need of attention first: by attention level,
+ * then by the number of profile findings, allergens and concerns, then by name.
+ * Items still queued, analyzing or failed are left out.
+ */
+export function summarizeBatch(items: BatchItem[], profile: DietaryProfile): BatchSummaryRow[] {
+  return items
+    .map(item => summarizeItem(item, profile))
+    .filter((row): row is BatchSummaryRow => row !== null)
+    .sort((a, b) =>
+      ATTENTION_ORDER.indexOf(a.attention) - ATTENTION_ORDER.indexOf(b.attention) ||
+      (b.verdict?.findings.length ?? 0) - (a.verdict?.findings.length ?? 0) ||
+      b.allergens.length - a.allergens.length ||
+      b.concerns.length - a.concerns.length ||
+      a.item.title.localeCompare(b.item.title));
+}
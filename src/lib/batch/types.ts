@@ -0,0 +1,36 @@
+/**
+ * @fileOverview Shape of one item in a batch scanning session.
+ *
+ * - BatchItem - A queued photo or barcode and, once analyzed, its result.
+ * - BatchItemKind - Whether the item is a photo or a barcode.
+ * - BatchItemStatus - Where the item is in the analysis queue.
+ */
+
+import type { AnalyzeBarcodeOutput } from '@/ai/flows/analyze-barcode-flow';
+import type { AnalyzeFoodItemOutput } from '@/ai/flows/analyze-food-item';
+
+export type BatchItemStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+interface BatchItemBase {
+  id: string;
+  /** Milliseconds since the epoch; the order items were added in. */
+  addedAt: number;
+  /** "Photo 3" or the barcode until the analysis names the item. */
+  title: string;
+  /** A small JPEG data URI of the photo, or the product image URL once a barcode is looked up. */
+  thumbnail?: string;
+  status: BatchItemStatus;
+  /** Why the analysis failed; the item can be retried. */
+  error?: string;
+}
+
+export type BatchItem =
+  | (BatchItemBase & {
+      kind: 'image';
+      /** The prepared photo. Dropped once analyzed, since only failed items are sent again. */
+      photoDataUri?: string;
+      result?: AnalyzeFoodItemOutput;
+    })
+  | (BatchItemBase & { kind: 'barcode'; barcode: string; result?: AnalyzeBarcodeOutput });
+
+export type BatchItemKind = BatchItem['kind'];
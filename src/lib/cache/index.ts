@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Server-side caches for barcode lookups and ingredient analysis.
+ *
+ * Configured through environment variables (all optional):
+ *
+ * - BARCODE_CACHE_TTL_SECONDS - Fresh lifetime of a cached lookup. Default 7 days.
+ * - BARCODE_CACHE_SWR_SECONDS - Extra time a stale entry is served while it refreshes. Default 30 days.
+ * - BARCODE_CACHE_NEGATIVE_TTL_SECONDS - Lifetime of "product not found" results. Default 1 hour.
+ * - BARCODE_CACHE_DIR - When set, entries are also written to this directory and survive restarts.
+ */
+
+import { createFileStore, createMemoryStore, createTieredStore, hashCacheKey, type CacheStore } from './stores';
+import { createSwrCache, type SwrCache, type SwrCacheOptions } from './swr-cache';
+
+export { createFileStore, createMemoryStore, createTieredStore, hashCacheKey } from './stores';
+export type { CacheEntry, CacheStore } from './stores';
+export { createSwrCache } from './swr-cache';
+export type { SwrCache, SwrCacheOptions } from './swr-cache';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function secondsFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function createConfiguredStore<T>(namespace: string): CacheStore<T> {
+  const memory = createMemoryStore<T>();
+  const directory = process.env.BARCODE_CACHE_DIR;
+  return directory ? createTieredStore(memory, createFileStore<T>(`${directory}/${namespace}`)) : memory;
+}
+
+function createConfiguredCache<T>(namespace: string, options: Pick<SwrCacheOptions<T>, 'isNegative' | 'shouldCache'> = {}): SwrCache<T> {
+  return createSwrCache<T>({
+    store: createConfiguredStore<T>(namespace),
+    ttlMs: secondsFromEnv('BARCODE_CACHE_TTL_SECONDS', 7 * DAY_SECONDS) * 1000,
+    staleWhileRevalidateMs: secondsFromEnv('BARCODE_CACHE_SWR_SECONDS', 30 * DAY_SECONDS) * 1000,
+    negativeTtlMs: secondsFromEnv('BARCODE_CACHE_NEGATIVE_TTL_SECONDS', 60 * 60) * 1000,
+    ...options,
+  });
+}
+
+const caches = new Map<string, SwrCache<unknown>>();
+
+/**
+ * Returns the process-wide cache for `namespace`, creating it on first use.
+ * Each namespace gets its own store and, with BARCODE_CACHE_DIR, its own subdirectory.
+ */
+export function getLookupCache<T>(namespace: string, options?: Pick<SwrCacheOptions<T>, 'isNegative' | 'shouldCache'>): SwrCache<T> {
+  let cache = caches.get(namespace);
+  if (!cache) {
+    cache = createConfiguredCache<T>(namespace, options) as SwrCache<unknown>;
+    caches.set(namespace, cache);
+  }
+  return cache as SwrCache<T>;
+}
+
+/** A stable key for an ingredient list, so identical lists share one AI analysis. */
+export function ingredientListCacheKey(ingredients: string[]): string {
+  return hashCacheKey(ingredients.map(ingredient => ingredient.trim().toLowerCase()).join('\n'));
+}
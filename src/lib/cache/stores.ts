@@ -0,0 +1,97 @@
+/**
+ * @fileOverview Storage backends for the server-side lookup cache.
+ *
+ * - createMemoryStore - Bounded in-process store, evicting the oldest entries first.
+ * - createFileStore - One JSON file per key, so entries survive restarts.
+ * - createTieredStore - Reads through a fast store in front of a slower one.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  /** Until this time the entry is served without revalidation. */
+  freshUntil: number;
+  /** Until this time the entry may still be served while it is refreshed in the background. */
+  staleUntil: number;
+}
+
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function hashCacheKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function createMemoryStore<T>(maxEntries = 500): CacheStore<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insert so the Map's insertion order doubles as least-recently-used order.
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createFileStore<T>(directory: string): CacheStore<T> {
+  const fileFor = (key: string) => path.join(directory, `${hashCacheKey(key)}.json`);
+  let ensureDirectory: Promise<unknown> | null = null;
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8')) as CacheEntry<T>;
+      } catch {
+        // Missing or corrupt files are simply cache misses.
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      ensureDirectory ??= mkdir(directory, { recursive: true });
+      await ensureDirectory;
+      await writeFile(fileFor(key), JSON.stringify(entry), 'utf8');
+    },
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+export function createTieredStore<T>(front: CacheStore<T>, back: CacheStore<T>): CacheStore<T> {
+  return {
+    async get(key) {
+      const entry = (await front.get(key)) ?? (await back.get(key));
+      if (entry) await front.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      await Promise.all([front.set(key, entry), back.set(key, entry)]);
+    },
+    async delete(key) {
+      await Promise.all([front.delete(key), back.delete(key)]);
+    },
+  };
+}
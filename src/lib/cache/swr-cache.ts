@@ -0,0 +1,76 @@
+/**
+ * @fileOverview A read-through cache with TTL, stale-while-revalidate and negative caching.
+ */
+
+import type { CacheEntry, CacheStore } from './stores';
+
+export interface SwrCacheOptions<T> {
+  store: CacheStore<T>;
+  /** How long a value is served without revalidation. */
+  ttlMs: number;
+  /** How long past `ttlMs` a stale value is still served while a refresh runs in the background. */
+  staleWhileRevalidateMs: number;
+  /** TTL for negative results (e.g. "product not found"), which tend to change sooner. */
+  negativeTtlMs?: number;
+  /** Marks values that should use `negativeTtlMs`. */
+  isNegative?: (value: T) => boolean;
+  /** Values for which this returns false are returned to the caller but never stored (e.g. transient errors). */
+  shouldCache?: (value: T) => boolean;
+}
+
+export interface SwrCache<T> {
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T>;
+  invalidate(key: string): Promise<void>;
+}
+
+export function createSwrCache<T>(options: SwrCacheOptions<T>): SwrCache<T> {
+  const { store, ttlMs, staleWhileRevalidateMs, negativeTtlMs = ttlMs, isNegative, shouldCache } = options;
+  // Concurrent misses for the same key share one load instead of stampeding the backend.
+  const inFlight = new Map<string, Promise<T>>();
+
+  const loadAndStore = (key: string, load: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = (async () => {
+      try {
+        const value = await load();
+        if (!shouldCache || shouldCache(value)) {
+          const now = Date.now();
+          const ttl = isNegative?.(value) ? negativeTtlMs : ttlMs;
+          const entry: CacheEntry<T> = {
+            value,
+            storedAt: now,
+            freshUntil: now + ttl,
+            staleUntil: now + ttl + staleWhileRevalidateMs,
+          };
+          await store.set(key, entry).catch(error => console.warn(`Failed to write cache entry ${key}:`, error));
+        }
+        return value;
+      } finally {
+        inFlight.delete(key);
+      }
+    })();
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async getOrLoad(key, load) {
+      const entry = await store.get(key).catch(() => undefined);
+      const now = Date.now();
+
+      if (entry && now < entry.freshUntil) {
+        return entry.value;
+      }
+      if (entry && now < entry.staleUntil) {
+        loadAndStore(key, load).catch(error => console.warn(`Background revalidation of ${key} failed:`, error));
+        return entry.value;
+      }
+      return loadAndStore(key, load);
+    },
+    async invalidate(key) {
+      await store.delete(key);
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Opens the camera and adjusts what its video track supports:
+ * torch, zoom, focus and exposure.
+ *
+ * These controls come from the Image Capture extensions to `MediaStreamTrack`
+ * (Chrome on Android, some desktop webcams). Elsewhere `getCapabilities()`
+ * reports none of them and the controls are simply not offered.
+ *
+ * - openCamera - Starts a camera by device or by facing mode.
+ * - listCameras - The video inputs of this device.
+ * - readCapabilities - The controls a video track supports, and their ranges.
+ * - applyCameraSettings - Applies torch, zoom, focus and exposure to a track.
+ * - focusAt - Focuses (and meters) on a point of the frame.
+ * - framePointAt - Where a tap on the video falls in the camera frame.
+ */
+
+export type FacingMode = 'user' | 'environment';
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: NumericRange | null;
+  /** E.g. 'continuous', 'single-shot', 'manual'. */
+  focusModes: string[];
+  exposureCompensation: NumericRange | null;
+  /** Whether the track can focus and meter on a point of the frame. */
+  pointsOfInterest: boolean;
+}
+
+export interface CameraSettings {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  exposureCompensation?: number;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  /** Empty until camera permission has been granted. */
+  label: string;
+}
+
+// The Image Capture extensions are not part of TypeScript's DOM lib.
+interface ImageCaptureCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: NumericRange;
+  focusMode?: string[];
+  exposureCompensation?: NumericRange;
+  pointsOfInterest?: unknown;
+}
+interface ImageCaptureConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  exposureCompensation?: number;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+
+const VIDEO_SIZE = { width: { ideal: 1280 }, height: { ideal: 720 } };
+
+/** Opens `deviceId` when given, otherwise the first camera facing `facingMode`. */
+export function openCamera({ deviceId, facingMode }: { deviceId?: string | null; facingMode: FacingMode }): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: deviceId ? { deviceId: { exact: deviceId }, ...VIDEO_SIZE } : { facingMode, ...VIDEO_SIZE },
+  });
+}
+
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map(device => ({ deviceId: device.deviceId, label: device.label }));
+}
+
+export function readCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // Firefox has no getCapabilities at all.
+  const capabilities: ImageCaptureCapabilities = typeof track.getCapabilities === 'function' ? track.getCapabilities() : {};
+  const range = (value: NumericRange | undefined) => (value && value.max > value.min ? { min: value.min, max: value.max, step: value.step || 0.1 } : null);
+  return {
+    torch: capabilities.torch === true,
+    zoom: range(capabilities.zoom),
+    focusModes: capabilities.focusMode ?? [],
+    exposureCompensation: range(capabilities.exposureCompensation),
+    pointsOfInterest: capabilities.pointsOfInterest !== undefined,
+  };
+}
+
+/** Leaves out what the track does not support, so one unsupported control cannot fail the rest. */
+function supportedConstraints(settings: CameraSettings, capabilities: CameraCapabilities): ImageCaptureConstraintSet[] {
+  const clamp = (value: number, limits: NumericRange) => Math.min(limits.max, Math.max(limits.min, value));
+  const constraints: ImageCaptureConstraintSet[] = [];
+  if (settings.torch !== undefined && capabilities.torch) constraints.push({ torch: settings.torch });
+  if (settings.zoom !== undefined && capabilities.zoom) constraints.push({ zoom: clamp(settings.zoom, capabilities.zoom) });
+  if (settings.focusMode && capabilities.focusModes.includes(settings.focusMode)) constraints.push({ focusMode: settings.focusMode });
+  if (settings.exposureCompensation !== undefined && capabilities.exposureCompensation) {
+    constraints.push({ exposureCompensation: clamp(settings.exposureCompensation, capabilities.exposureCompensation) });
+  }
+  return constraints;
+}
+
+export async function applyCameraSettings(track: MediaStreamTrack, settings: CameraSettings, capabilities: CameraCapabilities): Promise<void> {
+  const advanced = supportedConstraints(settings, capabilities);
+  if (advanced.length === 0) return;
+  await track.applyConstraints({ advanced });
+}
+
+/**
+ * Focuses on a point given as fractions of the frame (0,0 top left). Tracks
+ * that cannot focus on a point get a fresh single-shot focus instead.
+ */
+export async function focusAt(track: MediaStreamTrack, capabilities: CameraCapabilities, x: number, y: number): Promise<void> {
+  const constraint: ImageCaptureConstraintSet = {};
+  if (capabilities.pointsOfInterest) constraint.pointsOfInterest = [{ x, y }];
+  if (capabilities.focusModes.includes('single-shot')) constraint.focusMode = 'single-shot';
+  else if (capabilities.focusModes.includes('continuous')) constraint.focusMode = 'continuous';
+  if (Object.keys(constraint).length === 0) return;
+  await track.applyConstraints({ advanced: [constraint] });
+}
+
+/**
+ * Converts a tap on a video shown with `object-fit: cover` to fractions of the
+ * camera frame, or null when it falls on a part of the frame that is cropped.
+ */
+export function framePointAt(video: HTMLVideoElement, clientX: number, clientY: number): { x: number; y: number } | null {
+  const rect = video.getBoundingClientRect();
+  if (video.videoWidth === 0 || video.videoHeight === 0 || rect.width === 0 || rect.height === 0) return null;
+  const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const shownWidth = video.videoWidth * scale;
+  const shownHeight = video.videoHeight * scale;
+  const x = (clientX - rect.left - (rect.width - shownWidth) / 2) / shownWidth;
+  const y = (clientY - rect.top - (rect.height - shownHeight) / 2) / shownHeight;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileOverview The camera the user last chose and their torch, zoom, focus and
+ * exposure settings for each camera. Kept only on this device: camera IDs are
+ * specific to one browser on one device, so they are not synced.
+ *
+ * - CameraPreferences - The stored camera choice and per-camera settings.
+ * - loadCameraPreferences - Reads them, falling back to none.
+ * - saveCameraPreferences - Stores them.
+ */
+
+import type { CameraSettings, FacingMode } from './controls';
+
+export interface CameraPreferences {
+  /** The camera picked in the device picker, or null to choose by facing mode. */
+  deviceId: string | null;
+  facingMode: FacingMode;
+  /** Settings per camera `deviceId`. */
+  settings: Record<string, CameraSettings>;
+}
+
+const STORAGE_KEY = 'aahar.camera';
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  facingMode: 'environment',
+  settings: {},
+};
+
+export function loadCameraPreferences(): CameraPreferences {
+  if (typeof window === 'undefined') return DEFAULT_CAMERA_PREFERENCES;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CAMERA_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_CAMERA_PREFERENCES;
+  } catch (e) {
+    console.warn('Could not read the saved camera preferences:', e);
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+}
+
+export function saveCameraPreferences(preferences: CameraPreferences): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (e) {
+    // A full or disabled storage only costs the remembered settings.
+    console.warn('Could not save the camera preferences:', e);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileOverview Deterministic nutrient composition lookup by food name.
+ *
+ * `composition.json` is a subset of USDA FoodData Central with full macro and
+ * micronutrient profiles per 100 g for common whole foods. The model only
+ * names the photographed item; when that name matches a table entry, the
+ * item's water, sugar and fiber content come from here, so the same food
+ * always gets the same values.
+ *
+ * - COMPOSITION_TABLE_VERSION - Version of the bundled table.
+ * - findFoodComposition - Matches an identified item name to a table entry.
+ * - componentsFromComposition - Summarizes a nutrient profile as a food item's key components.
+ * - scaleComposition - The nutrients in a portion of a given weight.
+ */
+
+import table from './composition.json';
+import type { CompositionProfile, FoodComposition } from '@/ai/schemas/composition';
+import type { Citation } from '@/ai/schemas/additives';
+
+interface FoodEntry {
+  id: string;
+  name: string;
+  synonyms: string[];
+  sourceDescription: string;
+  per100g: CompositionProfile;
+}
+
+interface CompositionTable {
+  version: string;
+  source: Citation;
+  foods: FoodEntry[];
+}
+
+const TABLE = table as CompositionTable;
+
+export const COMPOSITION_TABLE_VERSION = TABLE.version;
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const NAMES = TABLE.foods
+  .flatMap(food => [food.name, ...food.synonyms, food.id].map(name => ({ key: normalize(name), name, food })))
+  // Longest first, so "sweet potato" wins over "potato" inside "roasted sweet potato".
+  .sort((a, b) => b.key.length - a.key.length);
+
+// The only words allowed beside the matched name: they describe the same whole food. Anything else
+// ("mashed", "soup", "masala", "crumble") may be a dish or product the table does not describe.
+const WHOLE_FOOD_MODIFIERS = new Set([
+  'a', 'an', 'one', 'of', 'raw', 'fresh', 'ripe', 'unripe', 'ripened', 'whole', 'half', 'halved', 'sliced', 'slice', 'slices',
+  'chopped', 'diced', 'cubed', 'cut', 'peeled', 'unpeeled', 'piece', 'pieces', 'bunch', 'organic', 'seedless', 'tender',
+  'large', 'small', 'medium', 'mini', 'baby', 'big',
+  'red', 'green', 'yellow', 'orange', 'purple', 'white', 'black', 'brown', 'golden', 'pink', 'dark', 'light',
+  // Varieties.
+  'gala', 'fuji', 'granny', 'smith', 'honeycrisp', 'shimla', 'kashmiri', 'alphonso', 'kesar', 'totapuri', 'dasheri', 'langra',
+  'cavendish', 'robusta', 'navel', 'valencia', 'nagpur', 'roma', 'heirloom', 'beefsteak', 'hass', 'desi',
+]);
+
+export function findFoodComposition(itemName: string | undefined): FoodComposition | undefined {
+  if (!itemName) return undefined;
+  const wanted = normalize(itemName);
+  const candidate =
+    NAMES.find(entry => entry.key === wanted) ??
+    NAMES.find(entry => ` ${wanted} `.includes(` ${entry.key} `));
+  if (!candidate) return undefined;
+
+  const rest = ` ${wanted} `.replace(` ${candidate.key} `, ' ').trim();
+  if (rest && !rest.split(' ').every(word => WHOLE_FOOD_MODIFIERS.has(word))) return undefined;
+
+  const { food } = candidate;
+  return {
+    match: {
+      id: food.id,
+      name: food.name,
+      sourceDescription: food.sourceDescription,
+      source: TABLE.source.title,
+      sourceUrl: TABLE.source.url,
+      matchedOn: candidate.name,
+    },
+    per100g: food.per100g,
+  };
+}
+
+// US FDA daily values for adults.
+const DAILY_VALUES: { key: keyof CompositionProfile; label: string; amount: number }[] = [
+  { key: 'vitaminC', label: 'Vitamin C', amount: 90 },
+  { key: 'vitaminA', label: 'Vitamin A', amount: 900 },
+  { key: 'folate', label: 'Folate', amount: 400 },
+  { key: 'vitaminB6', label: 'Vitamin B6', amount: 1.7 },
+  { key: 'potassium', label: 'Potassium', amount: 4700 },
+  { key: 'magnesium', label: 'Magnesium', amount: 420 },
+  { key: 'calcium', label: 'Calcium', amount: 1300 },
+  { key: 'iron', label: 'Iron', amount: 18 },
+  { key: 'zinc', label: 'Zinc', amount: 11 },
+];
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function componentsFromComposition(per100g: CompositionProfile): {
+  waterPercentage: number;
+  sugarPercentage: number;
+  fiberPercentage: number;
+  vitaminsAndMinerals: string;
+} {
+  const notable = DAILY_VALUES
+    .map(({ key, label, amount }) => ({ label, percent: Math.round((per100g[key] / amount) * 100) }))
+    .filter(({ percent }) => percent >= 10)
+    .sort((a, b) => b.percent - a.percent);
+  return {
+    // Grams per 100 g are already percentages by weight.
+    waterPercentage: round(per100g.water),
+    sugarPercentage: round(per100g.sugars),
+    fiberPercentage: round(per100g.fiber),
+    vitaminsAndMinerals: notable.length > 0
+      ? `Per 100 g: ${notable.map(({ label, percent }) => `${label} ${percent}% DV`).join(', ')}`
+      : 'No vitamin or mineral above 10% of the daily value per 100 g',
+  };
+}
+
+export function scaleComposition(per100g: CompositionProfile, grams: number): CompositionProfile {
+  const factor = grams / 100;
+  return Object.fromEntries(
+    Object.entries(per100g).map(([key, value]) => [key, value * factor])
+  ) as unknown as CompositionProfile;
+}
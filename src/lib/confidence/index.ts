@@ -0,0 +1,140 @@
+/**
+ * @fileOverview The confidence policy for food identification.
+ *
+ * The number a model writes as its confidence is not calibrated, so the food
+ * item flow reads each photo several times and this module derives confidence
+ * from how well those readings agree. Values that fall below their field's
+ * threshold are withheld, and when no item clears the bar the scan ends in a
+ * "needs a better photo" outcome with concrete retake guidance.
+ *
+ * - DEFAULT_CONFIDENCE_POLICY - Sample count and per-field thresholds used by default.
+ * - resolveConfidencePolicy - Applies overrides to the default policy.
+ * - measureAgreement - How many readings agree with an item's identification and verdict.
+ * - retakeGuidance - Advice for a better photo, from the problems the readings saw.
+ */
+
+import type { BoundingBox } from '@/ai/flows/analyze-food-item';
+import type { PhotoIssue } from '@/ai/schemas/confidence';
+import { findFoodComposition } from '@/lib/composition';
+
+export type ConfidenceField = 'identification' | 'edibility';
+
+export interface ConfidencePolicy {
+  /** Readings of the photo, including the main analysis. */
+  samples: number;
+  /** The share of readings (0-1) that must agree before a field's value is shown. */
+  thresholds: Record<ConfidenceField, number>;
+}
+
+export type ConfidencePolicyOverrides = {
+  samples?: number;
+  thresholds?: Partial<Record<ConfidenceField, number>>;
+};
+
+export const DEFAULT_CONFIDENCE_POLICY: ConfidencePolicy = {
+  samples: 3,
+  thresholds: { identification: 0.6, edibility: 0.6 },
+};
+
+// Every extra sample is another model call, so keep the count small.
+const MAX_SAMPLES = 5;
+
+export function resolveConfidencePolicy(overrides?: ConfidencePolicyOverrides): ConfidencePolicy {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const thresholds = { ...DEFAULT_CONFIDENCE_POLICY.thresholds, ...overrides?.thresholds };
+  return {
+    samples: Math.min(MAX_SAMPLES, Math.max(1, Math.round(overrides?.samples ?? DEFAULT_CONFIDENCE_POLICY.samples))),
+    thresholds: { identification: clamp(thresholds.identification), edibility: clamp(thresholds.edibility) },
+  };
+}
+
+/** One item as a single reading of the photo saw it. */
+export interface ItemReading {
+  name?: string;
+  edibility?: string;
+  boundingBox?: BoundingBox;
+}
+
+export interface Agreement {
+  /** Share of all readings, the item's own included, that named the same food. */
+  identification: number;
+  /** Share of all readings that gave the same edibility verdict. */
+  edibility: number;
+  samples: number;
+  /** Every distinct food the readings took the item for, the item's own name first. */
+  candidates: string[];
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Names agree when they map to the same composition table entry or one contains the other ("Banana", "Ripe banana"). */
+function sameFood(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  const tableA = findFoodComposition(a)?.match.id;
+  if (tableA) return tableA === findFoodComposition(b)?.match.id;
+  const [x, y] = [normalize(a), normalize(b)];
+  return x === y || ` ${x} `.includes(` ${y} `) || ` ${y} `.includes(` ${x} `);
+}
+
+function overlap(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/** The item in another reading that sits in the same place, or, without boxes, that names the same food. */
+function counterpart(item: ItemReading, reading: ItemReading[]): ItemReading | undefined {
+  if (item.boundingBox) {
+    const placed = reading
+      .filter(other => other.boundingBox)
+      .map(other => ({ other, score: overlap(item.boundingBox!, other.boundingBox!) }))
+      .filter(({ score }) => score >= 0.3)
+      .sort((a, b) => b.score - a.score);
+    if (placed.length > 0) return placed.find(({ other }) => sameFood(item.name, other.name))?.other ?? placed[0].other;
+  }
+  return reading.find(other => sameFood(item.name, other.name)) ?? (reading.length === 1 ? reading[0] : undefined);
+}
+
+/**
+ * Compares an item from the main analysis with the extra readings of the same
+ * photo. Returns undefined when there are no extra readings to compare with.
+ */
+export function measureAgreement(item: ItemReading, readings: ItemReading[][]): Agreement | undefined {
+  if (readings.length === 0) return undefined;
+  const matches = readings.map(reading => counterpart(item, reading));
+  const named = matches.filter(match => sameFood(item.name, match?.name));
+  const candidates = [item.name, ...matches.map(match => match?.name)]
+    .filter((name): name is string => Boolean(name))
+    .filter((name, index, names) => names.findIndex(other => sameFood(other, name)) === index);
+  const samples = readings.length + 1;
+  return {
+    identification: (1 + named.length) / samples,
+    edibility: (1 + named.filter(match => match?.edibility === item.edibility).length) / samples,
+    samples,
+    candidates,
+  };
+}
+
+const ISSUE_GUIDANCE: Record<PhotoIssue, string> = {
+  'too-dark': 'Move to brighter light or turn on the flash; daylight near a window works best.',
+  'too-bright': 'Avoid direct sunlight and flash glare; tilt the food or the phone until the reflections are gone.',
+  blurry: 'Hold the phone steady and tap the food on screen to focus before taking the photo.',
+  'item-cropped': 'Step back so the whole item fits in the frame with a little space around it.',
+  'too-far': 'Move closer so the food fills most of the frame.',
+  obstructed: 'Move hands, packaging and other objects away from the food.',
+  cluttered: 'Separate overlapping items, or photograph one item at a time.',
+};
+
+const GENERAL_GUIDANCE = [
+  'Fill most of the frame with the food, keeping all of it in view.',
+  'Use bright, even light without glare.',
+  'Hold the phone steady so the photo is sharp.',
+];
+
+export function retakeGuidance(issues: PhotoIssue[]): string[] {
+  return issues.length > 0 ? issues.map(issue => ISSUE_GUIDANCE[issue]) : GENERAL_GUIDANCE;
+}
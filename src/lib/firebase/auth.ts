@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Sign-in helpers: passwordless email links and Google.
+ *
+ * - sendEmailSignInLink - Emails a one-time sign-in link that opens /auth/complete.
+ * - isEmailSignInLink - Whether a URL is a sign-in link.
+ * - completeEmailSignIn - Finishes signing in from a link.
+ * - getPendingSignInEmail - The address a link was sent to from this browser, if any.
+ * - signInWithGoogle - Signs in with a Google account in a popup.
+ * - signOutUser - Signs out on this device.
+ */
+
+import {
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut,
+  type Auth,
+  type User,
+} from 'firebase/auth';
+import { getFirebaseAuth } from './client';
+
+const PENDING_EMAIL_KEY = 'aahar.emailForSignIn';
+
+function requireAuth(): Auth {
+  const auth = getFirebaseAuth();
+  if (!auth) throw new Error('Sign-in is not available: Firebase is not configured for this app.');
+  return auth;
+}
+
+export async function sendEmailSignInLink(email: string): Promise<void> {
+  await sendSignInLinkToEmail(requireAuth(), email, {
+    url: `${window.location.origin}/auth/complete`,
+    handleCodeInApp: true,
+  });
+  // The link may be opened in this browser later; remembering the address saves asking for it again.
+  window.localStorage.setItem(PENDING_EMAIL_KEY, email);
+}
+
+export function isEmailSignInLink(url: string): boolean {
+  const auth = getFirebaseAuth();
+  return auth ? isSignInWithEmailLink(auth, url) : false;
+}
+
+export function getPendingSignInEmail(): string | null {
+  return window.localStorage.getItem(PENDING_EMAIL_KEY);
+}
+
+export async function completeEmailSignIn(email: string, url: string): Promise<User> {
+  const credential = await signInWithEmailLink(requireAuth(), email, url);
+  window.localStorage.removeItem(PENDING_EMAIL_KEY);
+  return credential.user;
+}
+
+export async function signInWithGoogle(): Promise<User> {
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({ prompt: 'select_account' });
+  return (await signInWithPopup(requireAuth(), provider)).user;
+}
+
+export async function signOutUser(): Promise<void> {
+  await signOut(requireAuth());
+}
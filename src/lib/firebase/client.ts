@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Lazily initialized Firebase client for browser code.
+ *
+ * Firebase is optional: when the NEXT_PUBLIC_FIREBASE_* variables are not set,
+ * every getter returns null and callers fall back to local-only storage.
+ * Setting NEXT_PUBLIC_FIREBASE_USE_EMULATORS=true points Auth and Firestore at
+ * the local emulators started by `firebase emulators:start` (see firebase.json)
+ * and needs no real project settings.
+ *
+ * Firestore keeps an IndexedDB cache shared by all tabs, so synced data is
+ * readable offline and writes made offline are sent once the device reconnects.
+ *
+ * - isFirebaseConfigured - Whether Firebase settings (or emulator mode) are present.
+ * - getFirebaseAuth - The Auth instance, or null.
+ * - getFirestoreDb - The Firestore instance, or null.
+ * - getCurrentUser - Resolves to the signed-in user, or null, once Auth has restored its session.
+ */
+
+import { getApp, getApps, initializeApp, type FirebaseApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, type Auth, type User } from 'firebase/auth';
+import {
+  connectFirestoreEmulator,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from 'firebase/firestore';
+
+const useEmulators = process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === 'true';
+
+const firebaseConfig = {
+  // The emulators accept any API key; a "demo-" project id keeps them from touching real resources.
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || (useEmulators ? 'demo-api-key' : undefined),
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || (useEmulators ? 'demo-aahar' : undefined),
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+const AUTH_EMULATOR_URL = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_URL || 'http://127.0.0.1:9099';
+const FIRESTORE_EMULATOR_HOST = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+let auth: Auth | null = null;
+let firestore: Firestore | null = null;
+
+export function isFirebaseConfigured(): boolean {
+  return Boolean(firebaseConfig.apiKey && firebaseConfig.projectId);
+}
+
+function getFirebaseApp(): FirebaseApp | null {
+  if (typeof window === 'undefined' || !isFirebaseConfigured()) return null;
+  return getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+}
+
+export function getFirebaseAuth(): Auth | null {
+  if (auth) return auth;
+  const app = getFirebaseApp();
+  if (!app) return null;
+
+  auth = getAuth(app);
+  if (useEmulators) connectAuthEmulator(auth, AUTH_EMULATOR_URL, { disableWarnings: true });
+  return auth;
+}
+
+export function getFirestoreDb(): Firestore | null {
+  if (firestore) return firestore;
+  const app = getFirebaseApp();
+  if (!app) return null;
+
+  firestore = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+  });
+  if (useEmulators) {
+    const [host, port] = FIRESTORE_EMULATOR_HOST.split(':');
+    connectFirestoreEmulator(firestore, host, Number(port));
+  }
+  return firestore;
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const currentAuth = getFirebaseAuth();
+  if (!currentAuth) return null;
+  await currentAuth.authStateReady();
+  return currentAuth.currentUser;
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileOverview Checks live camera frames to help aim the camera at the food
+ * without looking at the screen.
+ *
+ * Each sample is a small copy of the current video frame. The subject is found
+ * as the pixels that differ clearly in colour from the frame's border, which
+ * is usually the table or plate around the food; its extent and centre say
+ * whether to move closer, back or sideways. Brightness, sharpness (variance of
+ * the Laplacian) and the change from the previous sample say whether the light
+ * is good and the camera is steady. These are heuristics, not food recognition:
+ * the model still decides what is in the photo.
+ *
+ * - createFrameSampler - Assesses successive frames of one video.
+ * - FRAMING_CUE_MESSAGES - On-screen text for each cue.
+ * - FRAMING_CUE_VIBRATIONS - Vibration pattern for each cue.
+ * - CAPTURE_VIBRATION - Vibration pattern for a guided capture.
+ */
+
+import { measurePixels, QUALITY_THRESHOLDS } from '@/lib/image-quality';
+
+export type FramingCue =
+  | 'too-dark'
+  | 'too-bright'
+  | 'hold-still'
+  | 'no-subject'
+  | 'move-closer'
+  | 'move-back'
+  | 'move-left'
+  | 'move-right'
+  | 'move-up'
+  | 'move-down'
+  | 'ready';
+
+export interface SubjectBox {
+  /** Edges as fractions of the frame, 0 at the top left. */
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  /** Centre of the subject's pixels, as fractions of the frame. */
+  centerX: number;
+  centerY: number;
+}
+
+export interface FrameAssessment {
+  /** Mean luminance, 0 (black) to 255 (white). */
+  brightness: number;
+  /** Variance of the Laplacian of the sample; low values mean a blurry frame. */
+  sharpness: number;
+  /** Mean luminance change from the previous sample; high values mean the camera is moving. */
+  motion: number;
+  subject: SubjectBox | null;
+  /** The most important thing to fix, or 'ready' when the frame is worth capturing. */
+  cue: FramingCue;
+}
+
+export interface FrameSampler {
+  /** Null while the video has no frame yet. */
+  assess(video: HTMLVideoElement): FrameAssessment | null;
+}
+
+export const FRAMING_CUE_MESSAGES: Record<FramingCue, string> = {
+  'too-dark': 'Too dark. Move to brighter light.',
+  'too-bright': 'Too bright. Avoid direct sunlight and glare.',
+  'hold-still': 'Hold still.',
+  'no-subject': 'No food in view. Point the camera at the food, about 30 cm away.',
+  'move-closer': 'Move closer.',
+  'move-back': 'Move back a little.',
+  'move-left': 'Move the camera left.',
+  'move-right': 'Move the camera right.',
+  'move-up': 'Move the camera up.',
+  'move-down': 'Move the camera down.',
+  ready: 'Good. Hold still.',
+};
+
+// Lighting and framing problems feel different from each other in the hand; 'ready' is one long buzz.
+export const FRAMING_CUE_VIBRATIONS: Record<FramingCue, number[]> = {
+  'too-dark': [120, 80, 120],
+  'too-bright': [120, 80, 120],
+  'hold-still': [20],
+  'no-subject': [60, 60, 60, 60, 60],
+  'move-closer': [40, 60, 40],
+  'move-back': [40, 60, 40],
+  'move-left': [40],
+  'move-right': [40],
+  'move-up': [40],
+  'move-down': [40],
+  ready: [200],
+};
+
+export const CAPTURE_VIBRATION = [80, 60, 240];
+
+// Small enough to sample several times a second on a phone.
+const SAMPLE_EDGE = 160;
+// The outer part of the frame taken as background.
+const BORDER_FRACTION = 0.08;
+
+const THRESHOLDS = {
+  // The same as the quality check's warnings, so a guided capture is not flagged afterwards.
+  darkBrightness: QUALITY_THRESHOLDS.warnDarkBrightness,
+  brightBrightness: QUALITY_THRESHOLDS.warnBrightBrightness,
+  // Tuned at SAMPLE_EDGE; a downscaled frame has sharper edges than the full one.
+  blurSharpness: 40,
+  motion: 8,
+  // Euclidean RGB distance from the background colour that makes a pixel part of the subject.
+  subjectColorDistance: 60,
+  minSubjectPixels: 0.01,
+  minSubjectArea: 0.12,
+  // How far the subject's centre may be from the frame's centre, as a fraction of the frame.
+  maxCenterOffset: 0.18,
+  // A subject within this distance of three or more edges is cut off; the box edges are percentiles, so never quite 0 or 1.
+  edgeMargin: 0.06,
+};
+
+function findSubject(data: Uint8ClampedArray, width: number, height: number): SubjectBox | null {
+  const border = Math.max(1, Math.round(Math.min(width, height) * BORDER_FRACTION));
+  let red = 0, green = 0, blue = 0, borderCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= border && x < width - border && y >= border && y < height - border) continue;
+      const i = (y * width + x) * 4;
+      red += data[i];
+      green += data[i + 1];
+      blue += data[i + 2];
+      borderCount++;
+    }
+  }
+  red /= borderCount;
+  green /= borderCount;
+  blue /= borderCount;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const distance = Math.hypot(data[i] - red, data[i + 1] - green, data[i + 2] - blue);
+      if (distance > THRESHOLDS.subjectColorDistance) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length / (width * height) < THRESHOLDS.minSubjectPixels) return null;
+
+  // Percentiles rather than the extremes, so stray pixels (crumbs, reflections) do not stretch the box.
+  const percentile = (values: number[], fraction: number) => values[Math.min(values.length - 1, Math.floor(values.length * fraction))];
+  const sortedX = [...xs].sort((a, b) => a - b);
+  const sortedY = [...ys].sort((a, b) => a - b);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    left: percentile(sortedX, 0.05) / width,
+    right: (percentile(sortedX, 0.95) + 1) / width,
+    top: percentile(sortedY, 0.05) / height,
+    bottom: (percentile(sortedY, 0.95) + 1) / height,
+    centerX: (mean(xs) + 0.5) / width,
+    centerY: (mean(ys) + 0.5) / height,
+  };
+}
+
+function chooseCue(brightness: number, sharpness: number, motion: number, subject: SubjectBox | null): FramingCue {
+  if (brightness < THRESHOLDS.darkBrightness) return 'too-dark';
+  if (brightness > THRESHOLDS.brightBrightness) return 'too-bright';
+  // Framing advice from a moving camera would change with every sample.
+  if (motion > THRESHOLDS.motion) return 'hold-still';
+  if (!subject) return 'no-subject';
+  const margin = THRESHOLDS.edgeMargin;
+  const touchedEdges = [subject.left < margin, subject.top < margin, subject.right > 1 - margin, subject.bottom > 1 - margin].filter(Boolean).length;
+  if (touchedEdges >= 3) return 'move-back';
+  if ((subject.right - subject.left) * (subject.bottom - subject.top) < THRESHOLDS.minSubjectArea) return 'move-closer';
+  const offsetX = subject.centerX - 0.5;
+  const offsetY = subject.centerY - 0.5;
+  if (Math.max(Math.abs(offsetX), Math.abs(offsetY)) > THRESHOLDS.maxCenterOffset) {
+    // Turning the camera towards the subject brings it to the centre.
+    if (Math.abs(offsetX) >= Math.abs(offsetY)) return offsetX > 0 ? 'move-right' : 'move-left';
+    return offsetY > 0 ? 'move-down' : 'move-up';
+  }
+  // Blur without motion is usually a camera that has not focused yet; waiting fixes both.
+  if (sharpness < THRESHOLDS.blurSharpness) return 'hold-still';
+  return 'ready';
+}
+
+export function createFrameSampler(): FrameSampler {
+  let canvas: HTMLCanvasElement | null = null;
+  let previous: Float32Array | null = null;
+
+  return {
+    assess(video) {
+      if (video.videoWidth === 0 || video.videoHeight === 0 || video.readyState < 2) return null;
+      const scale = SAMPLE_EDGE / Math.max(video.videoWidth, video.videoHeight);
+      const width = Math.max(1, Math.round(video.videoWidth * scale));
+      const height = Math.max(1, Math.round(video.videoHeight * scale));
+      canvas ??= document.createElement('canvas');
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        previous = null;
+      }
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return null;
+      context.drawImage(video, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+
+      const { gray, brightness, sharpness } = measurePixels(data, width, height);
+      let change = 0;
+      if (previous) {
+        for (let i = 0; i < gray.length; i++) change += Math.abs(gray[i] - previous[i]);
+      }
+      const motion = previous ? change / gray.length : 0;
+      previous = gray;
+      const subject = findSubject(data, width, height);
+      return { brightness, sharpness, motion, subject, cue: chooseCue(brightness, sharpness, motion, subject) };
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileOverview Scan history: saved to IndexedDB on this device and, when the
+ * user is signed in to Firebase, to Firestore so it follows them between devices.
+ *
+ * - recordScan - Saves a finished scan.
+ * - listScans - Local and synced entries reconciled, newest first.
+ * - deleteScan - Removes an entry everywhere.
+ * - createThumbnail - Shrinks a photo data URI for storage alongside the entry.
+ */
+
+import { deleteLocalEntry, listLocalEntries, putLocalEntry } from './local-store';
+import { deleteRemoteEntry, listRemoteDeletions, listRemoteEntries, putRemoteEntry } from './remote-store';
+import { getCurrentUser } from '@/lib/firebase/client';
+import type { NewScan, ScanHistoryEntry } from './types';
+import type { FoodItemAnalysis } from '@/ai/flows/analyze-food-item';
+
+export type { NewScan, ScanHistoryEntry, ScanKind } from './types';
+
+export async function recordScan(scan: NewScan): Promise<ScanHistoryEntry> {
+  const user = await getCurrentUser().catch(() => null);
+  const entry = { ...scan, id: crypto.randomUUID(), createdAt: Date.now(), ownerUid: user?.uid } as ScanHistoryEntry;
+  await putLocalEntry(entry);
+  // Sync failures (offline, rules) must not lose the scan; the local copy is enough to show it.
+  if (user) putRemoteEntry(entry).catch(e => console.warn('Could not sync scan to history:', e));
+  return entry;
+}
+
+type SingleItemResult = Omit<FoodItemAnalysis, 'provenance'> & { identification: { isFoodItem: boolean } };
+
+/** Image scans saved before photos could hold several items kept a single analysis at the top of the result. */
+function upgradeEntry(entry: ScanHistoryEntry): ScanHistoryEntry {
+  if (entry.kind !== 'image' || Array.isArray(entry.result.items)) return entry;
+  const { identification: { isFoodItem, ...identification }, ...analysis } = entry.result as unknown as SingleItemResult;
+  return {
+    ...entry,
+    result: isFoodItem
+      ? { isFoodItem: true, items: [{ ...analysis, identification }] }
+      : { isFoodItem: false, nonFoodDescription: identification.name, items: [] },
+  };
+}
+
+/**
+ * Brings this device's history and the signed-in account's history in line:
+ * scans made while signed out are uploaded to the account, scans synced from
+ * other devices are cached here, and scans deleted on another device (known
+ * by their tombstones, not by being missing) are removed here.
+ */
+export async function listScans(): Promise<ScanHistoryEntry[]> {
+  const local = (await listLocalEntries()).map(upgradeEntry);
+  const user = await getCurrentUser().catch(() => null);
+  // Signed out, scans that belong to an account are hidden along with the rest of that account's data.
+  if (!user) return local.filter(entry => !entry.ownerUid);
+
+  let remote: ScanHistoryEntry[];
+  let complete: boolean;
+  let deleted: Set<string>;
+  try {
+    const [page, deletions] = await Promise.all([listRemoteEntries(), listRemoteDeletions()]);
+    remote = page.entries.map(upgradeEntry);
+    complete = page.complete;
+    deleted = deletions;
+  } catch (e) {
+    console.warn('Could not load synced scan history:', e);
+    return local.filter(entry => !entry.ownerUid || entry.ownerUid === user.uid);
+  }
+
+  const remoteIds = new Set(remote.map(entry => entry.id));
+  const localIds = new Set(local.map(entry => entry.id));
+  const merged: ScanHistoryEntry[] = [...remote];
+  // Only the newest entries are listed; older ones are missing from the list, not from the account.
+  const oldestListed = complete || remote.length === 0 ? -Infinity : remote[remote.length - 1].createdAt;
+
+  for (const entry of local) {
+    if (remoteIds.has(entry.id)) continue;
+    if (entry.ownerUid === user.uid) {
+      if (deleted.has(entry.id)) {
+        deleteLocalEntry(entry.id).catch(e => console.warn('Could not remove deleted scan:', e));
+        continue;
+      }
+      merged.push(entry);
+      // Recent enough to be listed, yet missing: its upload failed, so try again.
+      if (entry.createdAt >= oldestListed) putRemoteEntry(entry).catch(e => console.warn('Could not sync scan to history:', e));
+    } else if (!entry.ownerUid) {
+      const claimed = { ...entry, ownerUid: user.uid };
+      merged.push(claimed);
+      putLocalEntry(claimed).then(() => putRemoteEntry(claimed)).catch(e => console.warn('Could not sync scan to history:', e));
+    }
+    // Entries owned by another account stay on this device but are not shown to this one.
+  }
+  for (const entry of remote) {
+    if (!localIds.has(entry.id)) putLocalEntry(entry).catch(e => console.warn('Could not cache synced scan:', e));
+  }
+  return merged.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteScan(id: string): Promise<void> {
+  await deleteLocalEntry(id);
+  // Not awaited: offline, Firestore queues the delete and only resolves once the server has it.
+  deleteRemoteEntry(id).catch(e => console.warn('Could not delete synced scan:', e));
+}
+
+export function createThumbnail(dataUri: string, maxSize = 160): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not get canvas context to create a thumbnail.'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    image.onerror = () => reject(new Error('Could not load the image to create a thumbnail.'));
+    image.src = dataUri;
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileOverview IndexedDB store for scan history on this device.
+ *
+ * - putLocalEntry - Inserts or replaces an entry.
+ * - listLocalEntries - All entries, newest first.
+ * - deleteLocalEntry - Removes an entry by id.
+ */
+
+import type { ScanHistoryEntry } from './types';
+
+const DB_NAME = 'aahar';
+const DB_VERSION = 1;
+const STORE = 'scanHistory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function asPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+export async function putLocalEntry(entry: ScanHistoryEntry): Promise<void> {
+  await asPromise((await objectStore('readwrite')).put(entry));
+}
+
+export async function listLocalEntries(): Promise<ScanHistoryEntry[]> {
+  const entries = await asPromise((await objectStore('readonly')).index('createdAt').getAll() as IDBRequest<ScanHistoryEntry[]>);
+  return entries.reverse();
+}
+
+export async function deleteLocalEntry(id: string): Promise<void> {
+  await asPromise((await objectStore('readwrite')).delete(id));
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Firestore copy of scan history at `users/{uid}/scans/{id}`,
+ * with a tombstone at `users/{uid}/deletedScans/{id}` for each deleted entry so
+ * other devices can tell a deleted scan from one that was never uploaded.
+ * Every function is a no-op (or resolves to an empty list) when Firebase is not
+ * configured or nobody is signed in.
+ *
+ * - putRemoteEntry - Inserts or replaces an entry.
+ * - listRemoteEntries - The most recent entries, newest first, and whether that is all of them.
+ * - listRemoteDeletions - The ids of deleted entries.
+ * - deleteRemoteEntry - Removes an entry by id and leaves its tombstone.
+ */
+
+import { collection, doc, getDocs, limit, orderBy, query, setDoc, writeBatch } from 'firebase/firestore';
+import { getCurrentUser, getFirestoreDb } from '@/lib/firebase/client';
+import type { ScanHistoryEntry } from './types';
+
+const MAX_REMOTE_ENTRIES = 200;
+
+async function userCollection(name: 'scans' | 'deletedScans') {
+  const db = getFirestoreDb();
+  const user = db ? await getCurrentUser() : null;
+  return db && user ? collection(db, 'users', user.uid, name) : null;
+}
+
+const scansCollection = () => userCollection('scans');
+
+export interface RemoteEntryPage {
+  entries: ScanHistoryEntry[];
+  /** False when the account has more entries than were listed; older ones are left out. */
+  complete: boolean;
+}
+
+export async function putRemoteEntry(entry: ScanHistoryEntry): Promise<void> {
+  const scans = await scansCollection();
+  // Firestore rejects `undefined` fields, which optional schema fields produce everywhere.
+  if (scans) await setDoc(doc(scans, entry.id), JSON.parse(JSON.stringify(entry)));
+}
+
+export async function listRemoteEntries(): Promise<RemoteEntryPage> {
+  const scans = await scansCollection();
+  if (!scans) return { entries: [], complete: true };
+  const snapshot = await getDocs(query(scans, orderBy('createdAt', 'desc'), limit(MAX_REMOTE_ENTRIES)));
+  return { entries: snapshot.docs.map(entry => entry.data() as ScanHistoryEntry), complete: snapshot.size < MAX_REMOTE_ENTRIES };
+}
+
+export async function listRemoteDeletions(): Promise<Set<string>> {
+  const deletions = await userCollection('deletedScans');
+  if (!deletions) return new Set();
+  const snapshot = await getDocs(deletions);
+  return new Set(snapshot.docs.map(tombstone => tombstone.id));
+}
+
+export async function deleteRemoteEntry(id: string): Promise<void> {
+  const [scans, deletions] = await Promise.all([scansCollection(), userCollection('deletedScans')]);
+  if (!scans || !deletions) return;
+  const batch = writeBatch(scans.firestore);
+  batch.delete(doc(scans, id));
+  batch.set(doc(deletions, id), { deletedAt: Date.now() });
+  await batch.commit();
+}
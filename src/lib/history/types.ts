@@ -0,0 +1,34 @@
+/**
+ * @fileOverview Shape of a saved scan in the user's history.
+ *
+ * - ScanHistoryEntry - One saved scan with its full structured result.
+ * - ScanKind - Which scan mode produced the entry.
+ * - NewScan - An entry before it is given an id and timestamp.
+ */
+
+import type { AnalyzeBarcodeOutput } from '@/ai/flows/analyze-barcode-flow';
+import type { AnalyzeFoodItemOutput } from '@/ai/flows/analyze-food-item';
+
+export type ScanKind = 'image' | 'barcode' | 'label';
+
+interface ScanHistoryBase {
+  id: string;
+  /** Milliseconds since the epoch. */
+  createdAt: number;
+  /** Item or product name, used for display and search. */
+  title: string;
+  /** A small JPEG data URI of the photo (of the item or the label), or the product image URL for barcode scans. */
+  thumbnail?: string;
+  /** The account the entry was synced to; absent for scans made while signed out. */
+  ownerUid?: string;
+}
+
+export type ScanHistoryEntry =
+  | (ScanHistoryBase & { kind: 'image'; result: AnalyzeFoodItemOutput })
+  | (ScanHistoryBase & { kind: 'barcode'; barcode: string; result: AnalyzeBarcodeOutput })
+  // Label photos of products without a barcode are analyzed into the barcode result shape.
+  | (ScanHistoryBase & { kind: 'label'; result: AnalyzeBarcodeOutput });
+
+type WithoutIdentity<T> = T extends unknown ? Omit<T, 'id' | 'createdAt'> : never;
+
+export type NewScan = WithoutIdentity<ScanHistoryEntry>;
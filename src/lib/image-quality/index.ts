@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Checks and prepares a photo in the browser before it is sent
+ * for analysis.
+ *
+ * Every captured frame and uploaded file is redrawn onto a canvas, which
+ * downsizes it to a bounded size and drops all metadata (including EXIF GPS
+ * location), then re-encoded as JPEG until it is under the request size limit.
+ * Brightness, sharpness (variance of the Laplacian) and resolution are measured
+ * on the way, so black frames from a camera that is still starting, blank or
+ * tiny images are blocked, and dark, blurry or low-resolution ones are flagged,
+ * before a model call is spent on them.
+ *
+ * - prepareImageForAnalysis - Measures, downsizes and re-encodes a frame or file.
+ * - measurePixels - Grayscale, brightness and sharpness of raw RGBA pixels.
+ * - QUALITY_THRESHOLDS - The brightness, sharpness and size limits behind each issue.
+ * - QUALITY_ISSUE_MESSAGES - User-facing explanations of each issue.
+ */
+
+export type QualityIssueKind = 'blank' | 'too-dark' | 'too-bright' | 'blurry' | 'low-resolution';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  /** 'block' issues make the photo useless; 'warn' issues only make a good result less likely. */
+  severity: 'block' | 'warn';
+}
+
+export interface QualityReport {
+  /** Mean luminance, 0 (black) to 255 (white). */
+  brightness: number;
+  /** Variance of the Laplacian of the grayscale image; low values mean few sharp edges. */
+  sharpness: number;
+  /** Size of the original image, before downsizing. */
+  width: number;
+  height: number;
+  issues: QualityIssue[];
+}
+
+export interface PreparedImage {
+  /** JPEG data URI, at most MAX_EDGE pixels on its long edge and without metadata. */
+  dataUri: string;
+  quality: QualityReport;
+  /** True when a 'block' issue means the photo should not be analyzed. */
+  blocked: boolean;
+}
+
+export const QUALITY_ISSUE_MESSAGES: Record<QualityIssueKind, string> = {
+  blank: 'The photo is a single flat colour. The camera may still be starting; wait a moment and try again.',
+  'too-dark': 'The photo is very dark. Move to brighter light or turn on the flash.',
+  'too-bright': 'The photo is washed out. Avoid direct sunlight and flash glare.',
+  blurry: 'The photo looks blurry. Hold the phone steady and tap the food to focus.',
+  'low-resolution': 'The photo is very small. Use the camera or a larger image.',
+};
+
+// Gemini gains little from more pixels than this, and it keeps requests small.
+const MAX_EDGE = 1600;
+// Keeps the analysis request under 1 MB, the default body limit for server actions, so the photo
+// can be sent either way; leave room for the rest of the request.
+const MAX_DATA_URI_LENGTH = 900_000;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.5];
+// Measurements run on a small copy: enough for exposure and blur, cheap on phones.
+const ANALYSIS_EDGE = 512;
+
+export const QUALITY_THRESHOLDS = {
+  blankSharpness: 2,
+  blockDarkBrightness: 20,
+  warnDarkBrightness: 50,
+  warnBrightBrightness: 225,
+  blockBrightBrightness: 250,
+  warnBlurSharpness: 15,
+  blockMinEdge: 200,
+  warnMinEdge: 480,
+};
+
+function toCanvas(source: CanvasImageSource, width: number, height: number, maxEdge: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context to prepare the image.');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+export interface PixelMeasurements {
+  /** Rec. 601 luma of each pixel, row by row. */
+  gray: Float32Array;
+  /** Mean luma, 0 (black) to 255 (white). */
+  brightness: number;
+  /** Variance of the Laplacian of the luma. */
+  sharpness: number;
+}
+
+/** Measures RGBA pixel data as returned by `getImageData`. */
+export function measurePixels(data: Uint8ClampedArray, width: number, height: number): PixelMeasurements {
+  const gray = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < gray.length; i++) {
+    // Rec. 601 luma.
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    total += gray[i];
+  }
+
+  // 4-neighbour Laplacian over the interior pixels.
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  return {
+    gray,
+    brightness: total / gray.length,
+    sharpness: count > 0 ? sumOfSquares / count - mean * mean : 0,
+  };
+}
+
+function findIssues(brightness: number, sharpness: number, width: number, height: number): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const minEdge = Math.min(width, height);
+  // A flat frame is also dark or bright; saying so as well would only distract from the real cause.
+  if (sharpness < QUALITY_THRESHOLDS.blankSharpness) return [{ kind: 'blank', severity: 'block' }];
+  if (sharpness < QUALITY_THRESHOLDS.warnBlurSharpness) issues.push({ kind: 'blurry', severity: 'warn' });
+  if (brightness < QUALITY_THRESHOLDS.blockDarkBrightness) issues.push({ kind: 'too-dark', severity: 'block' });
+  else if (brightness < QUALITY_THRESHOLDS.warnDarkBrightness) issues.push({ kind: 'too-dark', severity: 'warn' });
+  if (brightness > QUALITY_THRESHOLDS.blockBrightBrightness) issues.push({ kind: 'too-bright', severity: 'block' });
+  else if (brightness > QUALITY_THRESHOLDS.warnBrightBrightness) issues.push({ kind: 'too-bright', severity: 'warn' });
+  if (minEdge < QUALITY_THRESHOLDS.blockMinEdge) issues.push({ kind: 'low-resolution', severity: 'block' });
+  else if (minEdge < QUALITY_THRESHOLDS.warnMinEdge) issues.push({ kind: 'low-resolution', severity: 'warn' });
+  return issues;
+}
+
+function encode(canvas: HTMLCanvasElement): string {
+  for (const quality of JPEG_QUALITIES) {
+    const dataUri = canvas.toDataURL('image/jpeg', quality);
+    if (dataUri.length <= MAX_DATA_URI_LENGTH) return dataUri;
+  }
+  // Still too large at the lowest quality: halve the size until it fits.
+  const smaller = toCanvas(canvas, canvas.width, canvas.height, Math.max(canvas.width, canvas.height) / 2);
+  return encode(smaller);
+}
+
+async function decode(source: Blob | HTMLVideoElement): Promise<{ image: CanvasImageSource; width: number; height: number; release: () => void }> {
+  if (source instanceof HTMLVideoElement) {
+    return { image: source, width: source.videoWidth, height: source.videoHeight, release: () => {} };
+  }
+  // Honour the EXIF orientation while decoding; the redraw then drops the EXIF block itself.
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' }).catch(() => {
+    throw new Error('This file could not be read as an image.');
+  });
+  return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+}
+
+export async function prepareImageForAnalysis(source: Blob | HTMLVideoElement): Promise<PreparedImage> {
+  const { image, width, height, release } = await decode(source);
+  if (width === 0 || height === 0) throw new Error('The image has no pixels to analyze.');
+  try {
+    const sample = toCanvas(image, width, height, ANALYSIS_EDGE);
+    const { data } = sample.getContext('2d')!.getImageData(0, 0, sample.width, sample.height);
+    const { brightness, sharpness } = measurePixels(data, sample.width, sample.height);
+    const issues = findIssues(brightness, sharpness, width, height);
+    return {
+      dataUri: encode(toCanvas(image, width, height, MAX_EDGE)),
+      quality: { brightness, sharpness, width, height, issues },
+      blocked: issues.some(issue => issue.severity === 'block'),
+    };
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * @fileOverview Parser for printed ingredients declarations.
+ *
+ * Turns "Chocolate (sugar, cocoa butter, _milk_) 20%, wheat flour 45%. May
+ * contain nuts." into a tree of ingredient nodes with declared percentages,
+ * E-number codes, emphasized allergens and sub-ingredient lists, plus the
+ * precautionary "may contain" allergens.
+ *
+ * - parseIngredients - Parses a full declaration.
+ * - flattenIngredients - Lists every node (compound and sub-ingredients) as text.
+ * - formatIngredient - Renders a node back to a single readable line.
+ * - emphasizedAllergens - Collects the allergens the label emphasized anywhere in the tree.
+ */
+
+import type { IngredientNode } from '@/ai/schemas/ingredients';
+
+export type { IngredientNode } from '@/ai/schemas/ingredients';
+
+export interface ParsedIngredients {
+  ingredients: IngredientNode[];
+  /** Allergens from precautionary statements ("may contain nuts", "made in a factory that handles sesame"). */
+  mayContain: string[];
+  /** Allergens from a separate "Contains: ..." statement, if the label has one. */
+  contains: string[];
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(OPENERS));
+
+const LABEL_PREFIX = /^\s*ingredients?\s*[:\-–]\s*/i;
+
+const PRECAUTIONARY_STATEMENT = new RegExp(
+  [
+    'may (?:also )?contain(?: traces of)?',
+    'contains? traces of',
+    'traces? of',
+    '(?:made|produced|manufactured|packed|processed) (?:in|on) (?:a )?(?:factory|facility|site|equipment|line)s? (?:that|which|where) (?:also )?(?:handles?|processes?|uses?|packs?)',
+  ].map(phrase => `(?:${phrase})`).join('|'),
+  'i'
+);
+const CONTAINS_STATEMENT = /^(?:allergen (?:information|advice)\s*:?\s*)?contains\s*:\s*/i;
+
+// "E330", "E 330", "INS 330", "330", "500(ii)", "E150d"
+const CODE_ONLY = /^(?:e|ins)?\s*-?\s*(\d{3,4}[a-f]?)\s*(?:\(\s*([ivx]+)\s*\)|([ivx]+))?$/i;
+const PERCENT = /(?:^|\s)(min(?:imum)?\.?|max(?:imum)?\.?|approx(?:imately)?\.?|ca\.?|~|<|less than)?\s*(\d+(?:[.,]\d+)?)\s*%/i;
+
+/**
+ * Splits `text` at top-level separators, ignoring separators nested in
+ * brackets and decimal commas/points between digits ("2,5%", "0.5%").
+ */
+function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  const stack: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (OPENERS[char]) {
+      stack.push(OPENERS[char]);
+    } else if (CLOSERS.has(char) && stack[stack.length - 1] === char) {
+      stack.pop();
+    }
+
+    const isDecimal = (char === ',' || char === '.') && /\d/.test(text[i - 1] ?? '') && /\d/.test(text[i + 1] ?? '');
+    // A full stop only separates when followed by whitespace, so "approx." and "E500(ii)." stay intact.
+    const isSentenceEnd = char === '.' && (i === text.length - 1 || /\s/.test(text[i + 1])) && !/(?:min|max|approx|ca|no|incl)$/i.test(current.trim());
+    if (stack.length === 0 && separators.includes(char) && !isDecimal && (char !== '.' || isSentenceEnd)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function topLevelIndexOf(text: string, target: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (OPENERS[text[i]]) depth++;
+    else if (CLOSERS.has(text[i]) && depth > 0) depth--;
+    else if (depth === 0 && text[i] === target) return i;
+  }
+  return -1;
+}
+
+/** Returns the top-level bracket groups of `text` and the text with them removed. */
+function extractGroups(text: string): { rest: string; groups: string[] } {
+  const groups: string[] = [];
+  let rest = '';
+  let depth = 0;
+  let group = '';
+
+  for (const char of text) {
+    if (OPENERS[char]) {
+      if (depth > 0) group += char;
+      depth++;
+    } else if (CLOSERS.has(char) && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        groups.push(group.trim());
+        group = '';
+        rest += ' ';
+      } else {
+        group += char;
+      }
+    } else if (depth > 0) {
+      group += char;
+    } else {
+      rest += char;
+    }
+  }
+  // An unclosed bracket is treated as if it closed at the end of the item.
+  if (group.trim()) groups.push(group.trim());
+  return { rest, groups };
+}
+
+function parsePercent(text: string): Pick<IngredientNode, 'percent' | 'percentQualifier'> & { rest: string } | null {
+  const match = text.match(PERCENT);
+  if (!match) return null;
+  const qualifier = (match[1] || '').toLowerCase().replace(/\.$/, '');
+  const percentQualifier: IngredientNode['percentQualifier'] =
+    qualifier.startsWith('min') ? 'min'
+    : qualifier.startsWith('max') ? 'max'
+    : qualifier === '<' || qualifier === 'less than' ? 'less-than'
+    : qualifier ? 'approx'
+    : undefined;
+  return {
+    percent: Number(match[2].replace(',', '.')),
+    percentQualifier,
+    rest: text.replace(match[0], ' '),
+  };
+}
+
+function parseCode(text: string): string | null {
+  const match = text.trim().match(CODE_ONLY);
+  if (!match) return null;
+  const roman = match[2] || match[3];
+  return `E${match[1].toLowerCase()}${roman ? `(${roman.toLowerCase()})` : ''}`;
+}
+
+/**
+ * Pulls allergen emphasis out of a name. Open Food Facts marks allergens as
+ * `_milk_`; printed UK/EU labels use capitals ("WHEAT flour") or asterisks.
+ */
+function extractEmphasis(text: string): { name: string; allergens: string[] } {
+  const allergens: string[] = [];
+  let name = text.replace(/_([^_]+)_|\*\*([^*]+)\*\*/g, (_, underscored, starred) => {
+    const term = (underscored || starred).trim();
+    allergens.push(term.toLowerCase());
+    return term;
+  });
+
+  // Capitals only count as emphasis when the rest of the name is not also in capitals.
+  if (/[a-z]/.test(name)) {
+    for (const word of name.match(/\b[A-Z]{3,}\b/g) ?? []) {
+      allergens.push(word.toLowerCase());
+    }
+  }
+  name = name.replace(/\*+$/, '');
+  return { name, allergens: [...new Set(allergens)] };
+}
+
+function cleanName(name: string): string {
+  return name.replace(/\s+/g, ' ').replace(/^[\s,;:.\-–]+|[\s,;:.\-–]+$/g, '').trim();
+}
+
+function parseItem(item: string): IngredientNode | null {
+  // A bare "E330", "INS 330" or "500(ii)" item names the additive by its code; the bracket is part of the code.
+  const wholeCode = parseCode(item);
+  if (wholeCode) return { name: wholeCode, code: wholeCode };
+
+  const node: IngredientNode = { name: '' };
+  const subIngredients: IngredientNode[] = [];
+
+  // "Emulsifier: soy lecithin (E322)" names a class followed by its members;
+  // "Colour: E150d" names the class and the additive itself.
+  const colon = topLevelIndexOf(item, ':');
+  if (colon !== -1 && item.slice(colon + 1).trim()) {
+    const members = item.slice(colon + 1);
+    const code = parseCode(members);
+    if (code) {
+      node.code = code;
+    } else {
+      subIngredients.push(...parseList(members));
+    }
+    item = item.slice(0, colon);
+  }
+
+  const { groups, rest: withoutGroups } = extractGroups(item);
+  let rest = withoutGroups;
+
+  const percent = parsePercent(rest);
+  if (percent) {
+    node.percent = percent.percent;
+    if (percent.percentQualifier) node.percentQualifier = percent.percentQualifier;
+    rest = percent.rest;
+  }
+
+  for (const group of groups) {
+    const code = parseCode(group);
+    const groupPercent = parsePercent(group);
+    if (code) {
+      node.code = code;
+    } else if (groupPercent && !groupPercent.rest.trim() && node.percent === undefined) {
+      node.percent = groupPercent.percent;
+      if (groupPercent.percentQualifier) node.percentQualifier = groupPercent.percentQualifier;
+    } else if (group) {
+      subIngredients.push(...parseList(group));
+    }
+  }
+
+  // A code beside a bracketed name, as in "E330 (citric acid)".
+  const bareCode = parseCode(rest);
+  if (bareCode && !node.code) {
+    node.code = bareCode;
+    rest = '';
+  }
+
+  const { name, allergens } = extractEmphasis(rest);
+  node.name = cleanName(name) || node.code || '';
+  if (!node.name) return subIngredients.length === 1 ? subIngredients[0] : null;
+
+  const nestedAllergens = allergens.filter(term => !subIngredients.some(sub => sub.allergens?.includes(term)));
+  if (nestedAllergens.length > 0) node.allergens = nestedAllergens;
+  if (subIngredients.length > 0) node.ingredients = subIngredients;
+  return node;
+}
+
+function parseList(text: string): IngredientNode[] {
+  return splitTopLevel(text, ',;.')
+    .map(parseItem)
+    .filter((node): node is IngredientNode => node !== null);
+}
+
+function splitAllergenList(text: string): string[] {
+  return text
+    .split(/,|;|\band\b|\bor\b|\//i)
+    .map(term => cleanName(extractEmphasis(term).name).toLowerCase())
+    .filter(Boolean);
+}
+
+export function parseIngredients(text: string): ParsedIngredients {
+  const mayContain: string[] = [];
+  const contains: string[] = [];
+  const declarationParts: string[] = [];
+
+  // Statements are split on full stops first so "May contain nuts." and
+  // "Contains: milk." do not end up as ingredients.
+  for (const sentence of splitTopLevel(text.replace(LABEL_PREFIX, ''), '.')) {
+    const precautionary = sentence.match(PRECAUTIONARY_STATEMENT);
+    if (precautionary && precautionary.index !== undefined) {
+      const before = sentence.slice(0, precautionary.index).replace(/[,;:\s]+$/, '');
+      if (before) declarationParts.push(before);
+      mayContain.push(...splitAllergenList(sentence.slice(precautionary.index + precautionary[0].length).replace(/^\s*:/, '')));
+    } else if (CONTAINS_STATEMENT.test(sentence)) {
+      contains.push(...splitAllergenList(sentence.replace(CONTAINS_STATEMENT, '')));
+    } else {
+      declarationParts.push(sentence);
+    }
+  }
+
+  return {
+    ingredients: parseList(declarationParts.join(', ')),
+    mayContain: [...new Set(mayContain)],
+    contains: [...new Set(contains)],
+  };
+}
+
+/** Renders a node as one line, e.g. "Chocolate 20% (sugar, cocoa butter, milk)". */
+export function formatIngredient(node: IngredientNode): string {
+  const qualifier = { min: 'min. ', max: 'max. ', approx: '~', 'less-than': '<' };
+  let text = node.name;
+  if (node.code && node.code !== node.name) text += ` (${node.code})`;
+  if (node.percent !== undefined) text += ` ${node.percentQualifier ? qualifier[node.percentQualifier] : ''}${node.percent}%`;
+  if (node.ingredients?.length) text += ` (${node.ingredients.map(formatIngredient).join(', ')})`;
+  return text;
+}
+
+/** Every ingredient in the tree, depth first, as "name (code)" text. */
+export function flattenIngredients(nodes: IngredientNode[]): string[] {
+  return nodes.flatMap(node => [
+    node.code && node.code !== node.name ? `${node.name} (${node.code})` : node.name,
+    ...flattenIngredients(node.ingredients ?? []),
+  ]);
+}
+
+/** Every allergen term emphasized anywhere in the tree. */
+export function emphasizedAllergens(nodes: IngredientNode[]): string[] {
+  return [...new Set(nodes.flatMap(node => [...(node.allergens ?? []), ...emphasizedAllergens(node.ingredients ?? [])]))];
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileOverview App preferences that follow the user between devices.
+ *
+ * - UserPreferences - The stored preferences.
+ * - preferencesSetting - The synced setting holding them.
+ */
+
+import { createSyncedSetting, type SyncedValue } from '@/lib/sync/synced-setting';
+
+export type ScanMode = 'image-scan' | 'barcode-scan' | 'label-scan' | 'batch-scan';
+
+export interface UserPreferences extends SyncedValue {
+  /** The scan tab that opens first; updated whenever the user switches tabs. */
+  defaultScanMode: ScanMode;
+  /** Leave simulated values out of results and the voice readout instead of only marking them. */
+  hideSimulatedValues: boolean;
+  /** Spoken and vibration cues for aiming the camera, and capture once the food is framed. */
+  guidedCapture: boolean;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultScanMode: 'image-scan',
+  hideSimulatedValues: false,
+  guidedCapture: false,
+  updatedAt: 0,
+};
+
+export const preferencesSetting = createSyncedSetting('preferences', DEFAULT_PREFERENCES);
@@ -0,0 +1,31 @@
+/**
+ * @fileOverview Combines several product-data providers into one.
+ */
+
+import type { ProductDataProvider, ProductLookupResult } from './types';
+
+/**
+ * Asks each provider in order and returns the first product found. A provider
+ * error does not stop the chain; it is only reported if no later provider
+ * finds the product either.
+ */
+export function createProviderChain(providers: ProductDataProvider[]): ProductDataProvider {
+  if (providers.length === 1) return providers[0];
+
+  return {
+    name: providers.map(provider => provider.name).join(' → '),
+    async lookup(gtin): Promise<ProductLookupResult> {
+      let firstError: ProductLookupResult | null = null;
+      let lastNotFound: ProductLookupResult | null = null;
+
+      for (const provider of providers) {
+        const result = await provider.lookup(gtin);
+        if (result.status === 'found') return result;
+        if (result.status === 'error') firstError ??= result;
+        else lastNotFound = result;
+      }
+
+      return firstError ?? lastNotFound ?? { status: 'not-found', source: 'No product data providers configured' };
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Entry point for product-data lookups.
+ *
+ * The provider chain is configured per deployment through environment variables:
+ *
+ * - PRODUCT_DATA_PROVIDERS - Comma-separated providers to ask, in order.
+ *   Supported: `local`, `openfoodfacts`. Defaults to `openfoodfacts`.
+ * - PRODUCT_CATALOG_PATH - JSON catalog used by the `local` provider.
+ * - OPEN_FOOD_FACTS_BASE_URL - Override the Open Food Facts host.
+ *
+ * For example `PRODUCT_DATA_PROVIDERS=local,openfoodfacts` serves private-label
+ * products from the catalog first, and `PRODUCT_DATA_PROVIDERS=local` with
+ * `PRODUCT_CATALOG_PATH=src/lib/products/sample-catalog.json` runs fully offline.
+ */
+
+import { createProviderChain } from './chain';
+import { createLocalCatalogProvider } from './local-catalog';
+import { createOpenFoodFactsProvider } from './open-food-facts';
+import type { ProductDataProvider } from './types';
+
+export type { ProductDataProvider, ProductLookupResult, ProductRecord } from './types';
+export { PRODUCT_RECORD_VERSION } from './types';
+export { createLocalCatalogProvider } from './local-catalog';
+export { createOpenFoodFactsProvider } from './open-food-facts';
+export { createProviderChain } from './chain';
+
+let configuredProvider: ProductDataProvider | null = null;
+
+function createProviderFromEnv(): ProductDataProvider {
+  const names = (process.env.PRODUCT_DATA_PROVIDERS || 'openfoodfacts')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.flatMap((name): ProductDataProvider[] => {
+    switch (name) {
+      case 'openfoodfacts':
+        return [createOpenFoodFactsProvider({ baseUrl: process.env.OPEN_FOOD_FACTS_BASE_URL || undefined })];
+      case 'local':
+        if (!process.env.PRODUCT_CATALOG_PATH) {
+          console.warn('PRODUCT_DATA_PROVIDERS includes "local" but PRODUCT_CATALOG_PATH is not set; skipping it.');
+          return [];
+        }
+        return [createLocalCatalogProvider({ path: process.env.PRODUCT_CATALOG_PATH })];
+      default:
+        console.warn(`Unknown product data provider "${name}" in PRODUCT_DATA_PROVIDERS; skipping it.`);
+        return [];
+    }
+  });
+
+  return createProviderChain(providers.length > 0 ? providers : [createOpenFoodFactsProvider()]);
+}
+
+export function getProductDataProvider(): ProductDataProvider {
+  configuredProvider ??= createProviderFromEnv();
+  return configuredProvider;
+}
+
+/** Replaces the configured provider, e.g. with a stand-in catalog. Pass null to re-read the environment. */
+export function setProductDataProvider(provider: ProductDataProvider | null): void {
+  configuredProvider = provider;
+}
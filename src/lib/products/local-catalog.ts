@@ -0,0 +1,80 @@
+/**
+ * @fileOverview Product-data provider backed by a local JSON catalog.
+ *
+ * Used for private-label products that Open Food Facts does not know, and to
+ * run the barcode flow fully offline against a fixed dataset. The catalog file
+ * looks like `sample-catalog.json` next to this module: a `products` array
+ * whose entries carry a `code` plus the fields of `ProductRecord`.
+ */
+
+import { readFile } from 'fs/promises';
+import { validateGtin } from '@/lib/barcode/gtin';
+import type { ProductDataProvider, ProductRecord } from './types';
+
+export interface CatalogEntry extends Partial<ProductRecord> {
+  /** Any valid EAN-8/UPC-E/UPC-A/EAN-13/GTIN-14; entries are matched by GTIN-14. */
+  code: string;
+}
+
+export interface LocalCatalogProviderOptions {
+  /** Display name used as the result's data source. */
+  name?: string;
+  /** Path to a catalog JSON file, read once on first lookup. */
+  path?: string;
+  /** Entries supplied in code instead of (or on top of) a file. */
+  products?: CatalogEntry[];
+}
+
+function indexEntries(entries: CatalogEntry[], origin: string): Map<string, ProductRecord> {
+  const index = new Map<string, ProductRecord>();
+  for (const { code, ...record } of entries) {
+    const validation = validateGtin(String(code));
+    if (!validation.valid) {
+      console.warn(`Skipping catalog entry "${code}" from ${origin}: ${validation.error}`);
+      continue;
+    }
+    index.set(validation.gtin.gtin14, { ...record, allergens: record.allergens ?? [] });
+  }
+  return index;
+}
+
+async function loadCatalogFile(path: string): Promise<CatalogEntry[]> {
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  const entries = Array.isArray(raw) ? raw : raw?.products;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Catalog file ${path} must contain a "products" array.`);
+  }
+  return entries;
+}
+
+export function createLocalCatalogProvider(options: LocalCatalogProviderOptions): ProductDataProvider {
+  const source = options.name ?? 'Local product catalog';
+  let indexPromise: Promise<Map<string, ProductRecord>> | null = null;
+
+  const getIndex = () => {
+    if (!indexPromise) {
+      indexPromise = (async () => {
+        const fileEntries = options.path ? await loadCatalogFile(options.path) : [];
+        return indexEntries([...fileEntries, ...(options.products ?? [])], options.path ?? 'inline products');
+      })();
+      // Let a later lookup retry if the file was missing or malformed.
+      indexPromise.catch(() => {
+        indexPromise = null;
+      });
+    }
+    return indexPromise;
+  };
+
+  return {
+    name: source,
+    async lookup(gtin) {
+      try {
+        const product = (await getIndex()).get(gtin.gtin14);
+        return product ? { status: 'found', source, product } : { status: 'not-found', source };
+      } catch (error) {
+        console.error(`Error loading local product catalog ${options.path}:`, error);
+        return { status: 'error', source, message: 'The local product catalog could not be loaded.' };
+      }
+    },
+  };
+}
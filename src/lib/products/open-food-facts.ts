@@ -0,0 +1,151 @@
+/**
+ * @fileOverview Product-data provider backed by the public Open Food Facts v2 API.
+ */
+
+import type { NutrientValues, Nutriments, NutritionGrade } from '@/ai/schemas/nutrition';
+import type { ProductDataProvider, ProductLookupResult } from './types';
+
+const DEFAULT_BASE_URL = 'https://world.openfoodfacts.org';
+const DEFAULT_USER_AGENT = 'AAHAR-Food-Analysis-App/1.0 (Firebase Studio; contact: no-reply@example.com) - Product Data powered by Open Food Facts - https://world.openfoodfacts.org/';
+const FIELDS = [
+  'product_name', 'brands', 'ingredients_text', 'allergens_tags', 'image_url', 'product_name_en', 'ingredients_text_en',
+  'nutriments', 'serving_size', 'nutriscore_grade', 'nova_group', 'ecoscore_grade',
+];
+
+// Our nutrient names mapped to Open Food Facts nutriment keys (suffixed with _100g / _serving).
+const NUTRIENT_KEYS: Record<Exclude<keyof NutrientValues, 'energyKcal' | 'energyKj'>, string> = {
+  fat: 'fat',
+  saturatedFat: 'saturated-fat',
+  carbohydrates: 'carbohydrates',
+  sugars: 'sugars',
+  fiber: 'fiber',
+  protein: 'proteins',
+  salt: 'salt',
+  sodium: 'sodium',
+};
+
+const KJ_PER_KCAL = 4.184;
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/** A non-empty string field; the API leaves missing text fields empty or out. */
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function parseAllergens(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.replace(/^[a-z]{2}:/, '').replace(/-/g, ' ').trim())
+    .filter(allergen => allergen);
+}
+
+function parseNutrientValues(nutriments: Record<string, unknown>, suffix: '_100g' | '_serving'): NutrientValues | undefined {
+  const values: NutrientValues = {};
+  for (const [name, key] of Object.entries(NUTRIENT_KEYS) as [keyof typeof NUTRIENT_KEYS, string][]) {
+    const value = toNumber(nutriments[`${key}${suffix}`]);
+    if (value !== undefined) values[name] = value;
+  }
+
+  // `energy` without a unit is reported in kJ; fill in whichever unit is missing.
+  const kcal = toNumber(nutriments[`energy-kcal${suffix}`]);
+  const kj = toNumber(nutriments[`energy-kj${suffix}`]) ?? toNumber(nutriments[`energy${suffix}`]);
+  if (kcal !== undefined || kj !== undefined) {
+    values.energyKcal = kcal ?? Math.round(kj! / KJ_PER_KCAL);
+    values.energyKj = kj ?? Math.round(kcal! * KJ_PER_KCAL);
+  }
+  if (values.salt === undefined && values.sodium !== undefined) values.salt = values.sodium * 2.5;
+
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+function parseNutriments(product: Record<string, unknown>): Nutriments | undefined {
+  const raw = product.nutriments;
+  if (!raw || typeof raw !== 'object') return undefined;
+  const nutriments: Nutriments = {
+    per100g: parseNutrientValues(raw as Record<string, unknown>, '_100g'),
+    perServing: parseNutrientValues(raw as Record<string, unknown>, '_serving'),
+    servingSize: toText(product.serving_size),
+  };
+  return nutriments.per100g || nutriments.perServing ? nutriments : undefined;
+}
+
+function parseGrade(value: unknown): NutritionGrade | undefined {
+  // Open Food Facts also reports "unknown", "not-applicable" and "a-plus" (Eco-Score).
+  const grade = typeof value === 'string' ? value.toLowerCase().replace(/-plus$/, '') : '';
+  return ['a', 'b', 'c', 'd', 'e'].includes(grade) ? (grade as NutritionGrade) : undefined;
+}
+
+function parseNovaGroup(value: unknown): number | undefined {
+  const group = toNumber(value);
+  return group !== undefined && Number.isInteger(group) && group >= 1 && group <= 4 ? group : undefined;
+}
+
+export interface OpenFoodFactsProviderOptions {
+  /** Point at a mirror or the staging server (https://world.openfoodfacts.net). */
+  baseUrl?: string;
+  userAgent?: string;
+}
+
+export function createOpenFoodFactsProvider(options: OpenFoodFactsProviderOptions = {}): ProductDataProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+  const source = 'Open Food Facts API';
+
+  return {
+    name: source,
+    async lookup(gtin): Promise<ProductLookupResult> {
+      const apiUrl = `${baseUrl}/api/v2/product/${encodeURIComponent(gtin.lookupCode)}.json?fields=${FIELDS.join(',')}`;
+
+      try {
+        const response = await fetch(apiUrl, { headers: { 'User-Agent': userAgent } });
+
+        // Open Food Facts answers unknown products with a 404 and a `status: 0` body.
+        if (response.status === 404) {
+          return { status: 'not-found', source };
+        }
+        if (!response.ok) {
+          console.error(`Open Food Facts API request failed with status: ${response.status} for barcode: ${gtin.lookupCode}`);
+          return {
+            status: 'error',
+            source,
+            message: `Could not retrieve information from Open Food Facts. The API returned status ${response.status}. This is likely a temporary issue with the service.`,
+          };
+        }
+
+        const data: { status?: number; product?: unknown } = await response.json();
+        if (data.status === 0 || !data.product || typeof data.product !== 'object') {
+          return { status: 'not-found', source };
+        }
+
+        const product = data.product as Record<string, unknown>;
+        return {
+          status: 'found',
+          source,
+          product: {
+            productName: toText(product.product_name_en) ?? toText(product.product_name),
+            brand: toText(product.brands),
+            ingredientsText: toText(product.ingredients_text_en) ?? toText(product.ingredients_text),
+            allergens: parseAllergens(product.allergens_tags),
+            imageUrl: toText(product.image_url),
+            nutriments: parseNutriments(product),
+            nutriScoreGrade: parseGrade(product.nutriscore_grade),
+            novaGroup: parseNovaGroup(product.nova_group),
+            ecoScoreGrade: parseGrade(product.ecoscore_grade),
+          },
+        };
+      } catch (error) {
+        console.error('Error fetching or processing data from Open Food Facts API:', error);
+        return {
+          status: 'error',
+          source: 'Open Food Facts API (Error)',
+          message: 'An error occurred while trying to fetch product information from Open Food Facts. Please check your internet connection.',
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Shared types for the product-data provider layer.
+ *
+ * A provider turns a validated barcode into raw product data. Providers never
+ * run AI analysis; the barcode flow does that on whatever the provider returns.
+ */
+
+import type { NormalizedGtin } from '@/lib/barcode/gtin';
+import type { Nutriments, NutritionScores } from '@/ai/schemas/nutrition';
+
+/**
+ * Bump whenever ProductRecord changes shape. Cached lookups are kept under this
+ * version, so records cached in an older shape are not served after an upgrade.
+ */
+export const PRODUCT_RECORD_VERSION = 2;
+
+export interface ProductRecord extends NutritionScores {
+  productName?: string;
+  brand?: string;
+  /** The ingredients declaration exactly as printed, if known. */
+  ingredientsText?: string;
+  /** Declared allergens as plain names (e.g. "milk", "gluten"). */
+  allergens: string[];
+  imageUrl?: string;
+  nutriments?: Nutriments;
+}
+
+export type ProductLookupResult =
+  | { status: 'found'; product: ProductRecord; source: string }
+  | { status: 'not-found'; source: string }
+  | { status: 'error'; source: string; message: string };
+
+export interface ProductDataProvider {
+  /** Human-readable name shown to users as the data source. */
+  readonly name: string;
+  lookup(gtin: NormalizedGtin): Promise<ProductLookupResult>;
+}
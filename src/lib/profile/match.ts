@@ -0,0 +1,305 @@
+/**
+ * @fileOverview Checks scan results against the user's allergen and dietary profile.
+ *
+ * Matching is deterministic keyword matching over the declared allergens, the
+ * parsed ingredients (including sub-ingredients and E-numbers) and the product
+ * or item name, so the same scan and profile always give the same verdict.
+ *
+ * - checkBarcodeResult - Verdict for a packaged product from the barcode flow.
+ * - checkFoodItemResult - Verdict for a photographed food item.
+ * - describeVerdict - One sentence for the verdict banner.
+ * - ALLERGEN_LABELS, INTOLERANCE_LABELS, DIET_LABELS - Display names for profile options.
+ */
+
+import type { AnalyzeBarcodeOutput } from '@/ai/flows/analyze-barcode-flow';
+import type { AnalyzeFoodItemOutput, FoodItemAnalysis } from '@/ai/flows/analyze-food-item';
+import { flattenIngredients } from '@/lib/ingredients';
+import type { AllergenId, DietId, DietaryProfile, IntoleranceId, ProfileFinding, ProfileVerdict } from './types';
+
+export const ALLERGEN_LABELS: Record<AllergenId, string> = {
+  peanuts: 'peanuts',
+  'tree-nuts': 'tree nuts',
+  milk: 'milk',
+  eggs: 'eggs',
+  gluten: 'gluten',
+  soy: 'soy',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  sesame: 'sesame',
+  mustard: 'mustard',
+  celery: 'celery',
+  lupin: 'lupin',
+  molluscs: 'molluscs',
+  sulphites: 'sulphites',
+};
+
+export const INTOLERANCE_LABELS: Record<IntoleranceId, string> = {
+  lactose: 'lactose',
+  gluten: 'gluten',
+  caffeine: 'caffeine',
+  msg: 'MSG (glutamate)',
+};
+
+export const DIET_LABELS: Record<DietId, string> = {
+  vegetarian: 'vegetarian',
+  vegan: 'vegan',
+  jain: 'Jain',
+  halal: 'halal',
+  kosher: 'kosher',
+};
+
+const MILK_TERMS = ['milk', 'lactose', 'whey', 'casein', 'caseinate', 'butter', 'buttermilk', 'cream', 'cheese', 'ghee', 'curd', 'yoghurt', 'yogurt', 'paneer', 'khoa', 'khoya', 'lactalbumin', 'lactoglobulin', 'e966'];
+const GLUTEN_TERMS = ['gluten', 'wheat', 'barley', 'rye', 'oat', 'spelt', 'kamut', 'semolina', 'durum', 'malt', 'triticale', 'maida', 'atta', 'sooji', 'suji', 'seitan', 'couscous'];
+const EGG_TERMS = ['egg', 'albumen', 'ovalbumin', 'lysozyme', 'mayonnaise', 'meringue', 'e1105'];
+const FISH_TERMS = ['fish', 'anchovy', 'anchovies', 'tuna', 'salmon', 'cod', 'sardine', 'mackerel', 'haddock', 'pollock', 'tilapia', 'trout', 'hilsa', 'pomfret'];
+const SHELLFISH_TERMS = ['crustacean', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'krill', 'langoustine'];
+const MOLLUSC_TERMS = ['mollusc', 'mollusk', 'mussel', 'oyster', 'clam', 'squid', 'octopus', 'scallop', 'snail', 'cuttlefish'];
+const MEAT_TERMS = ['meat', 'chicken', 'beef', 'pork', 'mutton', 'lamb', 'goat', 'chevon', 'veal', 'turkey', 'duck', 'bacon', 'ham', 'sausage', 'salami', 'pepperoni', 'lard', 'tallow', 'suet', 'gelatin', 'gelatine', 'collagen', 'bone', 'broth', 'e441', 'e542'];
+const INSECT_TERMS = ['carmine', 'cochineal', 'e120'];
+const PORK_TERMS = ['pork', 'bacon', 'ham', 'lard', 'pepperoni', 'gammon', 'prosciutto', 'chorizo'];
+const ALCOHOL_TERMS = ['alcohol', 'ethanol', 'wine', 'beer', 'rum', 'brandy', 'whisky', 'whiskey', 'vodka', 'liqueur', 'sake', 'mirin'];
+const ROOT_TERMS = ['onion', 'garlic', 'potato', 'carrot', 'beetroot', 'radish', 'ginger', 'yam', 'turnip', 'leek', 'shallot', 'mushroom'];
+
+const ALLERGEN_TERMS: Record<AllergenId, string[]> = {
+  peanuts: ['peanut', 'groundnut', 'arachis', 'monkey nut'],
+  'tree-nuts': ['nut', 'almond', 'hazelnut', 'walnut', 'cashew', 'pecan', 'pistachio', 'macadamia', 'brazil nut', 'praline', 'marzipan', 'badam', 'kaju'],
+  milk: MILK_TERMS,
+  eggs: EGG_TERMS,
+  gluten: GLUTEN_TERMS,
+  soy: ['soy', 'soya', 'soybean', 'edamame', 'tofu', 'tempeh', 'miso'],
+  fish: FISH_TERMS,
+  shellfish: SHELLFISH_TERMS,
+  sesame: ['sesame', 'tahini', 'til', 'gingelly', 'benne'],
+  mustard: ['mustard', 'rai', 'sarson'],
+  celery: ['celery', 'celeriac'],
+  lupin: ['lupin', 'lupine'],
+  molluscs: MOLLUSC_TERMS,
+  sulphites: ['sulphite', 'sulfite', 'sulphur dioxide', 'sulfur dioxide', 'metabisulphite', 'metabisulfite', 'e220', 'e221', 'e222', 'e223', 'e224', 'e225', 'e226', 'e227', 'e228'],
+};
+
+const INTOLERANCE_TERMS: Record<IntoleranceId, string[]> = {
+  lactose: MILK_TERMS.filter(term => term !== 'ghee' && term !== 'casein' && term !== 'caseinate'),
+  gluten: GLUTEN_TERMS,
+  caffeine: ['caffeine', 'coffee', 'espresso', 'tea', 'matcha', 'guarana', 'cola', 'mate', 'energy drink'],
+  msg: ['monosodium glutamate', 'msg', 'glutamate', 'e620', 'e621', 'e622', 'e623', 'e624', 'e625', 'ajinomoto'],
+};
+
+/** Terms that break a diet outright, and terms that only might (their source is not stated). */
+const DIET_TERMS: Record<DietId, { conflict: string[]; caution: string[] }> = {
+  vegetarian: {
+    conflict: [...MEAT_TERMS, ...FISH_TERMS, ...SHELLFISH_TERMS, ...MOLLUSC_TERMS, ...INSECT_TERMS],
+    caution: ['rennet', 'e631', 'e627', 'e635'],
+  },
+  vegan: {
+    conflict: [...MEAT_TERMS, ...FISH_TERMS, ...SHELLFISH_TERMS, ...MOLLUSC_TERMS, ...INSECT_TERMS, ...MILK_TERMS, ...EGG_TERMS, 'honey', 'beeswax', 'e901', 'shellac', 'e904', 'lanolin'],
+    caution: ['rennet', 'e471', 'e472', 'e631', 'e627', 'e635', 'vitamin d3', 'natural flavouring', 'natural flavoring'],
+  },
+  jain: {
+    conflict: [...MEAT_TERMS, ...FISH_TERMS, ...SHELLFISH_TERMS, ...MOLLUSC_TERMS, ...INSECT_TERMS, ...EGG_TERMS, ...ROOT_TERMS, ...ALCOHOL_TERMS, 'honey', 'yeast'],
+    caution: ['rennet', 'e471', 'e472', 'e631', 'e627', 'e635', 'vinegar'],
+  },
+  halal: {
+    conflict: [...PORK_TERMS, ...ALCOHOL_TERMS],
+    caution: ['gelatin', 'gelatine', 'e441', 'rennet', 'e471', 'e472', 'e120', 'carmine', 'vanilla extract'],
+  },
+  kosher: {
+    conflict: [...PORK_TERMS, ...SHELLFISH_TERMS, ...MOLLUSC_TERMS],
+    caution: ['gelatin', 'gelatine', 'e441', 'rennet', 'e120', 'carmine', 'wine'],
+  },
+};
+
+interface Evidence {
+  text: string;
+  /** Precautionary "may contain" statements only ever produce cautions. */
+  precautionary: boolean;
+  source: string;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Lactose-free dairy is still dairy; it is kept as one word so only the lactose check can skip it.
+    .replace(/\blactose[- ]free (?=milk|cream|yogh?urt|curd|cheese|paneer|butter)/g, 'lactosefree ')
+    // Goat's milk, cheese and ghee are dairy, not goat meat.
+    .replace(/\bgoat(?:'?s)? (?=milk|cheese|butter|ghee|cream|curd|yogh?urt|paneer)/g, '')
+    // "gluten-free", "dairy free" and "free from nuts" state an absence, not a presence.
+    .replace(/\b[a-z]+[- ]free\b|\bfree from [a-z ]+/g, ' ')
+    // Plant "milks" and butters are not dairy.
+    .replace(/\b(?:coconut|almond|oat|soy|soya|rice|cashew|peanut|cocoa|shea|nut|apple) (?:milk|butter|cream)s?\b/g, match => match.replace(/milk|butter|cream/, 'plant-based'))
+    .replace(/\bcream of tartar\b|\bbutternut\b/g, ' ');
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function termPattern(term: string): RegExp {
+  let pattern = patternCache.get(term);
+  if (!pattern) {
+    pattern = new RegExp(`(^|[^a-z0-9])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:s|es)?(?=$|[^a-z0-9])`);
+    patternCache.set(term, pattern);
+  }
+  return pattern;
+}
+
+// Lactose-free dairy, as marked by normalize().
+const LACTOSE_FREE_DAIRY = /\blactosefree [a-z]+/g;
+
+/** `ignore` blanks out parts of the normalized text that do not count for these terms. */
+function findTerm(evidence: Evidence[], terms: string[], ignore?: RegExp): { term: string; evidence: Evidence } | null {
+  for (const item of evidence) {
+    const text = ignore ? normalize(item.text).replace(ignore, ' ') : normalize(item.text);
+    const term = terms.find(candidate => termPattern(candidate).test(text));
+    if (term) return { term, evidence: item };
+  }
+  return null;
+}
+
+function reasonFor(match: { term: string; evidence: Evidence }): string {
+  return `Matched "${match.term}" in ${match.evidence.source}: "${match.evidence.text}".`;
+}
+
+function checkTerms(profile: DietaryProfile, evidence: Evidence[]): ProfileFinding[] {
+  const findings: ProfileFinding[] = [];
+  const definite = evidence.filter(item => !item.precautionary);
+  const precautionary = evidence.filter(item => item.precautionary);
+
+  for (const allergen of profile.allergens) {
+    const match = findTerm(definite, ALLERGEN_TERMS[allergen]);
+    const trace = match ? null : findTerm(precautionary, ALLERGEN_TERMS[allergen]);
+    if (match) {
+      findings.push({ severity: 'conflict', kind: 'allergen', label: `Contains ${ALLERGEN_LABELS[allergen]}`, reason: reasonFor(match) });
+    } else if (trace) {
+      findings.push({ severity: 'caution', kind: 'allergen', label: `May contain ${ALLERGEN_LABELS[allergen]}`, reason: reasonFor(trace) });
+    }
+  }
+
+  for (const intolerance of profile.intolerances) {
+    // A gluten allergy already covers a gluten intolerance.
+    if (intolerance === 'gluten' && profile.allergens.includes('gluten')) continue;
+    const match = findTerm(definite, INTOLERANCE_TERMS[intolerance], intolerance === 'lactose' ? LACTOSE_FREE_DAIRY : undefined);
+    if (match) {
+      findings.push({ severity: 'conflict', kind: 'intolerance', label: `Contains ${INTOLERANCE_LABELS[intolerance]}`, reason: reasonFor(match) });
+    }
+  }
+
+  for (const diet of profile.diets) {
+    const match = findTerm(definite, DIET_TERMS[diet].conflict);
+    const uncertain = match ? null : findTerm(definite, DIET_TERMS[diet].caution);
+    if (match) {
+      findings.push({ severity: 'conflict', kind: 'diet', label: `Not ${DIET_LABELS[diet]} (contains ${match.term})`, reason: reasonFor(match) });
+    } else if (uncertain) {
+      findings.push({ severity: 'caution', kind: 'diet', label: `May not be ${DIET_LABELS[diet]} (${uncertain.term})`, reason: `${reasonFor(uncertain)} Its source is not stated on the label.` });
+    }
+  }
+
+  // Kosher rules also forbid mixing meat and dairy in one product.
+  if (profile.diets.includes('kosher') && !findings.some(finding => finding.kind === 'diet' && finding.label.startsWith('Not kosher'))) {
+    const meat = findTerm(definite, MEAT_TERMS.filter(term => !term.startsWith('e')));
+    const dairy = meat && findTerm(definite, MILK_TERMS);
+    if (meat && dairy) {
+      findings.push({ severity: 'conflict', kind: 'diet', label: `Not kosher (mixes ${meat.term} and ${dairy.term})`, reason: `${reasonFor(meat)} ${reasonFor(dairy)}` });
+    }
+  }
+  return findings;
+}
+
+// UK front-of-pack "high" thresholds per 100 g.
+const HIGH_SALT_G = 1.5;
+const MEDIUM_SALT_G = 0.3;
+const HIGH_SUGAR_G = 22.5;
+const MEDIUM_SUGAR_G = 5;
+
+function leadingIngredient(result: AnalyzeBarcodeOutput, terms: string[]): string | undefined {
+  // Ingredients are listed by weight, so the first three dominate the product.
+  return result.ingredients?.slice(0, 3).map(node => node.name).find(name => terms.some(term => termPattern(term).test(normalize(name))));
+}
+
+function checkNutrients(profile: DietaryProfile, result: AnalyzeBarcodeOutput): ProfileFinding[] {
+  const findings: ProfileFinding[] = [];
+  const per100g = result.nutriments?.per100g;
+
+  if (profile.lowSodium) {
+    const salt = per100g?.salt ?? (per100g?.sodium !== undefined ? per100g.sodium * 2.5 : undefined);
+    if (salt !== undefined && salt > HIGH_SALT_G) {
+      findings.push({ severity: 'conflict', kind: 'sodium', label: 'High in salt', reason: `${salt.toFixed(1)} g salt per 100 g (high is above ${HIGH_SALT_G} g).` });
+    } else if (salt !== undefined && salt > MEDIUM_SALT_G) {
+      findings.push({ severity: 'caution', kind: 'sodium', label: 'Medium salt', reason: `${salt.toFixed(1)} g salt per 100 g.` });
+    } else if (salt === undefined) {
+      const leading = leadingIngredient(result, ['salt', 'sodium']);
+      if (leading) findings.push({ severity: 'caution', kind: 'sodium', label: 'Salt is a main ingredient', reason: `"${leading}" is among the first three ingredients; no nutrition facts are available.` });
+    }
+  }
+
+  if (profile.diabetic) {
+    const sugars = per100g?.sugars;
+    if (sugars !== undefined && sugars > HIGH_SUGAR_G) {
+      findings.push({ severity: 'conflict', kind: 'sugar', label: 'High in sugar', reason: `${sugars.toFixed(1)} g sugars per 100 g (high is above ${HIGH_SUGAR_G} g).` });
+    } else if (sugars !== undefined && sugars > MEDIUM_SUGAR_G) {
+      findings.push({ severity: 'caution', kind: 'sugar', label: 'Contains sugar', reason: `${sugars.toFixed(1)} g sugars per 100 g.` });
+    } else if (sugars === undefined) {
+      const leading = leadingIngredient(result, ['sugar', 'glucose', 'fructose', 'dextrose', 'syrup', 'jaggery', 'honey', 'maltodextrin']);
+      if (leading) findings.push({ severity: 'caution', kind: 'sugar', label: 'Sugar is a main ingredient', reason: `"${leading}" is among the first three ingredients; no nutrition facts are available.` });
+    }
+  }
+  return findings;
+}
+
+function isEmpty(profile: DietaryProfile): boolean {
+  return profile.allergens.length === 0 && profile.intolerances.length === 0 && profile.diets.length === 0 && !profile.lowSodium && !profile.diabetic;
+}
+
+function toVerdict(findings: ProfileFinding[]): ProfileVerdict {
+  const ordered = [...findings].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'conflict' ? -1 : 1));
+  const status = ordered.length === 0 ? 'clear' : ordered[0].severity;
+  return { status, findings: ordered };
+}
+
+/** Returns null when the profile is empty or there is no product to check. */
+export function checkBarcodeResult(result: AnalyzeBarcodeOutput, profile: DietaryProfile): ProfileVerdict | null {
+  if (!result.isFound || isEmpty(profile)) return null;
+
+  const evidence: Evidence[] = [
+    ...(result.allergens ?? []).map(text => ({ text, precautionary: false, source: 'the declared allergens' })),
+    ...flattenIngredients(result.ingredients ?? []).map(text => ({ text, precautionary: false, source: 'the ingredients' })),
+    ...(result.productName ? [{ text: result.productName, precautionary: false, source: 'the product name' }] : []),
+    ...(result.mayContain ?? []).map(text => ({ text, precautionary: true, source: 'the "may contain" statement' })),
+  ];
+  return toVerdict([...checkTerms(profile, evidence), ...checkNutrients(profile, result)]);
+}
+
+function checkFoodItem(item: FoodItemAnalysis, profile: DietaryProfile): ProfileFinding[] {
+  const { name, itemType } = item.identification;
+  const evidence: Evidence[] = [name, itemType]
+    .filter((text): text is string => Boolean(text))
+    .map(text => ({ text, precautionary: false, source: 'the identified item' }));
+  const findings = checkTerms(profile, evidence);
+
+  // Sugar for a photographed item is the model's estimate, so it is never more than a caution.
+  const sugar = item.components?.sugarPercentage;
+  if (profile.diabetic && sugar !== undefined && sugar > MEDIUM_SUGAR_G) {
+    findings.push({ severity: 'caution', kind: 'sugar', label: sugar > HIGH_SUGAR_G ? 'High in sugar' : 'Contains sugar', reason: `Estimated ${sugar}% sugar.` });
+  }
+  return findings;
+}
+
+/** Returns null when the profile is empty or the photo is not of food. Covers every item in the photo. */
+export function checkFoodItemResult(result: AnalyzeFoodItemOutput, profile: DietaryProfile): ProfileVerdict | null {
+  if (!result.isFoodItem || result.items.length === 0 || isEmpty(profile)) return null;
+
+  // With several items on the plate, each finding has to say which one it is about.
+  const nameItems = result.items.length > 1;
+  return toVerdict(result.items.flatMap(item => {
+    const findings = checkFoodItem(item, profile);
+    return nameItems ? findings.map(finding => ({ ...finding, label: `${finding.label} (${item.identification.name || 'unnamed item'})` })) : findings;
+  }));
+}
+
+export function describeVerdict(verdict: ProfileVerdict): string {
+  if (verdict.status === 'clear') return 'Nothing found that conflicts with your profile.';
+  const [first, ...rest] = verdict.findings;
+  const more = rest.length > 0 ? ` (and ${rest.length} more)` : '';
+  return verdict.status === 'conflict'
+    ? `${first.label} — conflicts with your profile${more}.`
+    : `${first.label} — check this against your profile${more}.`;
+}
@@ -0,0 +1,11 @@
+/**
+ * @fileOverview Persistence for the dietary profile: always on this device, and
+ * synced to the signed-in user's account (`users/{uid}/settings/dietaryProfile`).
+ *
+ * - dietaryProfileSetting - The synced setting holding the profile.
+ */
+
+import { createSyncedSetting } from '@/lib/sync/synced-setting';
+import { EMPTY_PROFILE } from './types';
+
+export const dietaryProfileSetting = createSyncedSetting('dietaryProfile', EMPTY_PROFILE);
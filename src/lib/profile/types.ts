@@ -0,0 +1,64 @@
+/**
+ * @fileOverview The user's allergen and dietary profile and the verdicts produced
+ * by checking a scan result against it.
+ *
+ * - DietaryProfile - What the user avoids or limits.
+ * - ProfileVerdict - The outcome of checking one scan against the profile.
+ * - EMPTY_PROFILE - A profile with nothing selected.
+ */
+
+export type AllergenId =
+  | 'peanuts'
+  | 'tree-nuts'
+  | 'milk'
+  | 'eggs'
+  | 'gluten'
+  | 'soy'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame'
+  | 'mustard'
+  | 'celery'
+  | 'lupin'
+  | 'molluscs'
+  | 'sulphites';
+
+export type IntoleranceId = 'lactose' | 'gluten' | 'caffeine' | 'msg';
+
+export type DietId = 'vegetarian' | 'vegan' | 'jain' | 'halal' | 'kosher';
+
+export interface DietaryProfile {
+  allergens: AllergenId[];
+  intolerances: IntoleranceId[];
+  diets: DietId[];
+  lowSodium: boolean;
+  diabetic: boolean;
+  /** Milliseconds since the epoch; the newer of the local and synced copies wins. */
+  updatedAt: number;
+}
+
+export const EMPTY_PROFILE: DietaryProfile = {
+  allergens: [],
+  intolerances: [],
+  diets: [],
+  lowSodium: false,
+  diabetic: false,
+  updatedAt: 0,
+};
+
+export type VerdictSeverity = 'conflict' | 'caution';
+
+export interface ProfileFinding {
+  severity: VerdictSeverity;
+  kind: 'allergen' | 'intolerance' | 'diet' | 'sodium' | 'sugar';
+  /** Short statement for the banner, e.g. "Contains peanuts". */
+  label: string;
+  /** Where the match came from, e.g. the ingredient or declared allergen that triggered it. */
+  reason: string;
+}
+
+export interface ProfileVerdict {
+  /** 'clear' when the profile has entries and nothing in the scan conflicts with them. */
+  status: 'conflict' | 'caution' | 'clear';
+  findings: ProfileFinding[];
+}
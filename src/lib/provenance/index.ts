@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Helpers for showing users where the values in a food item
+ * analysis came from, and for leaving out the simulated ones.
+ *
+ * - PROVENANCE_LABELS - Short user-facing names for each provenance.
+ * - provenanceOf - The recorded provenance of one part of an item.
+ * - hasSimulatedValues - Whether any value of an item was simulated.
+ * - withoutSimulatedValues - A copy of an item with its simulated values removed.
+ */
+
+import type { DetectedFoodItem } from '@/ai/flows/analyze-food-item';
+import type { FoodItemField, Provenance } from '@/ai/schemas/provenance';
+
+export type { FoodItemField, Provenance } from '@/ai/schemas/provenance';
+
+export const PROVENANCE_LABELS: Record<Provenance, string> = {
+  'observed-in-image': 'Seen in photo',
+  'model-inferred': 'AI estimate',
+  'reference-database': 'Reference data',
+  simulated: 'Simulated',
+};
+
+/** Undefined for scans saved before provenance was recorded. */
+export function provenanceOf(item: DetectedFoodItem, field: FoodItemField): Provenance | undefined {
+  return item.provenance?.[field];
+}
+
+export function hasSimulatedValues(item: DetectedFoodItem): boolean {
+  return (
+    Object.values(item.provenance ?? {}).includes('simulated') ||
+    (item.chemicalResidues ?? []).some(residue => residue.provenance === 'simulated')
+  );
+}
+
+/**
+ * Drops every simulated value. A simulated identification keeps the item type
+ * the model chose before asking for the simulation, without the made-up name
+ * and confidence.
+ */
+export function withoutSimulatedValues(item: DetectedFoodItem): DetectedFoodItem {
+  const simulated = (field: FoodItemField) => provenanceOf(item, field) === 'simulated';
+  const identification = { ...item.identification };
+  if (simulated('identification')) {
+    identification.name = identification.itemType ? `Unconfirmed ${identification.itemType}` : 'Unconfirmed item';
+    delete identification.confidence;
+  }
+  if (simulated('dominantColors')) delete identification.dominantColors;
+  if (simulated('organicStatus')) {
+    delete identification.isOrganic;
+    delete identification.organicReasoning;
+  }
+  return {
+    ...item,
+    identification,
+    components: simulated('components') ? undefined : item.components,
+    chemicalResidues: item.chemicalResidues?.filter(residue => residue.provenance !== 'simulated'),
+    edibility: simulated('edibility') ? undefined : item.edibility,
+    edibilityReasoning: simulated('edibility') ? undefined : item.edibilityReasoning,
+    portion: simulated('portion') ? undefined : item.portion,
+    freshness: simulated('freshness') ? undefined : item.freshness,
+  };
+}
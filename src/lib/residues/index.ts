@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Deterministic pesticide residue lookup by crop.
+ *
+ * The curated reference data in `residues.json` lists the residues monitoring
+ * programmes commonly find on each crop, with their legal limits, health notes
+ * and how well washing removes them. The model only decides which crop a
+ * photographed item is; the residues themselves always come from here, so the
+ * same crop always gets the same, cited list.
+ *
+ * - RESIDUE_DATABASE_VERSION - Version of the bundled dataset.
+ * - RESIDUE_CROPS - The crops the dataset covers, as id and display name.
+ * - findCrop - Resolves a crop id, name or local name to a crop.
+ * - residuesForCrop - The residues commonly found on a crop, most frequent first.
+ */
+
+import database from './residues.json';
+import type { Citation } from '@/ai/schemas/additives';
+import type { ChemicalResidue, DetectionFrequency, MaximumResidueLimits, WashingEffectiveness } from '@/ai/schemas/residues';
+
+interface PesticideEntry {
+  name: string;
+  class: string;
+  healthNotes: string;
+  washingEffectiveness: WashingEffectiveness;
+  washingAdvice: string;
+  references: string[];
+}
+
+interface CropResidueEntry {
+  pesticide: string;
+  detectionFrequency: DetectionFrequency;
+  maximumResidueLimits: MaximumResidueLimits;
+  references: string[];
+}
+
+interface CropEntry {
+  id: string;
+  name: string;
+  synonyms: string[];
+  residues: CropResidueEntry[];
+}
+
+interface ResidueDatabase {
+  version: string;
+  sources: Record<string, Citation>;
+  pesticides: Record<string, PesticideEntry>;
+  crops: CropEntry[];
+}
+
+const DB = database as ResidueDatabase;
+
+export const RESIDUE_DATABASE_VERSION = DB.version;
+
+export const RESIDUE_CROPS: { id: string; name: string }[] = DB.crops.map(({ id, name }) => ({ id, name }));
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+const BY_NAME = new Map(DB.crops.flatMap(crop => [crop.id, crop.name, ...crop.synonyms].map(name => [normalize(name), crop] as const)));
+
+export function findCrop(idOrName: string | undefined): { id: string; name: string } | undefined {
+  const crop = idOrName ? BY_NAME.get(normalize(idOrName)) : undefined;
+  return crop && { id: crop.id, name: crop.name };
+}
+
+const FREQUENCY_ORDER: Record<DetectionFrequency, number> = { frequent: 0, common: 1, occasional: 2 };
+
+function limitSources(limits: MaximumResidueLimits): string[] {
+  return [
+    limits.eu !== undefined ? 'eu-mrl-db' : '',
+    limits.us !== undefined ? 'us-cfr-180' : '',
+    limits.fssai !== undefined ? 'in-fssr-contaminants' : '',
+  ].filter(Boolean);
+}
+
+export function residuesForCrop(cropId: string): ChemicalResidue[] {
+  const crop = DB.crops.find(entry => entry.id === cropId);
+  if (!crop) return [];
+  return [...crop.residues]
+    .sort((a, b) => FREQUENCY_ORDER[a.detectionFrequency] - FREQUENCY_ORDER[b.detectionFrequency])
+    .map(residue => {
+      const pesticide = DB.pesticides[residue.pesticide];
+      // Crop-specific monitoring sources first, then the limit registers and the pesticide's own sources.
+      const referenceIds = [...new Set([...residue.references, ...limitSources(residue.maximumResidueLimits), ...pesticide.references])];
+      return {
+        name: pesticide.name,
+        pesticideClass: pesticide.class,
+        detectionFrequency: residue.detectionFrequency,
+        maximumResidueLimits: residue.maximumResidueLimits,
+        hazardousEffects: pesticide.healthNotes,
+        washingEffectiveness: pesticide.washingEffectiveness,
+        washingAdvice: pesticide.washingAdvice,
+        citations: referenceIds.map(id => DB.sources[id]).filter(Boolean),
+        provenance: 'reference-database' as const,
+      };
+    });
+}
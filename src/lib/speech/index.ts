@@ -0,0 +1,4 @@
+export * from './settings';
+export * from './messages';
+export * from './readouts';
+export * from './voice';
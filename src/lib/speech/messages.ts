@@ -0,0 +1,579 @@
+/**
+ * @fileOverview The app's own wording of the voice readouts, in every readout
+ * language. Names, reasons and assessments that come from the analysis are
+ * read as they are; only the sentences around them are translated.
+ *
+ * - SpeechMessages - The phrases and sentence templates of one language.
+ * - SPEECH_MESSAGES - The messages of every readout language.
+ */
+
+import type { FoodItemAnalysis } from '@/ai/flows/analyze-food-item';
+import type { FramingCue } from '@/lib/framing';
+import type { SpeechLanguage } from './settings';
+
+type Edibility = NonNullable<FoodItemAnalysis['edibility']>;
+
+export interface SpeechMessages {
+  /** Ends a sentence: '।' in Hindi and Bengali, '.' elsewhere. */
+  stop: string;
+  /** Joins the items of a spoken list. */
+  listSeparator: string;
+  /** Names of the readout's sections, read before their value ("Edibility: Safe to eat."). */
+  labels: {
+    edibility: string;
+    because: string;
+    visibleProblems: string;
+    organicStatus: string;
+    dominantColors: string;
+    water: string;
+    sugar: string;
+    portion: string;
+    product: string;
+    brand: string;
+    assessment: string;
+    primaryConcern: string;
+    concerns: string;
+    allergens: string;
+  };
+  verdictClear: string;
+  verdictConflict: (finding: string, more: number) => string;
+  verdictCaution: (finding: string, more: number) => string;
+  foundItems: (count: number, names: string) => string;
+  itemNumber: (position: number) => string;
+  scannedItem: string;
+  unknownFood: string;
+  unknownProduct: string;
+  /** Appended to a section label whose value was simulated. */
+  simulatedMark: string;
+  simulatedNotice: string;
+  edibilityStatus: Record<Edibility, string>;
+  organicLikely: string;
+  organicUnclear: string;
+  percent: (value: number) => string;
+  fridgeDays: (days: number) => string;
+  fromCompositionTable: (food: string) => string;
+  pieces: (count: number, unit: string | undefined) => string;
+  grams: (grams: number) => string;
+  kilocalories: (kcal: number) => string;
+  pesticides: (crop: string | undefined, names: string) => string;
+  retake: (guidance: string) => string;
+  noAssessment: string;
+  noResidues: string;
+  /** Confirmations of the scan screen's voice commands. The command words themselves are English. */
+  commands: {
+    listening: string;
+    stoppedListening: string;
+    capturing: string;
+    analyzing: string;
+    switchingCamera: string;
+    scanBarcode: string;
+    busy: string;
+    noPhoto: string;
+    cameraStarting: string;
+    cameraNotReady: string;
+    nothingToRead: string;
+  };
+  /** Spoken while guided capture helps aim the camera. */
+  framing: Record<FramingCue, string>;
+  /** Read by the settings panel's sample button. */
+  sample: string;
+}
+
+const en: SpeechMessages = {
+  stop: '.',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'Edibility',
+    because: 'Because',
+    visibleProblems: 'Visible problems',
+    organicStatus: 'Organic status',
+    dominantColors: 'Dominant colors observed',
+    water: 'Water content',
+    sugar: 'Sugar content',
+    portion: 'Portion',
+    product: 'Product',
+    brand: 'Brand',
+    assessment: 'Overall assessment',
+    primaryConcern: 'Primary concern noted',
+    concerns: 'Concerns noted',
+    allergens: 'Declared allergens',
+  },
+  verdictClear: 'Nothing found that conflicts with your profile.',
+  verdictConflict: (finding, more) => `${finding} — conflicts with your profile${more > 0 ? ` (and ${more} more)` : ''}.`,
+  verdictCaution: (finding, more) => `${finding} — check this against your profile${more > 0 ? ` (and ${more} more)` : ''}.`,
+  foundItems: (count, names) => `Found ${count} food items: ${names}.`,
+  itemNumber: position => `Item ${position}:`,
+  scannedItem: 'Scanned item:',
+  unknownFood: 'Unknown food',
+  unknownProduct: 'Unknown product',
+  simulatedMark: ' (simulated)',
+  simulatedNotice: 'Some of these values are simulated, not analyzed from your photo.',
+  edibilityStatus: { 'Safe to Eat': 'Safe to eat', 'Wash & Eat': 'Wash before eating', Unsafe: 'Unsafe' },
+  organicLikely: 'Likely organic',
+  organicUnclear: 'Likely not organic, or status unclear',
+  percent: value => `${value} percent`,
+  fridgeDays: days => `Keeps about ${days} days in the fridge.`,
+  fromCompositionTable: food => `These are typical values for ${food} from a food composition table.`,
+  pieces: (count, unit) => `${count} ${unit || 'pieces'}`,
+  grams: grams => `about ${grams} grams`,
+  kilocalories: kcal => `That is roughly ${kcal} kilocalories.`,
+  pesticides: (crop, names) => `Pesticides commonly found on ${crop ?? 'this item'}: ${names}.`,
+  retake: guidance => `Please take a better photo. ${guidance}`,
+  noAssessment: 'No overall assessment available.',
+  noResidues: 'No pesticide residues are listed for this item.',
+  commands: {
+    listening: 'Voice commands on. Say capture, analyze, read again, read residues, switch camera, scan barcode or stop.',
+    stoppedListening: 'Voice commands off.',
+    capturing: 'Capturing.',
+    analyzing: 'Analyzing. This takes a few seconds.',
+    switchingCamera: 'Switching camera.',
+    scanBarcode: 'Opening the barcode scanner. Point the camera at the barcode.',
+    busy: 'Still working on it, please wait.',
+    noPhoto: 'There is no photo to analyze yet. Say capture first.',
+    cameraStarting: 'Starting the camera. Say capture again when the food is in view.',
+    cameraNotReady: 'The camera is not ready yet.',
+    nothingToRead: 'There are no results to read yet.',
+  },
+  framing: {
+    'too-dark': 'Too dark. Move to brighter light.',
+    'too-bright': 'Too bright. Avoid direct sunlight.',
+    'hold-still': 'Hold still.',
+    'no-subject': 'No food in view. Point the camera at the food.',
+    'move-closer': 'Move closer.',
+    'move-back': 'Move back a little.',
+    'move-left': 'Move left.',
+    'move-right': 'Move right.',
+    'move-up': 'Move up.',
+    'move-down': 'Move down.',
+    ready: 'Good. Hold still.',
+  },
+  sample: 'Hello. This is how AAHAR will read your scan results.',
+};
+
+const hi: SpeechMessages = {
+  stop: '।',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'खाने योग्य',
+    because: 'कारण',
+    visibleProblems: 'दिखाई देने वाली समस्याएँ',
+    organicStatus: 'जैविक स्थिति',
+    dominantColors: 'मुख्य रंग',
+    water: 'पानी की मात्रा',
+    sugar: 'चीनी की मात्रा',
+    portion: 'हिस्सा',
+    product: 'उत्पाद',
+    brand: 'ब्रांड',
+    assessment: 'कुल मूल्यांकन',
+    primaryConcern: 'मुख्य चिंता',
+    concerns: 'चिंताएँ',
+    allergens: 'घोषित एलर्जी कारक',
+  },
+  verdictClear: 'आपकी प्रोफ़ाइल से टकराने वाला कुछ नहीं मिला।',
+  verdictConflict: (finding, more) => `${finding} — यह आपकी प्रोफ़ाइल से मेल नहीं खाता${more > 0 ? ` (और ${more} अन्य)` : ''}।`,
+  verdictCaution: (finding, more) => `${finding} — इसे अपनी प्रोफ़ाइल से मिलाकर देखें${more > 0 ? ` (और ${more} अन्य)` : ''}।`,
+  foundItems: (count, names) => `${count} खाद्य पदार्थ मिले: ${names}।`,
+  itemNumber: position => `पदार्थ ${position}:`,
+  scannedItem: 'स्कैन किया गया पदार्थ:',
+  unknownFood: 'अज्ञात खाद्य पदार्थ',
+  unknownProduct: 'अज्ञात उत्पाद',
+  simulatedMark: ' (सिम्युलेटेड)',
+  simulatedNotice: 'इनमें से कुछ मान सिम्युलेटेड हैं, आपकी फ़ोटो से विश्लेषित नहीं।',
+  edibilityStatus: { 'Safe to Eat': 'खाने के लिए सुरक्षित', 'Wash & Eat': 'धोकर खाएँ', Unsafe: 'असुरक्षित' },
+  organicLikely: 'संभवतः जैविक',
+  organicUnclear: 'संभवतः जैविक नहीं, या स्थिति स्पष्ट नहीं',
+  percent: value => `${value} प्रतिशत`,
+  fridgeDays: days => `फ्रिज में लगभग ${days} दिन तक ठीक रहता है।`,
+  fromCompositionTable: food => `ये खाद्य संरचना तालिका से ${food} के सामान्य मान हैं।`,
+  pieces: (count, unit) => `${count} ${unit || 'टुकड़े'}`,
+  grams: grams => `लगभग ${grams} ग्राम`,
+  kilocalories: kcal => `यानी लगभग ${kcal} किलोकैलोरी।`,
+  pesticides: (crop, names) => `${crop ?? 'इस पदार्थ'} पर आम तौर पर पाए जाने वाले कीटनाशक: ${names}।`,
+  retake: guidance => `कृपया बेहतर फ़ोटो लें। ${guidance}`,
+  noAssessment: 'कोई कुल मूल्यांकन उपलब्ध नहीं है।',
+  noResidues: 'इस पदार्थ के लिए कोई कीटनाशक अवशेष दर्ज नहीं हैं।',
+  commands: {
+    listening: 'आवाज़ से नियंत्रण चालू है। कहें: capture, analyze, read again, read residues, switch camera, scan barcode या stop।',
+    stoppedListening: 'आवाज़ से नियंत्रण बंद है।',
+    capturing: 'फ़ोटो ली जा रही है।',
+    analyzing: 'विश्लेषण हो रहा है। इसमें कुछ सेकंड लगते हैं।',
+    switchingCamera: 'कैमरा बदला जा रहा है।',
+    scanBarcode: 'बारकोड स्कैनर खुल रहा है। कैमरे को बारकोड की ओर रखें।',
+    busy: 'अभी काम चल रहा है, कृपया प्रतीक्षा करें।',
+    noPhoto: 'विश्लेषण के लिए अभी कोई फ़ोटो नहीं है। पहले capture कहें।',
+    cameraStarting: 'कैमरा चालू हो रहा है। खाना दिखने पर फिर से capture कहें।',
+    cameraNotReady: 'कैमरा अभी तैयार नहीं है।',
+    nothingToRead: 'पढ़ने के लिए अभी कोई परिणाम नहीं है।',
+  },
+  framing: {
+    'too-dark': 'बहुत अंधेरा है। रोशनी वाली जगह पर जाएँ।',
+    'too-bright': 'बहुत तेज़ रोशनी है। सीधी धूप से बचें।',
+    'hold-still': 'स्थिर रखें।',
+    'no-subject': 'खाना नहीं दिख रहा। कैमरे को खाने की ओर करें।',
+    'move-closer': 'पास लाएँ।',
+    'move-back': 'थोड़ा पीछे ले जाएँ।',
+    'move-left': 'बाएँ ले जाएँ।',
+    'move-right': 'दाएँ ले जाएँ।',
+    'move-up': 'ऊपर ले जाएँ।',
+    'move-down': 'नीचे ले जाएँ।',
+    ready: 'ठीक है। स्थिर रखें।',
+  },
+  sample: 'नमस्ते। AAHAR आपके स्कैन के परिणाम इसी तरह पढ़ेगा।',
+};
+
+const ta: SpeechMessages = {
+  stop: '.',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'உண்ணத்தக்க நிலை',
+    because: 'காரணங்கள்',
+    visibleProblems: 'தெரியும் குறைபாடுகள்',
+    organicStatus: 'இயற்கை வேளாண் நிலை',
+    dominantColors: 'முக்கிய நிறங்கள்',
+    water: 'நீர் அளவு',
+    sugar: 'சர்க்கரை அளவு',
+    portion: 'அளவு',
+    product: 'பொருள்',
+    brand: 'பிராண்ட்',
+    assessment: 'மொத்த மதிப்பீடு',
+    primaryConcern: 'முக்கிய கவலை',
+    concerns: 'கவலைகள்',
+    allergens: 'அறிவிக்கப்பட்ட ஒவ்வாமை பொருட்கள்',
+  },
+  verdictClear: 'உங்கள் சுயவிவரத்துடன் முரண்படும் எதுவும் கண்டறியப்படவில்லை.',
+  verdictConflict: (finding, more) => `${finding} — இது உங்கள் சுயவிவரத்துடன் முரண்படுகிறது${more > 0 ? ` (மேலும் ${more})` : ''}.`,
+  verdictCaution: (finding, more) => `${finding} — இதை உங்கள் சுயவிவரத்துடன் சரிபார்க்கவும்${more > 0 ? ` (மேலும் ${more})` : ''}.`,
+  foundItems: (count, names) => `${count} உணவுப் பொருட்கள் கண்டறியப்பட்டன: ${names}.`,
+  itemNumber: position => `பொருள் ${position}:`,
+  scannedItem: 'ஸ்கேன் செய்த பொருள்:',
+  unknownFood: 'தெரியாத உணவு',
+  unknownProduct: 'தெரியாத பொருள்',
+  simulatedMark: ' (உருவகப்படுத்தப்பட்டது)',
+  simulatedNotice: 'இவற்றில் சில மதிப்புகள் உருவகப்படுத்தப்பட்டவை, உங்கள் புகைப்படத்திலிருந்து பகுப்பாய்வு செய்யப்படவில்லை.',
+  edibilityStatus: { 'Safe to Eat': 'உண்ணப் பாதுகாப்பானது', 'Wash & Eat': 'கழுவி உண்ணவும்', Unsafe: 'பாதுகாப்பற்றது' },
+  organicLikely: 'இயற்கை விளைபொருளாக இருக்கலாம்',
+  organicUnclear: 'இயற்கை விளைபொருள் அல்லாததாக இருக்கலாம், அல்லது நிலை தெளிவில்லை',
+  percent: value => `${value} சதவீதம்`,
+  fridgeDays: days => `குளிர்சாதனப் பெட்டியில் சுமார் ${days} நாட்கள் கெடாமல் இருக்கும்.`,
+  fromCompositionTable: food => `இவை உணவுக் கலவை அட்டவணையிலிருந்து ${food} க்கான வழக்கமான மதிப்புகள்.`,
+  pieces: (count, unit) => `${count} ${unit || 'துண்டுகள்'}`,
+  grams: grams => `சுமார் ${grams} கிராம்`,
+  kilocalories: kcal => `இது சுமார் ${kcal} கிலோகலோரி.`,
+  pesticides: (crop, names) => `${crop ?? 'இந்தப் பொருள்'} மீது பொதுவாகக் காணப்படும் பூச்சிக்கொல்லிகள்: ${names}.`,
+  retake: guidance => `தயவுசெய்து இன்னும் தெளிவான புகைப்படம் எடுக்கவும். ${guidance}`,
+  noAssessment: 'மொத்த மதிப்பீடு கிடைக்கவில்லை.',
+  noResidues: 'இந்தப் பொருளுக்குப் பூச்சிக்கொல்லி எச்சங்கள் எதுவும் பட்டியலிடப்படவில்லை.',
+  commands: {
+    listening: 'குரல் கட்டளைகள் இயக்கப்பட்டன. சொல்லுங்கள்: capture, analyze, read again, read residues, switch camera, scan barcode அல்லது stop.',
+    stoppedListening: 'குரல் கட்டளைகள் நிறுத்தப்பட்டன.',
+    capturing: 'புகைப்படம் எடுக்கப்படுகிறது.',
+    analyzing: 'பகுப்பாய்வு செய்யப்படுகிறது. சில வினாடிகள் ஆகும்.',
+    switchingCamera: 'கேமரா மாற்றப்படுகிறது.',
+    scanBarcode: 'பார்கோடு ஸ்கேனர் திறக்கப்படுகிறது. கேமராவை பார்கோடின் பக்கம் காட்டவும்.',
+    busy: 'இன்னும் வேலை நடக்கிறது, தயவுசெய்து காத்திருக்கவும்.',
+    noPhoto: 'பகுப்பாய்வு செய்ய இன்னும் புகைப்படம் இல்லை. முதலில் capture என்று சொல்லுங்கள்.',
+    cameraStarting: 'கேமரா தொடங்குகிறது. உணவு தெரிந்ததும் மீண்டும் capture என்று சொல்லுங்கள்.',
+    cameraNotReady: 'கேமரா இன்னும் தயாராகவில்லை.',
+    nothingToRead: 'வாசிக்க இன்னும் முடிவுகள் இல்லை.',
+  },
+  framing: {
+    'too-dark': 'மிகவும் இருட்டாக உள்ளது. வெளிச்சமான இடத்துக்குச் செல்லுங்கள்.',
+    'too-bright': 'மிகவும் வெளிச்சமாக உள்ளது. நேரடி வெயிலைத் தவிர்க்கவும்.',
+    'hold-still': 'அசையாமல் பிடியுங்கள்.',
+    'no-subject': 'உணவு தெரியவில்லை. கேமராவை உணவின் பக்கம் காட்டுங்கள்.',
+    'move-closer': 'அருகில் கொண்டு வாருங்கள்.',
+    'move-back': 'சற்றுப் பின்னால் நகர்த்துங்கள்.',
+    'move-left': 'இடது பக்கம் நகர்த்துங்கள்.',
+    'move-right': 'வலது பக்கம் நகர்த்துங்கள்.',
+    'move-up': 'மேலே நகர்த்துங்கள்.',
+    'move-down': 'கீழே நகர்த்துங்கள்.',
+    ready: 'சரி. அசையாமல் பிடியுங்கள்.',
+  },
+  sample: 'வணக்கம். AAHAR உங்கள் ஸ்கேன் முடிவுகளை இப்படித்தான் வாசிக்கும்.',
+};
+
+const te: SpeechMessages = {
+  stop: '.',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'తినదగినతనం',
+    because: 'కారణాలు',
+    visibleProblems: 'కనిపించే లోపాలు',
+    organicStatus: 'సేంద్రియ స్థితి',
+    dominantColors: 'ప్రధాన రంగులు',
+    water: 'నీటి శాతం',
+    sugar: 'చక్కెర శాతం',
+    portion: 'పరిమాణం',
+    product: 'ఉత్పత్తి',
+    brand: 'బ్రాండ్',
+    assessment: 'మొత్తం అంచనా',
+    primaryConcern: 'ప్రధాన ఆందోళన',
+    concerns: 'ఆందోళనలు',
+    allergens: 'ప్రకటించిన అలెర్జీ కారకాలు',
+  },
+  verdictClear: 'మీ ప్రొఫైల్‌కు విరుద్ధమైనది ఏదీ కనుగొనబడలేదు.',
+  verdictConflict: (finding, more) => `${finding} — ఇది మీ ప్రొఫైల్‌కు విరుద్ధం${more > 0 ? ` (మరో ${more})` : ''}.`,
+  verdictCaution: (finding, more) => `${finding} — దీన్ని మీ ప్రొఫైల్‌తో సరిచూసుకోండి${more > 0 ? ` (మరో ${more})` : ''}.`,
+  foundItems: (count, names) => `${count} ఆహార పదార్థాలు కనుగొనబడ్డాయి: ${names}.`,
+  itemNumber: position => `పదార్థం ${position}:`,
+  scannedItem: 'స్కాన్ చేసిన పదార్థం:',
+  unknownFood: 'తెలియని ఆహారం',
+  unknownProduct: 'తెలియని ఉత్పత్తి',
+  simulatedMark: ' (అనుకరించినది)',
+  simulatedNotice: 'వీటిలో కొన్ని విలువలు అనుకరించినవి, మీ ఫోటో నుండి విశ్లేషించినవి కావు.',
+  edibilityStatus: { 'Safe to Eat': 'తినడానికి సురక్షితం', 'Wash & Eat': 'కడిగి తినండి', Unsafe: 'సురక్షితం కాదు' },
+  organicLikely: 'బహుశా సేంద్రియం',
+  organicUnclear: 'బహుశా సేంద్రియం కాదు, లేదా స్థితి అస్పష్టం',
+  percent: value => `${value} శాతం`,
+  fridgeDays: days => `ఫ్రిజ్‌లో సుమారు ${days} రోజులు నిల్వ ఉంటుంది.`,
+  fromCompositionTable: food => `ఇవి ఆహార సంఘటన పట్టిక నుండి ${food} యొక్క సాధారణ విలువలు.`,
+  pieces: (count, unit) => `${count} ${unit || 'ముక్కలు'}`,
+  grams: grams => `సుమారు ${grams} గ్రాములు`,
+  kilocalories: kcal => `అంటే సుమారు ${kcal} కిలోకేలరీలు.`,
+  pesticides: (crop, names) => `${crop ?? 'ఈ పదార్థం'} పై సాధారణంగా కనిపించే పురుగుమందులు: ${names}.`,
+  retake: guidance => `దయచేసి మెరుగైన ఫోటో తీయండి. ${guidance}`,
+  noAssessment: 'మొత్తం అంచనా అందుబాటులో లేదు.',
+  noResidues: 'ఈ పదార్థానికి పురుగుమందుల అవశేషాలు ఏవీ నమోదు కాలేదు.',
+  commands: {
+    listening: 'వాయిస్ ఆదేశాలు ఆన్ అయ్యాయి. ఇలా చెప్పండి: capture, analyze, read again, read residues, switch camera, scan barcode లేదా stop.',
+    stoppedListening: 'వాయిస్ ఆదేశాలు ఆఫ్ అయ్యాయి.',
+    capturing: 'ఫోటో తీస్తున్నాం.',
+    analyzing: 'విశ్లేషిస్తున్నాం. కొన్ని సెకన్లు పడుతుంది.',
+    switchingCamera: 'కెమెరా మారుస్తున్నాం.',
+    scanBarcode: 'బార్‌కోడ్ స్కానర్ తెరుస్తున్నాం. కెమెరాను బార్‌కోడ్ వైపు చూపండి.',
+    busy: 'ఇంకా పని జరుగుతోంది, దయచేసి వేచి ఉండండి.',
+    noPhoto: 'విశ్లేషించడానికి ఇంకా ఫోటో లేదు. ముందుగా capture అని చెప్పండి.',
+    cameraStarting: 'కెమెరా ప్రారంభమవుతోంది. ఆహారం కనిపించినప్పుడు మళ్లీ capture అని చెప్పండి.',
+    cameraNotReady: 'కెమెరా ఇంకా సిద్ధంగా లేదు.',
+    nothingToRead: 'చదవడానికి ఇంకా ఫలితాలు లేవు.',
+  },
+  framing: {
+    'too-dark': 'చాలా చీకటిగా ఉంది. వెలుతురు ఉన్న చోటికి వెళ్లండి.',
+    'too-bright': 'చాలా ప్రకాశవంతంగా ఉంది. నేరుగా ఎండను నివారించండి.',
+    'hold-still': 'కదలకుండా పట్టుకోండి.',
+    'no-subject': 'ఆహారం కనిపించడం లేదు. కెమెరాను ఆహారం వైపు చూపండి.',
+    'move-closer': 'దగ్గరగా తీసుకురండి.',
+    'move-back': 'కొంచెం వెనక్కి జరపండి.',
+    'move-left': 'ఎడమ వైపు జరపండి.',
+    'move-right': 'కుడి వైపు జరపండి.',
+    'move-up': 'పైకి జరపండి.',
+    'move-down': 'కిందికి జరపండి.',
+    ready: 'బాగుంది. కదలకుండా పట్టుకోండి.',
+  },
+  sample: 'నమస్కారం. AAHAR మీ స్కాన్ ఫలితాలను ఇలా చదువుతుంది.',
+};
+
+const bn: SpeechMessages = {
+  stop: '।',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'খাওয়ার উপযোগিতা',
+    because: 'কারণ',
+    visibleProblems: 'দৃশ্যমান সমস্যা',
+    organicStatus: 'জৈব অবস্থা',
+    dominantColors: 'প্রধান রং',
+    water: 'জলের পরিমাণ',
+    sugar: 'চিনির পরিমাণ',
+    portion: 'পরিমাণ',
+    product: 'পণ্য',
+    brand: 'ব্র্যান্ড',
+    assessment: 'সামগ্রিক মূল্যায়ন',
+    primaryConcern: 'প্রধান উদ্বেগ',
+    concerns: 'উদ্বেগ',
+    allergens: 'ঘোষিত অ্যালার্জেন',
+  },
+  verdictClear: 'আপনার প্রোফাইলের সাথে বিরোধপূর্ণ কিছু পাওয়া যায়নি।',
+  verdictConflict: (finding, more) => `${finding} — এটি আপনার প্রোফাইলের সাথে বিরোধপূর্ণ${more > 0 ? ` (এবং আরও ${more}টি)` : ''}।`,
+  verdictCaution: (finding, more) => `${finding} — এটি আপনার প্রোফাইলের সাথে মিলিয়ে দেখুন${more > 0 ? ` (এবং আরও ${more}টি)` : ''}।`,
+  foundItems: (count, names) => `${count}টি খাদ্য পাওয়া গেছে: ${names}।`,
+  itemNumber: position => `খাদ্য ${position}:`,
+  scannedItem: 'স্ক্যান করা খাদ্য:',
+  unknownFood: 'অজানা খাদ্য',
+  unknownProduct: 'অজানা পণ্য',
+  simulatedMark: ' (সিমুলেটেড)',
+  simulatedNotice: 'এর কিছু মান সিমুলেটেড, আপনার ছবি থেকে বিশ্লেষণ করা নয়।',
+  edibilityStatus: { 'Safe to Eat': 'খাওয়ার জন্য নিরাপদ', 'Wash & Eat': 'ধুয়ে খান', Unsafe: 'অনিরাপদ' },
+  organicLikely: 'সম্ভবত জৈব',
+  organicUnclear: 'সম্ভবত জৈব নয়, বা অবস্থা অস্পষ্ট',
+  percent: value => `${value} শতাংশ`,
+  fridgeDays: days => `ফ্রিজে প্রায় ${days} দিন ভালো থাকে।`,
+  fromCompositionTable: food => `এগুলি খাদ্য উপাদান সারণি থেকে ${food}-এর সাধারণ মান।`,
+  pieces: (count, unit) => `${count} ${unit || 'টুকরো'}`,
+  grams: grams => `প্রায় ${grams} গ্রাম`,
+  kilocalories: kcal => `অর্থাৎ প্রায় ${kcal} কিলোক্যালোরি।`,
+  pesticides: (crop, names) => `${crop ? `${crop}-এ` : 'এই খাদ্যে'} সাধারণত পাওয়া কীটনাশক: ${names}।`,
+  retake: guidance => `অনুগ্রহ করে আরও ভালো ছবি তুলুন। ${guidance}`,
+  noAssessment: 'কোনো সামগ্রিক মূল্যায়ন পাওয়া যায়নি।',
+  noResidues: 'এই খাদ্যের জন্য কোনো কীটনাশকের অবশেষ তালিকাভুক্ত নেই।',
+  commands: {
+    listening: 'ভয়েস কমান্ড চালু হয়েছে। বলুন: capture, analyze, read again, read residues, switch camera, scan barcode অথবা stop।',
+    stoppedListening: 'ভয়েস কমান্ড বন্ধ হয়েছে।',
+    capturing: 'ছবি তোলা হচ্ছে।',
+    analyzing: 'বিশ্লেষণ করা হচ্ছে। কয়েক সেকেন্ড লাগবে।',
+    switchingCamera: 'ক্যামেরা বদলানো হচ্ছে।',
+    scanBarcode: 'বারকোড স্ক্যানার খোলা হচ্ছে। ক্যামেরা বারকোডের দিকে ধরুন।',
+    busy: 'এখনও কাজ চলছে, অনুগ্রহ করে অপেক্ষা করুন।',
+    noPhoto: 'বিশ্লেষণের জন্য এখনও কোনো ছবি নেই। আগে capture বলুন।',
+    cameraStarting: 'ক্যামেরা চালু হচ্ছে। খাবার দেখা গেলে আবার capture বলুন।',
+    cameraNotReady: 'ক্যামেরা এখনও প্রস্তুত নয়।',
+    nothingToRead: 'পড়ার মতো এখনও কোনো ফলাফল নেই।',
+  },
+  framing: {
+    'too-dark': 'খুব অন্ধকার। আলোর কাছে যান।',
+    'too-bright': 'খুব উজ্জ্বল। সরাসরি রোদ এড়িয়ে চলুন।',
+    'hold-still': 'স্থির রাখুন।',
+    'no-subject': 'খাবার দেখা যাচ্ছে না। ক্যামেরা খাবারের দিকে ধরুন।',
+    'move-closer': 'কাছে আনুন।',
+    'move-back': 'একটু পিছিয়ে নিন।',
+    'move-left': 'বাঁদিকে সরান।',
+    'move-right': 'ডানদিকে সরান।',
+    'move-up': 'উপরে সরান।',
+    'move-down': 'নিচে সরান।',
+    ready: 'ঠিক আছে। স্থির রাখুন।',
+  },
+  sample: 'নমস্কার। AAHAR আপনার স্ক্যানের ফলাফল এভাবে পড়বে।',
+};
+
+const mr: SpeechMessages = {
+  stop: '.',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'खाण्यायोग्यता',
+    because: 'कारण',
+    visibleProblems: 'दिसणाऱ्या समस्या',
+    organicStatus: 'सेंद्रिय स्थिती',
+    dominantColors: 'मुख्य रंग',
+    water: 'पाण्याचे प्रमाण',
+    sugar: 'साखरेचे प्रमाण',
+    portion: 'प्रमाण',
+    product: 'उत्पादन',
+    brand: 'ब्रँड',
+    assessment: 'एकूण मूल्यांकन',
+    primaryConcern: 'मुख्य चिंता',
+    concerns: 'चिंता',
+    allergens: 'जाहीर केलेले ऍलर्जी घटक',
+  },
+  verdictClear: 'तुमच्या प्रोफाइलशी विसंगत असे काहीही आढळले नाही.',
+  verdictConflict: (finding, more) => `${finding} — हे तुमच्या प्रोफाइलशी जुळत नाही${more > 0 ? ` (आणि आणखी ${more})` : ''}.`,
+  verdictCaution: (finding, more) => `${finding} — हे तुमच्या प्रोफाइलनुसार तपासून पाहा${more > 0 ? ` (आणि आणखी ${more})` : ''}.`,
+  foundItems: (count, names) => `${count} खाद्यपदार्थ सापडले: ${names}.`,
+  itemNumber: position => `पदार्थ ${position}:`,
+  scannedItem: 'स्कॅन केलेला पदार्थ:',
+  unknownFood: 'अज्ञात खाद्यपदार्थ',
+  unknownProduct: 'अज्ञात उत्पादन',
+  simulatedMark: ' (सिम्युलेटेड)',
+  simulatedNotice: 'यातील काही मूल्ये सिम्युलेटेड आहेत, तुमच्या फोटोवरून विश्लेषित केलेली नाहीत.',
+  edibilityStatus: { 'Safe to Eat': 'खाण्यास सुरक्षित', 'Wash & Eat': 'धुऊन खा', Unsafe: 'असुरक्षित' },
+  organicLikely: 'बहुधा सेंद्रिय',
+  organicUnclear: 'बहुधा सेंद्रिय नाही, किंवा स्थिती अस्पष्ट',
+  percent: value => `${value} टक्के`,
+  fridgeDays: days => `फ्रिजमध्ये सुमारे ${days} दिवस टिकते.`,
+  fromCompositionTable: food => `ही अन्न घटक तक्त्यातील ${food} ची सामान्य मूल्ये आहेत.`,
+  pieces: (count, unit) => `${count} ${unit || 'नग'}`,
+  grams: grams => `सुमारे ${grams} ग्रॅम`,
+  kilocalories: kcal => `म्हणजे सुमारे ${kcal} किलोकॅलरी.`,
+  pesticides: (crop, names) => `${crop ?? 'या पदार्था'}वर सामान्यतः आढळणारी कीटकनाशके: ${names}.`,
+  retake: guidance => `कृपया अधिक चांगला फोटो घ्या. ${guidance}`,
+  noAssessment: 'एकूण मूल्यांकन उपलब्ध नाही.',
+  noResidues: 'या पदार्थासाठी कोणतेही कीटकनाशक अवशेष नोंदवलेले नाहीत.',
+  commands: {
+    listening: 'आवाज आदेश सुरू आहेत. म्हणा: capture, analyze, read again, read residues, switch camera, scan barcode किंवा stop.',
+    stoppedListening: 'आवाज आदेश बंद आहेत.',
+    capturing: 'फोटो घेतला जात आहे.',
+    analyzing: 'विश्लेषण सुरू आहे. काही सेकंद लागतील.',
+    switchingCamera: 'कॅमेरा बदलत आहे.',
+    scanBarcode: 'बारकोड स्कॅनर उघडत आहे. कॅमेरा बारकोडकडे धरा.',
+    busy: 'अजून काम सुरू आहे, कृपया थांबा.',
+    noPhoto: 'विश्लेषणासाठी अजून फोटो नाही. आधी capture म्हणा.',
+    cameraStarting: 'कॅमेरा सुरू होत आहे. अन्न दिसू लागल्यावर पुन्हा capture म्हणा.',
+    cameraNotReady: 'कॅमेरा अजून तयार नाही.',
+    nothingToRead: 'वाचण्यासाठी अजून कोणतेही निकाल नाहीत.',
+  },
+  framing: {
+    'too-dark': 'खूप अंधार आहे. उजेडात जा.',
+    'too-bright': 'खूप प्रकाश आहे. थेट ऊन टाळा.',
+    'hold-still': 'स्थिर धरा.',
+    'no-subject': 'अन्न दिसत नाही. कॅमेरा अन्नाकडे धरा.',
+    'move-closer': 'जवळ आणा.',
+    'move-back': 'थोडे मागे न्या.',
+    'move-left': 'डावीकडे न्या.',
+    'move-right': 'उजवीकडे न्या.',
+    'move-up': 'वर न्या.',
+    'move-down': 'खाली न्या.',
+    ready: 'छान. स्थिर धरा.',
+  },
+  sample: 'नमस्कार. AAHAR तुमचे स्कॅनचे निकाल असे वाचेल.',
+};
+
+const es: SpeechMessages = {
+  stop: '.',
+  listSeparator: ', ',
+  labels: {
+    edibility: 'Comestibilidad',
+    because: 'Motivos',
+    visibleProblems: 'Problemas visibles',
+    organicStatus: 'Estado orgánico',
+    dominantColors: 'Colores predominantes',
+    water: 'Contenido de agua',
+    sugar: 'Contenido de azúcar',
+    portion: 'Porción',
+    product: 'Producto',
+    brand: 'Marca',
+    assessment: 'Valoración general',
+    primaryConcern: 'Principal preocupación',
+    concerns: 'Preocupaciones',
+    allergens: 'Alérgenos declarados',
+  },
+  verdictClear: 'No se encontró nada que entre en conflicto con tu perfil.',
+  verdictConflict: (finding, more) => `${finding}: entra en conflicto con tu perfil${more > 0 ? ` (y ${more} más)` : ''}.`,
+  verdictCaution: (finding, more) => `${finding}: compruébalo con tu perfil${more > 0 ? ` (y ${more} más)` : ''}.`,
+  foundItems: (count, names) => `Se encontraron ${count} alimentos: ${names}.`,
+  itemNumber: position => `Alimento ${position}:`,
+  scannedItem: 'Alimento escaneado:',
+  unknownFood: 'Alimento desconocido',
+  unknownProduct: 'Producto desconocido',
+  simulatedMark: ' (simulado)',
+  simulatedNotice: 'Algunos de estos valores son simulados, no se analizaron a partir de tu foto.',
+  edibilityStatus: { 'Safe to Eat': 'Se puede comer', 'Wash & Eat': 'Lavar antes de comer', Unsafe: 'No es seguro' },
+  organicLikely: 'Probablemente orgánico',
+  organicUnclear: 'Probablemente no orgánico, o no se puede saber',
+  percent: value => `${value} por ciento`,
+  fridgeDays: days => `Se conserva unos ${days} días en el frigorífico.`,
+  fromCompositionTable: food => `Son valores típicos de ${food} según una tabla de composición de alimentos.`,
+  pieces: (count, unit) => `${count} ${unit || 'piezas'}`,
+  grams: grams => `unos ${grams} gramos`,
+  kilocalories: kcal => `Son aproximadamente ${kcal} kilocalorías.`,
+  pesticides: (crop, names) => `Pesticidas que se encuentran con frecuencia en ${crop ?? 'este alimento'}: ${names}.`,
+  retake: guidance => `Por favor, toma una foto mejor. ${guidance}`,
+  noAssessment: 'No hay una valoración general disponible.',
+  noResidues: 'No hay residuos de pesticidas registrados para este alimento.',
+  commands: {
+    listening: 'Órdenes de voz activadas. Di capture, analyze, read again, read residues, switch camera, scan barcode o stop.',
+    stoppedListening: 'Órdenes de voz desactivadas.',
+    capturing: 'Tomando la foto.',
+    analyzing: 'Analizando. Tarda unos segundos.',
+    switchingCamera: 'Cambiando de cámara.',
+    scanBarcode: 'Abriendo el lector de códigos de barras. Apunta la cámara al código.',
+    busy: 'Todavía estoy trabajando, espera un momento.',
+    noPhoto: 'Aún no hay ninguna foto que analizar. Di capture primero.',
+    cameraStarting: 'Encendiendo la cámara. Di capture otra vez cuando se vea el alimento.',
+    cameraNotReady: 'La cámara aún no está lista.',
+    nothingToRead: 'Todavía no hay resultados que leer.',
+  },
+  framing: {
+    'too-dark': 'Demasiado oscuro. Busca más luz.',
+    'too-bright': 'Demasiada luz. Evita el sol directo.',
+    'hold-still': 'No te muevas.',
+    'no-subject': 'No se ve ningún alimento. Apunta la cámara al alimento.',
+    'move-closer': 'Acércate.',
+    'move-back': 'Aléjate un poco.',
+    'move-left': 'Mueve a la izquierda.',
+    'move-right': 'Mueve a la derecha.',
+    'move-up': 'Mueve hacia arriba.',
+    'move-down': 'Mueve hacia abajo.',
+    ready: 'Bien. No te muevas.',
+  },
+  sample: 'Hola. Así leerá AAHAR los resultados de tus escaneos.',
+};
+
+export const SPEECH_MESSAGES: Record<SpeechLanguage, SpeechMessages> = { en, hi, ta, te, bn, mr, es };
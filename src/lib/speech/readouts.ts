@@ -0,0 +1,172 @@
+/**
+ * @fileOverview Builds the text read aloud for scan results, in the user's
+ * language and at their chosen level of detail.
+ *
+ * - ReadoutOptions - The language, verbosity and profile a readout is built for.
+ * - foodItemReadout - One item of a food photo analysis, split into headline and details.
+ * - residuesReadout - The pesticide residues listed for one item.
+ * - productReadout - A barcode or label scan.
+ * - retakeReadout - Asks for a better photo.
+ */
+
+import type { AnalyzeBarcodeOutput } from '@/ai/flows/analyze-barcode-flow';
+import type { AnalyzeFoodItemOutput } from '@/ai/flows/analyze-food-item';
+import { checkBarcodeResult, checkFoodItemResult, type DietaryProfile, type ProfileVerdict } from '@/lib/profile';
+import { hasSimulatedValues, provenanceOf, withoutSimulatedValues, type FoodItemField } from '@/lib/provenance';
+import { SPEECH_MESSAGES, type SpeechMessages } from './messages';
+import type { SpeechLanguage, SpeechVerbosity } from './settings';
+
+export interface ReadoutOptions {
+  language: SpeechLanguage;
+  verbosity: SpeechVerbosity;
+  /** Profile conflicts are what matter most to the listener, so they are read first. */
+  profile: DietaryProfile;
+  /** Leaves simulated values out, as the results panel does. */
+  hideSimulatedValues: boolean;
+}
+
+export interface FoodItemReadout {
+  /** Verdict, name and edibility: what can be said as soon as a streamed draft names the item. */
+  headline: string;
+  details: string;
+}
+
+function describeVerdict(verdict: ProfileVerdict, messages: SpeechMessages): string {
+  if (verdict.status === 'clear') return messages.verdictClear;
+  const [first, ...rest] = verdict.findings;
+  return verdict.status === 'conflict'
+    ? messages.verdictConflict(first.label, rest.length)
+    : messages.verdictCaution(first.label, rest.length);
+}
+
+/** "Label (simulated): value." with the language's sentence end. */
+function section(messages: SpeechMessages, label: string, value: string, mark = ''): string {
+  return `${label}${mark}: ${value}${messages.stop} `;
+}
+
+/** Joins sentences taken from the analysis, which may or may not end with a stop already. */
+function sentences(messages: SpeechMessages, parts: string[]): string {
+  return parts.map(part => part.trim().replace(/[.।]$/, '')).join(`${messages.stop} `);
+}
+
+/**
+ * The readout of one item. In summary mode the details keep only the most
+ * important reason for the edibility verdict and any visible problems; full
+ * mode reads every section the results panel shows.
+ */
+export function foodItemReadout(result: AnalyzeFoodItemOutput, itemIndex: number, options: ReadoutOptions): FoodItemReadout | null {
+  const detected = result.items[itemIndex];
+  if (!detected) return null;
+  const messages = SPEECH_MESSAGES[options.language];
+  const full = options.verbosity === 'full';
+  const item = options.hideSimulatedValues ? withoutSimulatedValues(detected) : detected;
+  const simulated = (field: FoodItemField) => (provenanceOf(item, field) === 'simulated' ? messages.simulatedMark : '');
+
+  const verdict = checkFoodItemResult(result, options.profile);
+  let headline = verdict ? `${describeVerdict(verdict, messages)} ` : '';
+  if (result.items.length > 1) {
+    const names = result.items.map(other => other.identification.name || messages.unknownFood).join(messages.listSeparator);
+    headline += `${messages.foundItems(result.items.length, names)} ${messages.itemNumber(itemIndex + 1)} `;
+  } else {
+    headline += `${messages.scannedItem} `;
+  }
+  headline += `${item.identification.name || messages.unknownFood}${simulated('identification')}${messages.stop} `;
+  if (hasSimulatedValues(item)) {
+    headline += `${messages.simulatedNotice} `;
+  }
+  if (item.edibility) {
+    headline += section(messages, messages.labels.edibility, messages.edibilityStatus[item.edibility], simulated('edibility'));
+  }
+
+  let details = '';
+  const reasons = item.edibilityReasoning ?? [];
+  if (reasons.length > 0) {
+    details += section(messages, messages.labels.because, sentences(messages, full ? reasons : reasons.slice(0, 1)));
+  }
+  const defects = item.freshness?.defects ?? [];
+  if (defects.length > 0) {
+    details += section(messages, messages.labels.visibleProblems, sentences(messages, defects.map(defect => defect.description)));
+  }
+  if (!full) return { headline, details };
+
+  if (item.freshness?.shelfLife?.refrigeratedDays !== undefined) {
+    details += `${messages.fridgeDays(item.freshness.shelfLife.refrigeratedDays)} `;
+  }
+  if (item.identification.isOrganic !== undefined) {
+    details += section(messages, messages.labels.organicStatus, item.identification.isOrganic ? messages.organicLikely : messages.organicUnclear, simulated('organicStatus'));
+  }
+  if (item.identification.dominantColors && item.identification.dominantColors.length > 0) {
+    details += section(messages, messages.labels.dominantColors, item.identification.dominantColors.join(messages.listSeparator), simulated('dominantColors'));
+  }
+  if (item.components) {
+    if (item.components.waterPercentage !== undefined) details += section(messages, messages.labels.water, messages.percent(item.components.waterPercentage), simulated('components'));
+    if (item.components.sugarPercentage !== undefined) details += section(messages, messages.labels.sugar, messages.percent(item.components.sugarPercentage), simulated('components'));
+    if (item.composition) details += `${messages.fromCompositionTable(item.composition.match.name.toLowerCase())} `;
+  }
+  if (item.portion) {
+    const { count, unit, estimatedWeightGrams } = item.portion;
+    const amount = [count !== undefined ? messages.pieces(count, unit) : '', estimatedWeightGrams !== undefined ? messages.grams(estimatedWeightGrams) : ''].filter(Boolean).join(messages.listSeparator);
+    if (amount) details += section(messages, messages.labels.portion, amount, simulated('portion'));
+    if (estimatedWeightGrams !== undefined && item.composition) {
+      details += `${messages.kilocalories(Math.round(item.composition.per100g.energyKcal * estimatedWeightGrams / 100))} `;
+    }
+  }
+  if (item.chemicalResidues && item.chemicalResidues.length > 0) {
+    details += `${messages.pesticides(item.residueCrop?.toLowerCase(), item.chemicalResidues.map(residue => residue.name).join(messages.listSeparator))} `;
+  }
+  return { headline, details };
+}
+
+/**
+ * The residues listed for one item. Full mode adds each residue's washing
+ * advice; summary mode only names them.
+ */
+export function residuesReadout(result: AnalyzeFoodItemOutput, itemIndex: number, options: ReadoutOptions): string | null {
+  const item = result.items[itemIndex];
+  if (!item) return null;
+  const messages = SPEECH_MESSAGES[options.language];
+  const residues = item.chemicalResidues ?? [];
+  if (residues.length === 0) return messages.noResidues;
+  let text = `${messages.pesticides(item.residueCrop?.toLowerCase(), residues.map(residue => residue.name).join(messages.listSeparator))} `;
+  if (options.verbosity === 'full') {
+    for (const residue of residues) {
+      if (residue.washingAdvice) text += section(messages, residue.name, sentences(messages, [residue.washingAdvice]));
+    }
+  }
+  return text;
+}
+
+/**
+ * The readout of a barcode or label scan, or null when no product was found.
+ * Summary mode reads the verdict, the product and its primary concern; full
+ * mode adds the brand, the assessment, every concern and the declared allergens.
+ */
+export function productReadout(result: AnalyzeBarcodeOutput, options: ReadoutOptions): string | null {
+  if (!result.isFound) return null;
+  const messages = SPEECH_MESSAGES[options.language];
+  const full = options.verbosity === 'full';
+  const verdict = checkBarcodeResult(result, options.profile);
+  let text = verdict ? `${describeVerdict(verdict, messages)} ` : '';
+  text += section(messages, messages.labels.product, result.productName || messages.unknownProduct);
+  if (full && result.brand && result.brand !== 'N/A') {
+    text += section(messages, messages.labels.brand, result.brand);
+  }
+  if (full) {
+    text += result.overallAssessment ? section(messages, messages.labels.assessment, sentences(messages, [result.overallAssessment])) : `${messages.noAssessment} `;
+  }
+  const concerns = (result.potentialConcerns ?? []).map(item => item.concern).filter(Boolean);
+  if (full && concerns.length > 1) {
+    text += section(messages, messages.labels.concerns, concerns.join(messages.listSeparator));
+  } else if (concerns.length > 0) {
+    text += section(messages, messages.labels.primaryConcern, concerns[0]);
+  }
+  if (full && result.allergens && result.allergens.length > 0) {
+    text += section(messages, messages.labels.allergens, result.allergens.join(messages.listSeparator));
+  }
+  return text;
+}
+
+/** Asks for a better photo; the guidance itself is read as the analysis wrote it. */
+export function retakeReadout(guidance: string[], options: Pick<ReadoutOptions, 'language'>): string {
+  return SPEECH_MESSAGES[options.language].retake(guidance.join(' '));
+}
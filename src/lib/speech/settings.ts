@@ -0,0 +1,55 @@
+/**
+ * @fileOverview How results are read aloud: language, voice, speed, pitch and
+ * how much is read. Kept on this device and synced to the signed-in user's
+ * account (`users/{uid}/settings/speech`).
+ *
+ * - SpeechSettings - The stored voice feedback settings.
+ * - SpeechLanguage - A language the readouts are translated into.
+ * - SPEECH_LANGUAGES - Display names and BCP 47 tags of the readout languages.
+ * - speechSetting - The synced setting holding them.
+ */
+
+import { createSyncedSetting, type SyncedValue } from '@/lib/sync/synced-setting';
+
+export type SpeechLanguage = 'en' | 'hi' | 'ta' | 'te' | 'bn' | 'mr' | 'es';
+
+/** 'summary' reads the verdict and the most important reason; 'full' reads every section. */
+export type SpeechVerbosity = 'summary' | 'full';
+
+export interface SpeechSettings extends SyncedValue {
+  /** Read results aloud as soon as they arrive; the read-aloud buttons work either way. */
+  autoRead: boolean;
+  language: SpeechLanguage;
+  /**
+   * The chosen voice's `voiceURI`, or null to pick one for the language.
+   * Voices differ between devices, so an unavailable voice falls back to the automatic choice.
+   */
+  voiceURI: string | null;
+  /** 0.5 (slow) to 2 (fast); 1 is the voice's normal speed. */
+  rate: number;
+  /** 0 (low) to 2 (high); 1 is the voice's normal pitch. */
+  pitch: number;
+  verbosity: SpeechVerbosity;
+}
+
+export const SPEECH_LANGUAGES: Record<SpeechLanguage, { label: string; nativeLabel: string; tag: string }> = {
+  en: { label: 'English', nativeLabel: 'English', tag: 'en-US' },
+  hi: { label: 'Hindi', nativeLabel: 'हिन्दी', tag: 'hi-IN' },
+  ta: { label: 'Tamil', nativeLabel: 'தமிழ்', tag: 'ta-IN' },
+  te: { label: 'Telugu', nativeLabel: 'తెలుగు', tag: 'te-IN' },
+  bn: { label: 'Bengali', nativeLabel: 'বাংলা', tag: 'bn-IN' },
+  mr: { label: 'Marathi', nativeLabel: 'मराठी', tag: 'mr-IN' },
+  es: { label: 'Spanish', nativeLabel: 'Español', tag: 'es-ES' },
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  autoRead: true,
+  language: 'en',
+  voiceURI: null,
+  rate: 1,
+  pitch: 1,
+  verbosity: 'full',
+  updatedAt: 0,
+};
+
+export const speechSetting = createSyncedSetting('speech', DEFAULT_SPEECH_SETTINGS);
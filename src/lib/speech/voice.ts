@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Reading text aloud with the Web Speech API according to the
+ * user's speech settings.
+ *
+ * - voicesForLanguage - The installed voices that can read a language.
+ * - pickVoice - The installed voice to read a language with.
+ * - speak - Reads text aloud, interrupting or queueing after what is being read.
+ * - stopSpeaking - Stops reading.
+ * - isSpeaking - Whether something is being read right now.
+ * - isSpeechSupported - Whether this browser can read aloud at all.
+ */
+
+import { SPEECH_LANGUAGES, type SpeechLanguage, type SpeechSettings } from './settings';
+
+/** Voices whose language matches, those for the exact region (hi-IN for hi-IN) first. */
+export function voicesForLanguage(voices: SpeechSynthesisVoice[], language: SpeechLanguage): SpeechSynthesisVoice[] {
+  const tag = SPEECH_LANGUAGES[language].tag.toLowerCase();
+  // Some platforms report "hi_IN" instead of "hi-IN".
+  const normalized = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  const matching = voices.filter(voice => normalized(voice).split('-')[0] === language);
+  const rank = (voice: SpeechSynthesisVoice) => (normalized(voice) === tag ? 0 : 1) + (voice.localService ? 0 : 0.5);
+  return [...matching].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * The chosen voice when it is installed and speaks the language, otherwise the
+ * best installed voice for the language. Null when none is installed; the
+ * browser then reads with its default voice for the utterance's language.
+ */
+export function pickVoice(voices: SpeechSynthesisVoice[], settings: Pick<SpeechSettings, 'language' | 'voiceURI'>): SpeechSynthesisVoice | null {
+  const candidates = voicesForLanguage(voices, settings.language);
+  return candidates.find(voice => voice.voiceURI === settings.voiceURI) ?? candidates[0] ?? null;
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Reads `text` with the settings' language, voice, rate and pitch. By default
+ * it interrupts whatever is being read; with `interrupt: false` it is queued.
+ */
+export function speak(text: string, settings: SpeechSettings, voices: SpeechSynthesisVoice[], { interrupt = true } = {}): void {
+  if (!isSpeechSupported() || !text.trim()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  // The language tag still matters without a voice: the browser picks its own voice for it.
+  utterance.lang = SPEECH_LANGUAGES[settings.language].tag;
+  const voice = pickVoice(voices, settings);
+  if (voice) utterance.voice = voice;
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  if (interrupt) window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
+
+export function stopSpeaking(): void {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+}
+
+export function isSpeaking(): boolean {
+  return isSpeechSupported() && window.speechSynthesis.speaking;
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileOverview A small per-user settings document kept in localStorage and,
+ * for signed-in users, in Firestore at `users/{uid}/settings/{name}`.
+ *
+ * Each value carries an `updatedAt` timestamp; when the two copies differ the
+ * newer one wins and is written to the other side. The local copy also records
+ * the account it was saved for, as scan history does with `ownerUid`, so one
+ * account's settings are never shown to, or uploaded into, another account
+ * that signs in on the same device.
+ *
+ * - createSyncedSetting - Defines a setting with its storage name and defaults.
+ * - reconcileSetting - Brings the local and synced copies in line and returns the winner.
+ */
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { getCurrentUser, getFirestoreDb } from '@/lib/firebase/client';
+
+export interface SyncedValue {
+  /** Milliseconds since the epoch; 0 means never saved. */
+  updatedAt: number;
+}
+
+export interface SyncedSetting<T extends SyncedValue> {
+  name: string;
+  defaults: T;
+  /**
+   * The copy saved on this device for `ownerUid`, or one saved while signed out.
+   * A copy saved for another account reads as the defaults.
+   */
+  loadLocal(ownerUid: string | null): T;
+  /** `ownerUid` is the signed-in account, or null while signed out. */
+  saveLocal(value: T, ownerUid: string | null): void;
+  /** Resolves to null when nobody is signed in or nothing has been synced yet. */
+  loadRemote(): Promise<T | null>;
+  saveRemote(value: T): Promise<void>;
+}
+
+export function createSyncedSetting<T extends SyncedValue>(name: string, defaults: T): SyncedSetting<T> {
+  const storageKey = `aahar.${name}`;
+
+  // Spreading over the defaults fills in fields added since the value was saved.
+  const withDefaults = (value: Partial<T> | null | undefined): T => ({ ...defaults, ...(value ?? {}) });
+
+  async function settingDoc() {
+    const db = getFirestoreDb();
+    const user = db ? await getCurrentUser() : null;
+    return db && user ? doc(db, 'users', user.uid, 'settings', name) : null;
+  }
+
+  return {
+    name,
+    defaults,
+    loadLocal(ownerUid) {
+      if (typeof window === 'undefined') return defaults;
+      try {
+        const raw = window.localStorage.getItem(storageKey);
+        if (!raw) return defaults;
+        const { ownerUid: savedFor, ...value } = JSON.parse(raw) as Partial<T> & { ownerUid?: string };
+        // Copies saved while signed out belong to whoever signs in next; those of another account are not ours.
+        return savedFor && savedFor !== ownerUid ? defaults : withDefaults(value as Partial<T>);
+      } catch (e) {
+        console.warn(`Could not read the saved ${name}:`, e);
+        return defaults;
+      }
+    },
+    saveLocal(value, ownerUid) {
+      if (typeof window === 'undefined') return;
+      window.localStorage.setItem(storageKey, JSON.stringify(ownerUid ? { ...value, ownerUid } : value));
+    },
+    async loadRemote() {
+      const ref = await settingDoc();
+      if (!ref) return null;
+      const snapshot = await getDoc(ref);
+      return snapshot.exists() ? withDefaults(snapshot.data() as Partial<T>) : null;
+    },
+    async saveRemote(value) {
+      const ref = await settingDoc();
+      // Firestore rejects `undefined` fields.
+      if (ref) await setDoc(ref, JSON.parse(JSON.stringify(value)));
+    },
+  };
+}
+
+/**
+ * Reconciles the copies for the signed-in account `uid`. Only a local copy saved
+ * by that account, or while signed out, is uploaded; it is then claimed for the account.
+ */
+export async function reconcileSetting<T extends SyncedValue>(setting: SyncedSetting<T>, uid: string): Promise<T> {
+  const local = setting.loadLocal(uid);
+  const remote = await setting.loadRemote();
+
+  if (remote && remote.updatedAt > local.updatedAt) {
+    setting.saveLocal(remote, uid);
+    return remote;
+  }
+  if (local.updatedAt > (remote?.updatedAt ?? 0)) {
+    await setting.saveRemote(local);
+    setting.saveLocal(local, uid);
+  }
+  return local;
+}
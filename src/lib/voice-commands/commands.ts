@@ -0,0 +1,44 @@
+/**
+ * @fileOverview The spoken commands of the scan screen and how transcripts are
+ * matched to them.
+ *
+ * - VoiceCommand - A command the scan screen can carry out.
+ * - COMMAND_PHRASES - What can be said for each command.
+ * - matchCommand - The command in a recognized utterance, if any.
+ */
+
+export type VoiceCommand = 'capture' | 'analyze' | 'read-again' | 'read-residues' | 'switch-camera' | 'scan-barcode' | 'stop';
+
+/** The first phrase of each command is the one shown in the UI. */
+export const COMMAND_PHRASES: Record<VoiceCommand, string[]> = {
+  capture: ['capture', 'take a photo', 'take photo', 'take a picture', 'take picture'],
+  analyze: ['analyze', 'analyse', 'analysis', 'check it'],
+  'read-again': ['read again', 'read it again', 'repeat', 'say again', 'read results'],
+  'read-residues': ['read residues', 'residues', 'residue', 'pesticides', 'pesticide'],
+  'switch-camera': ['switch camera', 'flip camera', 'change camera', 'other camera'],
+  'scan-barcode': ['scan barcode', 'scan a barcode', 'scan the barcode'],
+  stop: ['stop', 'quiet', 'be quiet', 'silence'],
+};
+
+// Longest phrases first, so "read residues" wins over a shorter phrase inside the same utterance.
+const PHRASES = (Object.entries(COMMAND_PHRASES) as [VoiceCommand, string[]][])
+  .flatMap(([command, phrases]) => phrases.map(phrase => ({ command, phrase })))
+  .sort((a, b) => b.phrase.length - a.phrase.length);
+
+function normalize(transcript: string): string {
+  return ` ${transcript.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+}
+
+/**
+ * The command in the first alternative transcript that contains one. Phrases
+ * are matched as whole words anywhere in the utterance, so "okay, capture
+ * please" is a capture.
+ */
+export function matchCommand(transcripts: string[]): VoiceCommand | null {
+  for (const transcript of transcripts) {
+    const text = normalize(transcript);
+    const match = PHRASES.find(({ phrase }) => text.includes(` ${phrase} `));
+    if (match) return match.command;
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Listens for spoken commands.
+ *
+ * Uses the browser's Web Speech recognition (`SpeechRecognition`, prefixed as
+ * `webkitSpeechRecognition` in Chrome and Safari) where it exists. Anything
+ * implementing `CommandRecognizer` can stand in for it, such as the manual
+ * recognizer, which is fed transcripts directly.
+ *
+ * - CommandRecognizer - What the voice command layer listens with.
+ * - createWebSpeechRecognizer - The browser's recognizer, or null where there is none.
+ * - createManualRecognizer - A recognizer that reports the transcripts it is given.
+ */
+
+export interface RecognizerHandlers {
+  /** Each finished utterance, as the recognizer's alternative transcripts, most likely first. */
+  onTranscripts(transcripts: string[]): void;
+  /**
+   * A recognition error. 'not-allowed' means the microphone was refused; the
+   * caller should stop listening rather than start again.
+   */
+  onError(error: 'not-allowed' | 'unavailable' | 'failed'): void;
+  /** Listening stopped, after stop() or by itself (browsers end sessions after a silence). */
+  onEnd(): void;
+}
+
+export interface CommandRecognizer {
+  /** Which implementation is in use, for diagnostics in the UI. */
+  readonly kind: 'web-speech' | 'manual';
+  start(handlers: RecognizerHandlers): void;
+  stop(): void;
+}
+
+export interface ManualRecognizer extends CommandRecognizer {
+  readonly kind: 'manual';
+  /** Reports `transcript` as if it had been heard, when listening. */
+  say(transcript: string): void;
+}
+
+// `SpeechRecognition` itself is not part of TypeScript's DOM lib, only its result types.
+interface NativeRecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+interface NativeRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: NativeRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+type NativeRecognitionConstructor = new () => NativeRecognition;
+
+// The alternatives help with short commands, which are easily misheard ("analyse" as "and lies").
+const MAX_ALTERNATIVES = 3;
+
+function nativeRecognitionConstructor(): NativeRecognitionConstructor | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const scope = window as { SpeechRecognition?: NativeRecognitionConstructor; webkitSpeechRecognition?: NativeRecognitionConstructor };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+}
+
+export function createWebSpeechRecognizer(lang: string): CommandRecognizer | null {
+  const Recognition = nativeRecognitionConstructor();
+  if (!Recognition) return null;
+  let recognition: NativeRecognition | null = null;
+
+  return {
+    kind: 'web-speech',
+    start(handlers) {
+      recognition?.abort();
+      const current = new Recognition();
+      recognition = current;
+      current.lang = lang;
+      current.continuous = true;
+      current.interimResults = false;
+      current.maxAlternatives = MAX_ALTERNATIVES;
+      current.onresult = event => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (!result.isFinal) continue;
+          handlers.onTranscripts(Array.from({ length: result.length }, (_, j) => result[j].transcript));
+        }
+      };
+      current.onerror = event => {
+        // Silence and a stop() in the middle of an utterance are not failures.
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') handlers.onError('not-allowed');
+        else if (event.error === 'audio-capture' || event.error === 'language-not-supported') handlers.onError('unavailable');
+        else handlers.onError('failed');
+      };
+      current.onend = () => {
+        if (recognition === current) recognition = null;
+        handlers.onEnd();
+      };
+      try {
+        current.start();
+      } catch {
+        // Thrown when the browser is still shutting down the previous session.
+        handlers.onError('failed');
+        handlers.onEnd();
+      }
+    },
+    stop() {
+      recognition?.stop();
+    },
+  };
+}
+
+export function createManualRecognizer(): ManualRecognizer {
+  let handlers: RecognizerHandlers | null = null;
+  return {
+    kind: 'manual',
+    start(next) {
+      handlers = next;
+    },
+    stop() {
+      const stopped = handlers;
+      handlers = null;
+      stopped?.onEnd();
+    },
+    say(transcript) {
+      handlers?.onTranscripts([transcript]);
+    },
+  };
+}